@@ -0,0 +1,62 @@
+import { gzipSync } from 'node:zlib'
+import type { Plugin, Rollup } from 'vite'
+
+type OutputChunk = Rollup.OutputChunk
+
+interface ChunkSize {
+  file: string
+  bytes: number
+  gzip: number
+}
+
+export interface BundleReport {
+  initial: { bytes: number; gzip: number; chunks: ChunkSize[] }
+  lazy: { bytes: number; gzip: number; chunks: number }
+}
+
+function size(chunk: OutputChunk): ChunkSize {
+  return { file: chunk.fileName, bytes: Buffer.byteLength(chunk.code), gzip: gzipSync(chunk.code).length }
+}
+
+function sum(chunks: ChunkSize[]) {
+  return {
+    bytes: chunks.reduce((total, chunk) => total + chunk.bytes, 0),
+    gzip: chunks.reduce((total, chunk) => total + chunk.gzip, 0),
+  }
+}
+
+const kb = (bytes: number) => `${(bytes / 1024).toFixed(1)} kB`
+
+// Splits the client JavaScript into what the page loads up front (entry plus
+// its static imports) and what is only fetched on demand, and writes the
+// totals to bundle-report.json next to the build
+export function bundleReport(): Plugin {
+  return {
+    name: 'bundle-report',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const chunks = Object.values(bundle).filter((output): output is OutputChunk => output.type === 'chunk')
+      const initialNames = new Set<string>()
+      const visit = (fileName: string) => {
+        if (initialNames.has(fileName)) return
+        initialNames.add(fileName)
+        const chunk = bundle[fileName]
+        if (chunk?.type === 'chunk') chunk.imports.forEach(visit)
+      }
+      chunks.filter((chunk) => chunk.isEntry).forEach((chunk) => visit(chunk.fileName))
+
+      const initial = chunks.filter((chunk) => initialNames.has(chunk.fileName)).map(size)
+      const lazy = chunks.filter((chunk) => !initialNames.has(chunk.fileName)).map(size)
+      const report: BundleReport = {
+        initial: { ...sum(initial), chunks: initial },
+        lazy: { ...sum(lazy), chunks: lazy.length },
+      }
+
+      this.emitFile({ type: 'asset', fileName: 'bundle-report.json', source: JSON.stringify(report, null, 2) })
+      this.info(
+        `initial JS ${kb(report.initial.bytes)} (gzip ${kb(report.initial.gzip)}), ` +
+          `lazy JS ${kb(report.lazy.bytes)} in ${report.lazy.chunks} chunks`,
+      )
+    },
+  }
+}
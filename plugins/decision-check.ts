@@ -0,0 +1,25 @@
+import { runnerImport, type Plugin } from 'vite'
+
+// Scores the questionnaire's scenarios (src/content/decision.ts) and fails
+// the build when one no longer gets the recommendation it expects, so a
+// weight change shows its effect in review instead of on the page.
+export function decisionCheck(): Plugin {
+  let root = process.cwd()
+
+  return {
+    name: 'decision-check',
+    apply: 'build',
+    configResolved(config) {
+      root = config.root
+    },
+    async buildStart() {
+      const { module } = await runnerImport<{ decisionProblems: () => string[] }>('/src/lib/decision.ts', {
+        root,
+        configFile: false,
+        logLevel: 'error',
+      })
+      const problems = module.decisionProblems()
+      if (problems.length > 0) this.error(`Questionnaire scoring:\n  ${problems.join('\n  ')}`)
+    },
+  }
+}
@@ -0,0 +1,129 @@
+import { transformerTwoslash } from '@shikijs/twoslash'
+import type { ShikiTransformer } from 'shiki'
+import ts from 'typescript'
+import { runnerImport, type Plugin } from 'vite'
+
+const VIRTUAL_ID = 'virtual:highlighted-snippets'
+const RESOLVED_ID = `\0${VIRTUAL_ID}`
+
+interface SnippetSource {
+  id: string
+  snippet: { code: string; lang: string; twoslash?: true }
+}
+
+const NOTATION = /^\s*\/\/\s*(?:\^\?|@\w+)/
+
+// Twoslash keeps its `^?` and `// @errors:` lines (so lines keep the numbers
+// the editor and steps use); mark them for the stylesheet to hide
+const markNotations: ShikiTransformer = {
+  name: 'mark-twoslash-notations',
+  line(node, line) {
+    if (NOTATION.test(this.source.split('\n')[line - 1] ?? '')) this.addClassToHast(node, 'twoslash-notation')
+  },
+}
+
+// FNV-1a; keys the lookup table without shipping every snippet twice
+function snippetKey(code: string, lang: string): string {
+  let hash = 0x811c9dc5
+  const input = `${lang}\n${code}`
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(36)
+}
+
+const parentId = (id: string) => id.slice(0, id.lastIndexOf('/'))
+
+// By project root, shared by every instance in the process: the prerender
+// step's own instance reuses the tables the client build just made
+const cache = new Map<string, Promise<Record<string, Record<string, string>>>>()
+
+// Highlights every snippet in src/content with shiki at build time and serves
+// the markup through virtual modules, so the client never loads the
+// highlighter for unedited code. Each locale's table is its own chunk
+// (virtual:highlighted-snippets/ja, ...), loaded by loadHighlights().
+// Snippets marked twoslash also get a variant with the compiler's hovers,
+// queries and errors, which the page shows while the code is unedited.
+export function highlightSnippets(): Plugin {
+  let root = process.cwd()
+
+  const highlightAll = async () => {
+    const options = { root, configFile: false as const, logLevel: 'error' as const }
+    const [{ module: content }, { module: shiki }] = await Promise.all([
+      runnerImport<{ snippetsByLocale: Record<string, SnippetSource[]> }>('/src/content/index.ts', options),
+      runnerImport<{
+        highlight: (code: string, lang: string, transformers?: ShikiTransformer[]) => Promise<string>
+      }>('/src/lib/highlight.ts', options),
+    ])
+    // Snippets under one parent id are files of one project (rpc/client
+    // imports './server'), so each sees the others by their `// name.ts` header
+    const twoslashOptions = {
+      compilerOptions: { moduleResolution: ts.ModuleResolutionKind.Bundler },
+      handbookOptions: { keepNotations: true },
+      extraFiles: {} as Record<string, string>,
+    }
+    const twoslash = transformerTwoslash({ twoslashOptions })
+    const projectFiles = (snippets: SnippetSource[], id: string) =>
+      Object.fromEntries(
+        snippets
+          .filter((source) => source.snippet.twoslash && source.id !== id && parentId(source.id) === parentId(id))
+          .map(({ snippet }) => [/^\/\/ ([\w.-]+\.tsx?)/.exec(snippet.code)?.[1] ?? 'index.ts', snippet.code]),
+      )
+
+    const tables: Record<string, Record<string, string>> = {}
+    for (const [locale, snippets] of Object.entries(content.snippetsByLocale)) {
+      tables[locale] = {}
+      for (const { id, snippet } of snippets) {
+        const { code, lang } = snippet
+        // Highlighting never leaves the microtask queue; yield so other
+        // plugins' module runners are answered meanwhile
+        await new Promise(setImmediate)
+        tables[locale][snippetKey(code, lang)] = await shiki.highlight(code, lang)
+        if (!snippet.twoslash) continue
+        twoslashOptions.extraFiles = projectFiles(snippets, id)
+        tables[locale][snippetKey(code, `${lang}+twoslash`)] = await shiki.highlight(code, lang, [twoslash, markNotations])
+      }
+    }
+    return tables
+  }
+
+  const registry = (locales: string[]) =>
+    [
+      'const table = {}',
+      `const snippetKey = ${snippetKey.toString()}`,
+      'const loaders = {',
+      ...locales.map((locale) => `  ${JSON.stringify(locale)}: () => import(${JSON.stringify(`${VIRTUAL_ID}/${locale}`)}),`),
+      '}',
+      'export async function loadHighlights(locale) {',
+      '  Object.assign(table, (await loaders[locale]()).default)',
+      '}',
+      'export function prerenderedHtml(code, lang, variant) {',
+      '  return table[snippetKey(code, variant ? `${lang}+${variant}` : lang)]',
+      '}',
+    ].join('\n')
+
+  return {
+    name: 'highlight-snippets',
+    configResolved(config) {
+      root = config.root
+    },
+    resolveId(id) {
+      return id === VIRTUAL_ID || id.startsWith(`${VIRTUAL_ID}/`) ? `\0${id}` : undefined
+    },
+    async load(id) {
+      if (!id.startsWith(RESOLVED_ID)) return undefined
+      if (!cache.has(root)) cache.set(root, highlightAll())
+      const tables = await cache.get(root)!
+      if (id === RESOLVED_ID) return registry(Object.keys(tables))
+      return `export default ${JSON.stringify(tables[id.slice(RESOLVED_ID.length + 1)] ?? {})}`
+    },
+    hotUpdate({ file, server }) {
+      if (!file.includes('/src/content/') && !file.includes('/src/i18n/')) return
+      cache.delete(root)
+      for (const module of server.moduleGraph.idToModuleMap.values()) {
+        if (module.id?.startsWith(RESOLVED_ID)) server.moduleGraph.invalidateModule(module)
+      }
+    },
+  }
+}
@@ -0,0 +1,246 @@
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import ts from 'typescript'
+import { runnerImport, type Plugin } from 'vite'
+
+const VIRTUAL_ID = 'virtual:hono-package'
+const RESOLVED_ID = `\0${VIRTUAL_ID}`
+
+// Written by `pnpm bench`
+const BENCHMARKS = 'src/content/benchmarks.json'
+
+const IMPORT = /import\s+(?:type\s+)?\{([^}]*)\}\s*from\s*'(hono(?:\/[^']*)?)'/g
+
+interface SnippetSource {
+  id: string
+  snippet: { code: string }
+}
+
+interface PackageJson {
+  version: string
+  exports: Record<string, string | { types?: string }>
+}
+
+interface MiddlewareInfo {
+  name: string
+  importPath: string
+  exportName: string
+  description: string
+  docs: string | null
+}
+
+interface Deprecation {
+  name: string
+  message: string
+}
+
+interface ModuleApi {
+  exports: Set<string>
+  deprecated: Deprecation[]
+  // Deprecated methods and options of the module's classes and types
+  members: Deprecation[]
+}
+
+interface BenchmarkEnvironment {
+  environment: { hono: string }
+}
+
+interface HonoPackage {
+  version: string
+  middleware: MiddlewareInfo[]
+  problems: string[]
+}
+
+function tagText(tag: ts.JSDocTagInfo | undefined): string {
+  return ts.displayPartsToString(tag?.text).replace(/\s+/g, ' ').trim()
+}
+
+function specifierOf(key: string): string {
+  return key === '.' ? 'hono' : `hono/${key.slice(2)}`
+}
+
+interface Declarations {
+  program: ts.Program
+  checker: ts.TypeChecker
+  dir: string
+}
+
+function moduleExports({ program, checker }: Declarations, file: string) {
+  const source = program.getSourceFile(file)
+  const module = source && checker.getSymbolAtLocation(source)
+  return (module ? checker.getExportsOfModule(module) : []).map((exported) => ({
+    exported,
+    symbol: exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported,
+  }))
+}
+
+function readModule(declarations: Declarations, file: string): ModuleApi {
+  const { checker, dir } = declarations
+  const deprecation = (symbol: ts.Symbol, name = symbol.name): Deprecation | null => {
+    const tag = symbol.getJsDocTags(checker).find((tag) => tag.name === 'deprecated')
+    return tag ? { name, message: tagText(tag) } : null
+  }
+  // Only hono's own members; its types also reach lib.d.ts, which deprecates plenty
+  const own = (symbol: ts.Symbol) =>
+    symbol.declarations?.some((declaration) => declaration.getSourceFile().fileName.startsWith(dir)) ?? false
+
+  const api: ModuleApi = { exports: new Set(), deprecated: [], members: [] }
+  for (const { exported, symbol } of moduleExports(declarations, file)) {
+    api.exports.add(exported.name)
+    const deprecated = deprecation(symbol, exported.name)
+    if (deprecated) api.deprecated.push(deprecated)
+    if (!(symbol.flags & (ts.SymbolFlags.Class | ts.SymbolFlags.Interface | ts.SymbolFlags.TypeAlias))) continue
+    const type = checker.getDeclaredTypeOfSymbol(symbol)
+    for (const part of type.isUnion() ? type.types : [type]) {
+      for (const property of checker.getPropertiesOfType(part)) {
+        const member = own(property) && deprecation(property)
+        if (member && !api.members.some(({ name }) => name === member.name)) api.members.push(member)
+      }
+    }
+  }
+  return api
+}
+
+function describeMiddleware(declarations: Declarations, specifier: string, file: string): MiddlewareInfo {
+  const { checker } = declarations
+  const documented = moduleExports(declarations, file)
+    .filter(({ symbol }) => symbol.flags & ts.SymbolFlags.Value)
+    .map((entry) => ({
+      ...entry,
+      doc: ts.displayPartsToString(entry.symbol.getDocumentationComment(checker)).split('\n')[0].trim(),
+    }))
+    .filter(({ doc }) => doc)
+  // Modules that also export helpers (jwt: sign, verify) mostly name the
+  // middleware after the entry point, or at least say which one it is
+  const name = specifier.slice('hono/'.length)
+  const camelName = name.replace(/-(\w)/g, (_, letter: string) => letter.toUpperCase())
+  const main =
+    documented.find(({ exported }) => exported.name === camelName) ??
+    documented.find(({ doc }) => /middleware/i.test(doc)) ??
+    documented[0]
+  if (!main) return { name, importPath: specifier, exportName: name, description: '', docs: null }
+  const see = tagText(main.symbol.getJsDocTags(checker).find((tag) => tag.name === 'see'))
+  return {
+    name,
+    importPath: specifier,
+    exportName: main.exported.name,
+    description: main.doc,
+    docs: /https?:\/\/[^\s}]+/.exec(see)?.[0] ?? null,
+  }
+}
+
+// What the snippets get wrong against the installed version: modules and
+// names it no longer exports, and APIs its declarations mark @deprecated
+function findProblems(snippets: SnippetSource[], modules: Map<string, ModuleApi>, version: string): string[] {
+  const problems = new Set<string>()
+  for (const {
+    id,
+    snippet: { code },
+  } of snippets) {
+    const used = new Set(['hono'])
+    for (const [, names, specifier] of code.matchAll(IMPORT)) {
+      used.add(specifier)
+      const api = modules.get(specifier)
+      if (!api) {
+        problems.add(`${id}: '${specifier}' is not exported by hono ${version}`)
+        continue
+      }
+      for (const name of names.split(',').map((name) => name.replace(/^\s*type\s+/, '').split(/\s+as\s+/)[0].trim())) {
+        if (!name) continue
+        if (!api.exports.has(name)) problems.add(`${id}: '${name}' is not exported from '${specifier}' in hono ${version}`)
+        const deprecated = api.deprecated.find((entry) => entry.name === name)
+        if (deprecated) problems.add(`${id}: '${name}' from '${specifier}' is deprecated. ${deprecated.message}`)
+      }
+    }
+    for (const specifier of used) {
+      for (const { name, message } of modules.get(specifier)?.members ?? []) {
+        if (new RegExp(`\\.${name}\\b|\\b${name}\\s*:`).test(code)) {
+          problems.add(`${id}: '${name}' is deprecated. ${message}`)
+        }
+      }
+    }
+  }
+  return [...problems]
+}
+
+// Reads the installed hono package: its version, the middleware it ships
+// (every entry point under dist/middleware) and the one-line description and
+// docs link from each middleware's declarations. The page imports the result
+// from virtual:hono-package; builds also warn when a snippet imports what
+// this version no longer exports or uses what it has deprecated.
+export function honoPackage(): Plugin {
+  let root = process.cwd()
+  let command: 'build' | 'serve' = 'serve'
+  let cached: Promise<HonoPackage> | null = null
+
+  const analyze = async (): Promise<HonoPackage> => {
+    const dir = join(root, 'node_modules/hono')
+    const pkg = JSON.parse(await readFile(join(dir, 'package.json'), 'utf8')) as PackageJson
+    const { module: content } = await runnerImport<{ snippetsByLocale: Record<string, SnippetSource[]> }>(
+      '/src/content/index.ts',
+      { root, configFile: false, logLevel: 'error' },
+    )
+    // Translations only change comments, so the English snippets cover them all
+    const snippets = content.snippetsByLocale.en
+
+    const types = new Map<string, string>()
+    for (const [key, entry] of Object.entries(pkg.exports)) {
+      if (typeof entry === 'object' && entry.types && !key.includes('*')) {
+        types.set(specifierOf(key), join(dir, entry.types))
+      }
+    }
+    const imported = new Set(snippets.flatMap(({ snippet }) => [...snippet.code.matchAll(IMPORT)].map((match) => match[2])))
+    const middleware = [...types].filter(([, file]) => file.includes('/types/middleware/'))
+    const entries = new Map([...types].filter(([specifier]) => specifier === 'hono' || imported.has(specifier)))
+    for (const [specifier, file] of middleware) entries.set(specifier, file)
+
+    const program = ts.createProgram([...entries.values()], {
+      noEmit: true,
+      skipLibCheck: true,
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+    })
+    const declarations = { program, checker: program.getTypeChecker(), dir }
+    const modules = new Map([...entries].map(([specifier, file]) => [specifier, readModule(declarations, file)]))
+    return {
+      version: pkg.version,
+      middleware: middleware.map(([specifier, file]) => describeMiddleware(declarations, specifier, file)),
+      problems: findProblems(snippets, modules, pkg.version),
+    }
+  }
+
+  return {
+    name: 'hono-package',
+    configResolved(config) {
+      root = config.root
+      command = config.command
+    },
+    async buildStart() {
+      if (command !== 'build') return
+      cached ??= analyze()
+      const { problems } = await cached
+      if (problems.length > 0) {
+        this.warn(`${problems.length} snippet problems against the installed hono:\n  ${problems.join('\n  ')}`)
+      }
+      // The page quotes the benchmarks next to the installed version, so
+      // numbers measured against another one fail the build
+      const { version } = await cached
+      const { environment } = JSON.parse(await readFile(join(root, BENCHMARKS), 'utf8')) as BenchmarkEnvironment
+      if (environment.hono !== version) {
+        this.error(`${BENCHMARKS} was measured with hono ${environment.hono} but ${version} is installed; run \`pnpm bench\``)
+      }
+    },
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : undefined
+    },
+    async load(id) {
+      if (id !== RESOLVED_ID) return undefined
+      cached ??= analyze()
+      const { version, middleware } = await cached
+      return [`export const version = ${JSON.stringify(version)}`, `export const middleware = ${JSON.stringify(middleware)}`].join(
+        '\n',
+      )
+    },
+  }
+}
@@ -0,0 +1,26 @@
+import { runnerImport, type Plugin } from 'vite'
+
+// Lists the message, content and snippet-comment keys a locale has no
+// translation for. Untranslated text falls back to English, so this warns
+// instead of failing the build.
+export function i18nCheck(): Plugin {
+  let root = process.cwd()
+
+  return {
+    name: 'i18n-check',
+    apply: 'build',
+    configResolved(config) {
+      root = config.root
+    },
+    async buildStart() {
+      const { module } = await runnerImport<{ missingTranslations: () => Record<string, string[]> }>(
+        '/src/i18n/check.ts',
+        { root, configFile: false, logLevel: 'error' },
+      )
+      for (const [locale, missing] of Object.entries(module.missingTranslations())) {
+        if (missing.length === 0) continue
+        this.warn(`${missing.length} untranslated keys in '${locale}':\n  ${missing.join('\n  ')}`)
+      }
+    },
+  }
+}
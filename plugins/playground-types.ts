@@ -0,0 +1,114 @@
+import { readFileSync } from 'node:fs'
+import { basename, join } from 'node:path'
+import ts from 'typescript'
+import { runnerImport, type Plugin } from 'vite'
+
+const VIRTUAL_ID = 'virtual:playground-types'
+const RESOLVED_ID = `\0${VIRTUAL_ID}`
+
+const IMPORT = /from\s*'([^'./@][^']*|@[^'/]+\/[^']+)'/g
+
+// The fields module resolution reads; the rest of package.json is dead weight
+const PACKAGE_FIELDS = ['name', 'version', 'type', 'types', 'typings', 'exports', 'typesVersions']
+
+interface PlaygroundFile {
+  snippet: { code: string }
+}
+
+// Must match the compiler options of src/playground/worker.ts. The web
+// worker lib has fetch, Request and Response at a third of lib.dom's size.
+const compilerOptions: ts.CompilerOptions = {
+  strict: true,
+  noEmit: true,
+  target: ts.ScriptTarget.ES2022,
+  lib: ['lib.es2023.d.ts', 'lib.webworker.d.ts', 'lib.webworker.iterable.d.ts'],
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  types: [],
+}
+
+// Where the browser's file system keeps a declaration file: libs at the
+// root, as TypeScript looks them up, and package files under
+// /node_modules/<name>, without pnpm's store in between
+function virtualPath(file: string): string {
+  if (file.includes('/typescript/lib/')) return `/${basename(file)}`
+  return file.slice(file.lastIndexOf('/node_modules/'))
+}
+
+function packageDir(file: string): string {
+  const start = file.lastIndexOf('/node_modules/') + '/node_modules/'.length
+  const [scope, name] = file.slice(start).split('/')
+  return file.slice(0, start) + (scope.startsWith('@') ? `${scope}/${name}` : scope)
+}
+
+// Collects the declarations the RPC playground compiles against: the libs
+// and every .d.ts the packages its files import reach, with their trimmed
+// package.json files. Served as virtual:playground-types, a map from path to
+// text that only the playground's worker imports. Imports the starting files
+// do not have will not resolve in the browser.
+export function playgroundTypes(): Plugin {
+  let root = process.cwd()
+  let cached: Promise<Record<string, string>> | null = null
+
+  const collect = async (): Promise<Record<string, string>> => {
+    const { module: content } = await runnerImport<{ playgroundFiles: Record<string, PlaygroundFile[]> }>(
+      '/src/content/playground.ts',
+      { root, configFile: false, logLevel: 'error' },
+    )
+    const specifiers = new Set(
+      Object.values(content.playgroundFiles)
+        .flat()
+        .flatMap(({ snippet }) => [...snippet.code.matchAll(IMPORT)].map((match) => match[1])),
+    )
+    const entry = join(root, '.playground/entry.ts')
+    const source = [...specifiers].map((specifier) => `import '${specifier}'`).join('\n')
+    const host = ts.createCompilerHost(compilerOptions)
+    const { fileExists, readFile, getSourceFile } = host
+    host.fileExists = (name) => name === entry || fileExists(name)
+    host.readFile = (name) => (name === entry ? source : readFile(name))
+    host.getSourceFile = (name, version, ...rest) =>
+      name === entry ? ts.createSourceFile(name, source, version) : getSourceFile(name, version, ...rest)
+
+    const program = ts.createProgram([entry], compilerOptions, host)
+    const missing = ts.getPreEmitDiagnostics(program).filter((diagnostic) => diagnostic.file?.fileName === entry)
+    if (missing.length > 0) {
+      throw new Error(
+        `Playground imports do not resolve: ${missing.map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, ' ')).join('; ')}`,
+      )
+    }
+    const files: Record<string, string> = {}
+    const packages = new Set<string>()
+    for (const file of program.getSourceFiles()) {
+      if (file.fileName === entry) continue
+      files[virtualPath(file.fileName)] = file.text
+      if (!file.fileName.includes('/typescript/lib/')) packages.add(packageDir(file.fileName))
+    }
+    for (const dir of packages) {
+      const pkg = JSON.parse(readFileSync(join(dir, 'package.json'), 'utf8')) as Record<string, unknown>
+      const trimmed = Object.fromEntries(PACKAGE_FIELDS.filter((field) => field in pkg).map((field) => [field, pkg[field]]))
+      files[virtualPath(join(dir, 'package.json'))] = JSON.stringify(trimmed)
+    }
+    return files
+  }
+
+  return {
+    name: 'playground-types',
+    configResolved(config) {
+      root = config.root
+    },
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : undefined
+    },
+    async load(id) {
+      if (id !== RESOLVED_ID) return undefined
+      cached ??= collect()
+      return `export default ${JSON.stringify(await cached)}`
+    },
+    hotUpdate({ file, server }) {
+      if (!file.endsWith('/src/content/playground.ts')) return
+      cached = null
+      const module = server.moduleGraph.getModuleById(RESOLVED_ID)
+      if (module) server.moduleGraph.invalidateModule(module)
+    },
+  }
+}
@@ -0,0 +1,57 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { runnerImport, type Plugin } from 'vite'
+import { highlightSnippets } from './highlight-snippets'
+import { honoPackage } from './hono-package'
+import { searchIndex } from './search-index'
+
+const ROOT_ELEMENT = '<div id="root"></div>'
+
+interface ServerEntry {
+  localeIds: string[]
+  localePath: (locale: string, base: string) => string
+  render: (locale: string) => { html: string; lang: string; title: string }
+}
+
+// Renders the app to a string after the client build, once per locale, and
+// writes each into a copy of dist/index.html (dist/ja/index.html, ...), so
+// the page reads before any script has run
+export function prerender(): Plugin {
+  let root = process.cwd()
+  let outDir = 'dist'
+
+  return {
+    name: 'prerender',
+    apply: 'build',
+    configResolved(config) {
+      root = config.root
+      outDir = config.build.outDir
+    },
+    async closeBundle(error) {
+      // Leave a failed build's error as the one reported
+      if (error) return
+      const { module } = await runnerImport<ServerEntry>('/src/entry-server.tsx', {
+        root,
+        configFile: false,
+        logLevel: 'error',
+        plugins: [highlightSnippets(), honoPackage(), searchIndex()],
+      })
+      const template = await readFile(join(root, outDir, 'index.html'), 'utf8')
+      if (!template.includes(ROOT_ELEMENT)) {
+        this.error(`index.html has no empty ${ROOT_ELEMENT} to prerender into`)
+      }
+      for (const locale of module.localeIds) {
+        const { html, lang, title } = module.render(locale)
+        const dir = join(root, outDir, module.localePath(locale, ''))
+        await mkdir(dir, { recursive: true })
+        await writeFile(
+          join(dir, 'index.html'),
+          template
+            .replace(/<html lang="[^"]*">/, `<html lang="${lang}">`)
+            .replace(/<title>.*<\/title>/, `<title>${title}</title>`)
+            .replace(ROOT_ELEMENT, `<div id="root">${html}</div>`),
+        )
+      }
+    },
+  }
+}
@@ -0,0 +1,53 @@
+import { runnerImport, type Plugin } from 'vite'
+
+const VIRTUAL_ID = 'virtual:search-index'
+const RESOLVED_ID = `\0${VIRTUAL_ID}`
+
+// Serves the command palette's index (src/content/search.ts), computed once
+// at build time. Like the highlighted snippets, each locale is its own chunk
+// (virtual:search-index/ja, ...), which loadSearchIndex() fetches the first
+// time the palette opens, so search works on the static site with no server.
+export function searchIndex(): Plugin {
+  let root = process.cwd()
+  let cached: Promise<Record<string, unknown[]>> | null = null
+
+  const buildIndex = async () => {
+    const options = { root, configFile: false as const, logLevel: 'error' as const }
+    const { module } = await runnerImport<{ searchIndexByLocale: Record<string, unknown[]> }>('/src/content/search.ts', options)
+    return module.searchIndexByLocale
+  }
+
+  const registry = (locales: string[]) =>
+    [
+      'const loaders = {',
+      ...locales.map((locale) => `  ${JSON.stringify(locale)}: () => import(${JSON.stringify(`${VIRTUAL_ID}/${locale}`)}),`),
+      '}',
+      'export async function loadSearchIndex(locale) {',
+      '  return (await loaders[locale]()).default',
+      '}',
+    ].join('\n')
+
+  return {
+    name: 'search-index',
+    configResolved(config) {
+      root = config.root
+    },
+    resolveId(id) {
+      return id === VIRTUAL_ID || id.startsWith(`${VIRTUAL_ID}/`) ? `\0${id}` : undefined
+    },
+    async load(id) {
+      if (!id.startsWith(RESOLVED_ID)) return undefined
+      cached ??= buildIndex()
+      const indexes = await cached
+      if (id === RESOLVED_ID) return registry(Object.keys(indexes))
+      return `export default ${JSON.stringify(indexes[id.slice(RESOLVED_ID.length + 1)] ?? [])}`
+    },
+    hotUpdate({ file, server }) {
+      if (!file.includes('/src/content/') && !file.includes('/src/i18n/')) return
+      cached = null
+      for (const module of server.moduleGraph.idToModuleMap.values()) {
+        if (module.id?.startsWith(RESOLVED_ID)) server.moduleGraph.invalidateModule(module)
+      }
+    },
+  }
+}
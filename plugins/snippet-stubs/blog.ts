@@ -0,0 +1,4 @@
+import { Hono } from 'hono'
+
+// Stands in for `./blog`, which the routing topic mounts as a sub-app
+export const blogApp = new Hono()
@@ -0,0 +1,46 @@
+import type { Handler, MiddlewareHandler } from 'hono'
+import type { handle as vercelHandle } from 'hono/vercel'
+import type * as nextServer from 'next/server'
+
+// What the snippets call but never define, declared so each snippet
+// type-checks on its own. The sandbox's runtime stand-ins are in
+// src/sandbox/fakes.ts.
+
+interface User {
+  id: string
+  name: string
+}
+
+interface Post {
+  id: string
+  title: string
+}
+
+declare global {
+  // Imports the snippets leave out to stay short
+  type NextRequest = nextServer.NextRequest
+  const NextRequest: typeof nextServer.NextRequest
+  type NextResponse<Body = unknown> = nextServer.NextResponse<Body>
+  const NextResponse: typeof nextServer.NextResponse
+  const handle: typeof vercelHandle
+
+  // Data layer
+  function fetchUsers(): Promise<User[]>
+  function fetchPosts(): Promise<Post[]>
+  function getUser(id: string): Promise<User | null>
+  function verifyToken(token: string): string
+
+  // Route handlers of the routing topic; its getUser is a handler too
+  function getUser(c: Parameters<Handler>[0]): Response
+  const listUsers: Handler
+  const createUser: Handler
+  const updateUser: Handler
+  const deleteUser: Handler
+  const getProfile: Handler
+  const updateProfile: Handler
+  const authMiddleware: MiddlewareHandler
+
+  // Test runner globals, as Vitest and Jest provide them
+  function test(name: string, body: () => void | Promise<void>): void
+  function expect(actual: unknown): { toBe(expected: unknown): void; toEqual(expected: unknown): void }
+}
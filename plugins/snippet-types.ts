@@ -0,0 +1,165 @@
+import { existsSync } from 'node:fs'
+import { basename, dirname, join, relative } from 'node:path'
+import ts from 'typescript'
+import { runnerImport, type Plugin } from 'vite'
+
+interface Snippet {
+  code: string
+  typecheck?: false
+}
+
+interface VirtualFile {
+  path: string
+  code: string
+  line: number
+}
+
+// Where a compiled file came from, to report errors in snippet lines
+interface Origin {
+  id: string
+  path: string | null
+  line: number
+  // Codes a `// @errors: 2353` line says the file shows on purpose
+  expected: number[]
+}
+
+const EXTENSIONS = ['.ts', '.tsx', '/index.ts']
+const EXPORT = /export\s+(?:async\s+)?(?:function|const|class)\s+(\w+)/g
+const EXPECTED_ERRORS = /^\s*\/\/\s*@errors:\s*([\d\s]+)$/gm
+
+function expectedErrors(code: string): number[] {
+  return [...code.matchAll(EXPECTED_ERRORS)].flatMap((match) => match[1].trim().split(/\s+/).map(Number))
+}
+
+const compilerOptions: ts.CompilerOptions = {
+  strict: true,
+  noEmit: true,
+  skipLibCheck: true,
+  target: ts.ScriptTarget.ES2022,
+  lib: ['lib.es2023.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  // Snippet files without imports would otherwise share one global scope
+  moduleDetection: ts.ModuleDetectionKind.Force,
+  types: [],
+}
+
+// Later files of a snippet use what earlier ones export without importing
+// it, as the sandbox allows. Put the import on the file's `// path.ts`
+// header line, which keeps every other line where it was.
+function addElidedImports(files: VirtualFile[]): VirtualFile[] {
+  return files.map((file, index) => {
+    const imports = files.slice(0, index).flatMap((earlier) => {
+      const names = [...earlier.code.matchAll(EXPORT)]
+        .map((match) => match[1])
+        .filter(
+          (name) =>
+            new RegExp(`\\b${name}\\b`).test(file.code) &&
+            !new RegExp(`(?:import\\s*(?:type\\s*)?\\{[^}]*|function|const|let|var|class)\\s*\\b${name}\\b`).test(file.code),
+        )
+      return names.length > 0 ? [`import { ${names.join(', ')} } from '@/${earlier.path.replace(/\.tsx?$/, '')}';`] : []
+    })
+    if (imports.length === 0) return file
+    const [, ...rest] = file.code.split('\n')
+    return { ...file, code: [imports.join(' '), ...rest].join('\n') }
+  })
+}
+
+// Compiles every snippet on the page, except those marked typecheck: false,
+// against the installed framework and zod types, allowing the errors a
+// twoslash `// @errors:` line expects. Snippets are laid out
+// under .snippets/ by block id: one without `// path.ts` headers is the file
+// <id>.ts (so rpc/client can import './server'), one with headers becomes a
+// directory of those files, with `@/` mapped to it. What the snippets call
+// but never define is declared in plugins/snippet-stubs. Returns one line
+// per error.
+export async function checkSnippets(root: string): Promise<string[]> {
+  const options = { root, configFile: false as const, logLevel: 'error' as const }
+  const [{ module: content }, { module: sandbox }] = await Promise.all([
+    runnerImport<{ snippetsByLocale: Record<string, { id: string; snippet: Snippet }[]> }>('/src/content/index.ts', options),
+    runnerImport<{ readVirtualFiles: (code: string) => VirtualFile[] }>('/src/sandbox/nextjs.ts', options),
+  ])
+  const base = join(root, '.snippets')
+  const stubs = join(root, 'plugins/snippet-stubs')
+  const files = new Map<string, string>()
+  const origins = new Map<string, Origin>()
+
+  // Translations only change comments
+  for (const { id, snippet } of content.snippetsByLocale.en) {
+    if (snippet.typecheck === false) continue
+    const virtual = sandbox.readVirtualFiles(snippet.code)
+    if (virtual.length === 0) {
+      files.set(join(base, `${id}.ts`), snippet.code)
+      origins.set(join(base, `${id}.ts`), { id, path: null, line: 1, expected: expectedErrors(snippet.code) })
+      continue
+    }
+    // A tree snippet shares one body between all its route files
+    const unique = virtual.filter((file, index) => virtual.findIndex(({ code }) => code === file.code) === index)
+    for (const file of addElidedImports(unique)) {
+      files.set(join(base, id, file.path), file.code)
+      origins.set(join(base, id, file.path), { id, path: file.path, line: file.line, expected: expectedErrors(file.code) })
+    }
+  }
+
+  const host = ts.createCompilerHost(compilerOptions)
+  const { fileExists, readFile, getSourceFile } = host
+  host.fileExists = (name) => files.has(name) || fileExists(name)
+  host.readFile = (name) => files.get(name) ?? readFile(name)
+  host.getSourceFile = (name, version, ...rest) => {
+    const code = files.get(name)
+    return code === undefined ? getSourceFile(name, version, ...rest) : ts.createSourceFile(name, code, version)
+  }
+  const virtualModule = (path: string): ts.ResolvedModuleFull | undefined => {
+    const resolved = ['', ...EXTENSIONS].map((extension) => path + extension).find((name) => files.has(name))
+    return resolved ? { resolvedFileName: resolved, extension: ts.Extension.Ts } : undefined
+  }
+  host.resolveModuleNames = (names, containingFile) =>
+    names.map((name) => {
+      const origin = origins.get(containingFile)
+      if (origin && name.startsWith('@/')) return virtualModule(join(base, origin.id, name.slice(2)))
+      if (origin && name.startsWith('.')) {
+        const stub = join(stubs, `${basename(name)}.ts`)
+        return (
+          virtualModule(join(dirname(containingFile), name)) ??
+          (existsSync(stub) ? { resolvedFileName: stub, extension: ts.Extension.Ts } : undefined)
+        )
+      }
+      return ts.resolveModuleName(name, containingFile, compilerOptions, host).resolvedModule
+    })
+
+  const program = ts.createProgram([...files.keys(), join(stubs, 'placeholders.d.ts')], compilerOptions, host)
+  const expected = (diagnostic: ts.Diagnostic) =>
+    diagnostic.file !== undefined && (origins.get(diagnostic.file.fileName)?.expected.includes(diagnostic.code) ?? false)
+  return ts
+    .getPreEmitDiagnostics(program)
+    .filter((diagnostic) => !expected(diagnostic))
+    .map((diagnostic) => {
+      const message = `TS${diagnostic.code}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n    ')}`
+      if (!diagnostic.file || diagnostic.start === undefined) return message
+      const { line } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+      const origin = origins.get(diagnostic.file.fileName)
+      if (!origin) return `${relative(root, diagnostic.file.fileName)}:${line + 1} ${message}`
+      return `${origin.id}${origin.path ? ` (${origin.path})` : ''} line ${origin.line + line}: ${message}`
+    })
+}
+
+// Fails the build when a snippet on the page does not compile
+export function snippetTypes(): Plugin {
+  let root = process.cwd()
+
+  return {
+    name: 'snippet-types',
+    apply: 'build',
+    configResolved(config) {
+      root = config.root
+    },
+    async buildStart() {
+      const errors = await checkSnippets(root)
+      if (errors.length > 0) {
+        this.error(
+          `${errors.length} type errors in snippets (mark deliberately broken ones typecheck: false):\n  ${errors.join('\n  ')}`,
+        )
+      }
+    },
+  }
+}
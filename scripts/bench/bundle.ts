@@ -0,0 +1,61 @@
+import { gzipSync } from 'node:zlib'
+import { build, type Rollup } from 'vite'
+import type { BundleResult } from '../../src/content/benchmarks'
+import type { BenchRoute } from './routes'
+
+const ENTRY = 'virtual:bench-entry'
+
+// Minimal apps per entry point; the catch-all is the File Structure topic's
+// route.ts with its six routes
+function entries(routes: BenchRoute[]): Record<string, string> {
+  const registrations = routes
+    .map(({ method, path }) => `app.${method.toLowerCase()}(${JSON.stringify(path)}, (c) => c.text('ok'))`)
+    .join('\n')
+  return {
+    hono: `import { Hono } from 'hono'\nexport default new Hono().get('/', (c) => c.text('ok'))`,
+    'hono/tiny': `import { Hono } from 'hono/tiny'\nexport default new Hono().get('/', (c) => c.text('ok'))`,
+    'catch-all route.ts': [
+      `import { Hono } from 'hono'`,
+      `import { handle } from 'hono/vercel'`,
+      `const app = new Hono()`,
+      registrations,
+      `export const GET = handle(app)`,
+      `export const POST = handle(app)`,
+    ].join('\n'),
+  }
+}
+
+async function bundle(code: string): Promise<{ bytes: number; gzip: number }> {
+  const result = (await build({
+    configFile: false,
+    logLevel: 'silent',
+    plugins: [
+      {
+        name: 'bench-entry',
+        resolveId: (id) => (id === ENTRY ? `\0${ENTRY}` : undefined),
+        load: (id) => (id === `\0${ENTRY}` ? code : undefined),
+      },
+    ],
+    build: {
+      write: false,
+      minify: true,
+      modulePreload: false,
+      rollupOptions: { input: ENTRY, preserveEntrySignatures: 'strict' },
+    },
+  })) as Rollup.RollupOutput | Rollup.RollupOutput[]
+  const chunks = (Array.isArray(result) ? result : [result])
+    .flatMap(({ output }) => output)
+    .filter((output): output is Rollup.OutputChunk => output.type === 'chunk')
+  return {
+    bytes: chunks.reduce((total, chunk) => total + Buffer.byteLength(chunk.code), 0),
+    gzip: chunks.reduce((total, chunk) => total + gzipSync(chunk.code).length, 0),
+  }
+}
+
+export async function bundleSizes(routes: BenchRoute[]): Promise<BundleResult[]> {
+  const results: BundleResult[] = []
+  for (const [entry, code] of Object.entries(entries(routes))) {
+    results.push({ entry, ...(await bundle(code)) })
+  }
+  return results
+}
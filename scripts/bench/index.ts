@@ -0,0 +1,75 @@
+import { readFile, writeFile } from 'node:fs/promises'
+import { cpus, platform, arch } from 'node:os'
+import { SITE_TABLE, type BenchmarkResults, type ColdStartResult, type RouteTableResult } from '../../src/content/benchmarks'
+import { bundleSizes } from './bundle'
+import { coldStart, throughput, type MeasureConfig } from './measure'
+import { honoHandler, nextjsHandler } from './routing'
+import { samplePath, siteRoutes, syntheticRoutes, type RouteTable } from './routes'
+
+// Measures routing throughput, cold start and bundle sizes, and writes
+// src/content/benchmarks.json, which the page renders. Run with `pnpm bench`.
+
+const OUTPUT = 'src/content/benchmarks.json'
+const SYNTHETIC_SIZES = [50, 200]
+const config: MeasureConfig = { sampleMs: 500, samples: 5, coldStartRuns: 30 }
+
+const tables: RouteTable[] = [
+  { name: SITE_TABLE, routes: siteRoutes() },
+  ...SYNTHETIC_SIZES.map((size) => ({ name: `synthetic-${size}`, routes: syntheticRoutes(size) })),
+]
+
+// Cycles through one request per route, so every route is hit equally
+function requests(table: RouteTable): () => Request {
+  const urls = table.routes.map(({ method, path }) => [method, `http://localhost${samplePath(path)}`] as const)
+  let index = 0
+  return () => {
+    const [method, url] = urls[index++ % urls.length]
+    return new Request(url, { method })
+  }
+}
+
+const throughputResults: RouteTableResult[] = []
+const coldStartResults: ColdStartResult[] = []
+for (const table of tables) {
+  console.log(`${table.name} (${table.routes.length} routes)`)
+  const hono = honoHandler(table.routes)
+  const nextjs = nextjsHandler(table.routes)
+  const next = requests(table)
+  const result = {
+    table: table.name,
+    routes: table.routes.length,
+    hono: await throughput(() => hono(next()), config),
+    nextjs: await throughput(() => nextjs(next()), config),
+  }
+  throughputResults.push(result)
+  console.log(`  throughput  hono ${Math.round(result.hono)}/s  nextjs ${Math.round(result.nextjs)}/s`)
+
+  const cold = {
+    table: table.name,
+    routes: table.routes.length,
+    hono: await coldStart(() => honoHandler(table.routes), next, config),
+    nextjs: await coldStart(() => nextjsHandler(table.routes), next, config),
+  }
+  coldStartResults.push(cold)
+  console.log(`  cold start  hono ${cold.hono.toFixed(3)} ms  nextjs ${cold.nextjs.toFixed(3)} ms`)
+}
+
+const bundles = await bundleSizes(siteRoutes())
+for (const { entry, bytes, gzip } of bundles) console.log(`bundle ${entry}: ${bytes} B (gzip ${gzip} B)`)
+
+const honoPackage = JSON.parse(await readFile('node_modules/hono/package.json', 'utf8')) as { version: string }
+const results: BenchmarkResults = {
+  generatedAt: new Date().toISOString(),
+  environment: {
+    node: process.version,
+    platform: `${platform()} ${arch()}`,
+    cpu: cpus()[0]?.model.trim() ?? 'unknown',
+    hono: honoPackage.version,
+  },
+  config: { ...config, syntheticSizes: SYNTHETIC_SIZES },
+  throughput: throughputResults,
+  coldStart: coldStartResults,
+  bundles,
+}
+await writeFile(OUTPUT, `${JSON.stringify(results, null, 2)}\n`)
+console.log(`wrote ${OUTPUT}`)
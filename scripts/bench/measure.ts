@@ -0,0 +1,51 @@
+import { performance } from 'node:perf_hooks'
+
+export interface MeasureConfig {
+  sampleMs: number
+  samples: number
+  coldStartRuns: number
+}
+
+const BATCH = 100
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+async function sample(run: () => Promise<unknown>, durationMs: number): Promise<number> {
+  let ops = 0
+  const start = performance.now()
+  let elapsed = 0
+  while (elapsed < durationMs) {
+    for (let i = 0; i < BATCH; i++) await run()
+    ops += BATCH
+    elapsed = performance.now() - start
+  }
+  return (ops * 1000) / elapsed
+}
+
+// Operations per second: one warm-up sample, then the median of the rest
+export async function throughput(run: () => Promise<unknown>, config: MeasureConfig): Promise<number> {
+  await sample(run, config.sampleMs)
+  const rates: number[] = []
+  for (let i = 0; i < config.samples; i++) rates.push(await sample(run, config.sampleMs))
+  return median(rates)
+}
+
+// Milliseconds from creating a handler to its first response, median of fresh instances
+export async function coldStart(
+  create: () => (request: Request) => Promise<Response>,
+  request: () => Request,
+  config: MeasureConfig,
+): Promise<number> {
+  const times: number[] = []
+  for (let i = 0; i < config.coldStartRuns; i++) {
+    const start = performance.now()
+    const response = await create()(request())
+    await response.arrayBuffer()
+    times.push(performance.now() - start)
+  }
+  return median(times)
+}
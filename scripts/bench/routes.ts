@@ -0,0 +1,44 @@
+import { structureTopic } from '../../src/content/topics/structure'
+
+export interface BenchRoute {
+  method: string
+  // Hono pattern, e.g. /api/posts/:id
+  path: string
+}
+
+export interface RouteTable {
+  name: string
+  routes: BenchRoute[]
+}
+
+const ANNOTATION = /← (GET|POST|PUT|PATCH|DELETE) (\/\S+)/g
+
+// The six endpoints of the File Structure topic, read from its file tree
+export function siteRoutes(): BenchRoute[] {
+  const tree = structureTopic.sides.nextjs.blocks[0].code
+  return [...tree.matchAll(ANNOTATION)].map(([, method, path]) => ({ method, path }))
+}
+
+// `count` routes over count/4 resources, each with a list, an item, a nested
+// list and a nested item route, so half the table has dynamic segments
+export function syntheticRoutes(count: number): BenchRoute[] {
+  return Array.from({ length: Math.ceil(count / 4) }, (_, i) => [
+    `/api/resource${i}`,
+    `/api/resource${i}/:id`,
+    `/api/resource${i}/:id/items`,
+    `/api/resource${i}/:id/items/:itemId`,
+  ])
+    .flat()
+    .slice(0, count)
+    .map((path) => ({ method: 'GET', path }))
+}
+
+// The App Router file serving a route: /api/posts/:id → app/api/posts/[id]/route.ts
+export function routeFile(path: string): string {
+  return `app${path.replace(/:(\w+)/g, '[$1]')}/route.ts`
+}
+
+// A URL that hits the route, with every parameter filled in
+export function samplePath(path: string): string {
+  return path.replace(/:\w+/g, '42')
+}
@@ -0,0 +1,26 @@
+import { Hono } from 'hono'
+import { createDispatcher } from '../../src/sandbox/nextjs'
+import { routeFile, type BenchRoute } from './routes'
+
+type Handler = (request: Request) => Promise<Response>
+
+export function honoHandler(routes: BenchRoute[]): Handler {
+  const app = new Hono()
+  for (const { method, path } of routes) app.on(method, path, (c) => c.text('ok'))
+  return async (request) => app.fetch(request)
+}
+
+// One route.ts per path exporting a function per method, dispatched by the
+// sandbox's App Router emulation without its debug headers
+export function nextjsHandler(routes: BenchRoute[]): Handler {
+  const files = new Map<string, Record<string, unknown>>()
+  for (const { method, path } of routes) {
+    const exports = files.get(routeFile(path)) ?? {}
+    exports[method] = () => new Response('ok')
+    files.set(routeFile(path), exports)
+  }
+  return createDispatcher(
+    [...files].map(([file, exports]) => ({ file, exports })),
+    { debugHeaders: false },
+  )
+}
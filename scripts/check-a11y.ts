@@ -0,0 +1,46 @@
+import axe from 'axe-core'
+import { JSDOM } from 'jsdom'
+import { runnerImport } from 'vite'
+import { highlightSnippets } from '../plugins/highlight-snippets'
+import { honoPackage } from '../plugins/hono-package'
+import { searchIndex } from '../plugins/search-index'
+
+// What evaluating axe.source defines on the jsdom window
+declare global {
+  interface Window {
+    axe: typeof axe
+  }
+}
+
+interface ServerEntry {
+  localeIds: string[]
+  render: (locale: string) => { html: string; lang: string; title: string }
+}
+
+// Runs axe over the prerendered page of each locale. jsdom lays nothing out,
+// so colour contrast is left to the browser's own tools.
+const { module } = await runnerImport<ServerEntry>('/src/entry-server.tsx', {
+  root: process.cwd(),
+  configFile: false,
+  logLevel: 'error',
+  plugins: [highlightSnippets(), honoPackage(), searchIndex()],
+})
+
+let violations = 0
+for (const locale of module.localeIds) {
+  const { html, lang, title } = module.render(locale)
+  const { window } = new JSDOM(
+    `<!doctype html><html lang="${lang}"><head><title>${title}</title></head><body><div id="root">${html}</div></body></html>`,
+    { runScripts: 'outside-only', pretendToBeVisual: true },
+  )
+  window.eval(axe.source)
+  const results = await window.axe.run(window.document, { rules: { 'color-contrast': { enabled: false } } })
+  for (const violation of results.violations) {
+    console.error(`${locale}: ${violation.id} (${violation.impact}) ${violation.help}`)
+    for (const node of violation.nodes) console.error(`  ${node.target.join(' ')}`)
+  }
+  violations += results.violations.length
+  window.close()
+}
+console.log(violations === 0 ? 'No accessibility violations' : `${violations} accessibility violations`)
+process.exitCode = violations === 0 ? 0 : 1
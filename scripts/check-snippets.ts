@@ -0,0 +1,7 @@
+import { checkSnippets } from '../plugins/snippet-types'
+
+// The build runs the same check; this prints it without building
+const errors = await checkSnippets(process.cwd())
+for (const error of errors) console.error(error)
+console.log(errors.length === 0 ? 'All snippets type-check' : `${errors.length} type errors in snippets`)
+process.exitCode = errors.length === 0 ? 0 : 1
@@ -0,0 +1,41 @@
+import { mkdir, readFile, readdir, writeFile } from 'node:fs/promises'
+import { dirname, join, relative } from 'node:path'
+import { parseArgs } from 'node:util'
+import { format } from '../src/i18n/format'
+import { en, type MessageKey } from '../src/i18n/messages/en'
+import { convertRoutes } from '../src/migrate'
+import { isRouteFile } from '../src/migrate/paths'
+
+// The migration assistant for a project on disk: reads every app/**/route.ts
+// below the given directory, prints the Hono catch-all (or writes it with
+// --out) and reports on stderr what it could not convert.
+//   pnpm migrate ../my-app --out ../my-app/app/api/[[...route]]/route.ts
+
+const { values, positionals } = parseArgs({
+  args: process.argv.slice(3),
+  allowPositionals: true,
+  options: { out: { type: 'string' } },
+})
+const [dir = '.'] = positionals
+
+const paths = (await readdir(dir, { recursive: true }))
+  .map((path) => path.replace(/\\/g, '/'))
+  .filter(isRouteFile)
+  .sort()
+const sources = await Promise.all(paths.map(async (path) => ({ path, code: await readFile(join(dir, path), 'utf8') })))
+const result = convertRoutes(sources)
+
+// The page's English report; the translator itself needs Vite's import.meta.env
+const t = (key: MessageKey, params: Record<string, string | number> = {}) => format(en[key], params)
+
+for (const note of result.notes) console.error(`- ${t(`migrate.note.${note.kind}`, { ...note })}`)
+if (!result.code) {
+  console.error(t('migrate.empty'))
+  process.exitCode = 1
+} else if (values.out) {
+  await mkdir(dirname(values.out), { recursive: true })
+  await writeFile(values.out, result.code)
+  console.error(`${result.routes.length} routes → ${relative(process.cwd(), values.out)}`)
+} else {
+  process.stdout.write(result.code)
+}
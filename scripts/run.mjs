@@ -0,0 +1,12 @@
+// Runs a TypeScript script through Vite's module runner, so scripts can import
+// from src/ the way the app does: node scripts/run.mjs scripts/bench/index.ts
+// The script does its work at the top level; the runner closes once the
+// import settles.
+import { runnerImport } from 'vite'
+
+const [file] = process.argv.slice(2)
+if (!file) {
+  console.error('usage: node scripts/run.mjs <script.ts>')
+  process.exit(1)
+}
+await runnerImport(`/${file}`, { root: process.cwd(), configFile: false, logLevel: 'error' })
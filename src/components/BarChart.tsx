@@ -0,0 +1,38 @@
+export interface Bar {
+  label: string
+  value: number
+  display: string
+  // Tailwind background class, e.g. bg-type
+  color: string
+}
+
+export interface BarGroup {
+  label: string
+  bars: Bar[]
+}
+
+// Horizontal bars scaled to the largest value across all groups
+export function BarChart({ title, groups }: { title: string; groups: BarGroup[] }) {
+  const max = Math.max(...groups.flatMap((group) => group.bars.map((bar) => bar.value)), 1)
+  return (
+    <figure className="rounded-lg p-4 bg-panel border border-edge text-xs font-mono">
+      <figcaption className="text-fg mb-3">{title}</figcaption>
+      <div className="space-y-3">
+        {groups.map((group) => (
+          <div key={group.label}>
+            <div className="text-muted mb-1">{group.label}</div>
+            {group.bars.map((bar) => (
+              <div key={bar.label} className="flex items-center gap-2 mb-1">
+                <span className="w-40 shrink-0 truncate text-muted">{bar.label}</span>
+                <div className="flex-1 h-3 rounded bg-editor">
+                  <div className={`h-3 rounded ${bar.color}`} style={{ width: `${(bar.value / max) * 100}%` }} />
+                </div>
+                <span className="w-20 shrink-0 text-right text-fg">{bar.display}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </figure>
+  )
+}
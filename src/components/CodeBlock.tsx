@@ -1,35 +1,253 @@
-import { useEffect, useState } from 'react'
-import { codeToHtml } from 'shiki'
+import { useEffect, useRef, useState, type KeyboardEvent, type MouseEvent, type ReactNode, type Ref } from 'react'
+import { prerenderedHtml } from 'virtual:highlighted-snippets'
+import type { Region } from '../content/mappings'
+import type { LineRange } from '../content/types'
+import { useDebouncedValue } from '../hooks/useDebouncedValue'
+import { useI18n } from '../hooks/useI18n'
+import { useLocalStorage } from '../hooks/useLocalStorage'
 
 interface CodeBlockProps {
   code: string
   lang: string
   title?: string
+  actions?: ReactNode
+  children?: ReactNode
+  // When set, a transparent textarea over the highlighted code takes input
+  onCodeChange?: (code: string) => void
+  editorRef?: Ref<HTMLTextAreaElement>
+  // Offset of the caret in the textarea, whenever it moves
+  onCaretChange?: (offset: number) => void
+  // 1-based, inclusive; the first highlighted line is scrolled into view
+  highlightLines?: [number, number]
+  onLineClick?: (line: number, extend: boolean) => void
+  // Color-banded regions that light up together with their counterparts
+  regions?: Region[]
+  activeRegion?: string | null
+  onRegionHover?: (id: string | null) => void
+  // Walkthrough focus: lines outside these ranges are dimmed
+  focusLines?: LineRange[]
+  // Show the build's type hovers and errors while the code is not being edited
+  twoslash?: boolean
 }
 
-export function CodeBlock({ code, lang, title }: CodeBlockProps) {
-  const [html, setHtml] = useState<string>('')
+const HIGHLIGHT_DELAY_MS = 150
+const COPIED_MS = 1500
+// Twoslash popups hold lines of their own; only the code's lines count
+const LINES = ':scope > pre > code > .line'
+
+function insertIndent(event: KeyboardEvent<HTMLTextAreaElement>, onCodeChange: (code: string) => void) {
+  if (event.key !== 'Tab') return
+  event.preventDefault()
+  const target = event.currentTarget
+  const { selectionStart, selectionEnd, value } = target
+  onCodeChange(`${value.slice(0, selectionStart)}  ${value.slice(selectionEnd)}`)
+  requestAnimationFrame(() => target.setSelectionRange(selectionStart + 2, selectionStart + 2))
+}
+
+const toolClass = 'text-[10px] font-mono cursor-pointer hover:text-fg'
+
+function ToolToggle({ active, onClick, children }: { active: boolean; onClick: () => void; children: string }) {
+  return (
+    <button onClick={onClick} aria-pressed={active} className={`${toolClass} ${active ? 'text-type' : 'text-muted'}`}>
+      {children}
+    </button>
+  )
+}
+
+// Shiki's markup without the colours: one .line span per line
+function plainHtml(code: string): string {
+  const escaped = code.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+  const lines = escaped.split('\n').map((line) => `<span class="line">${line}</span>`)
+  return `<pre class="shiki"><code>${lines.join('\n')}</code></pre>`
+}
+
+function clickedLine(event: MouseEvent<HTMLDivElement>): number | null {
+  const lines = [...event.currentTarget.querySelectorAll(LINES)]
+  return lines.findIndex((line) => line.contains(event.target as Node)) + 1 || null
+}
+
+export function CodeBlock({
+  code,
+  lang,
+  title,
+  actions,
+  children,
+  onCodeChange,
+  editorRef,
+  onCaretChange,
+  highlightLines,
+  onLineClick,
+  regions,
+  activeRegion,
+  onRegionHover,
+  focusLines,
+  twoslash,
+}: CodeBlockProps) {
+  const { t } = useI18n()
+  const highlighted = useDebouncedValue(code, onCodeChange ? HIGHLIGHT_DELAY_MS : 0)
+  const prerendered =
+    (twoslash && !onCodeChange ? prerenderedHtml(highlighted, lang, 'twoslash') : undefined) ??
+    prerenderedHtml(highlighted, lang)
+  // Edited code starts from the original's markup instead of an empty block
+  const [edited, setEdited] = useState(() => prerenderedHtml(code, lang) ?? '')
+  const html = prerendered ?? edited
+  const container = useRef<HTMLDivElement>(null)
+  const scrolledTo = useRef<string | null>(null)
+  const [start, end] = highlightLines ?? [0, 0]
+  // Callers rebuild region arrays on every render; key the effect on content
+  const regionKey = JSON.stringify(regions ?? [])
+  const focusKey = focusLines ? JSON.stringify(focusLines) : ''
+  // Reading preferences, shared by every block; the editor's textarea lines
+  // up with unnumbered, unwrapped code only, so editing turns both off
+  const [lineNumbers, setLineNumbers] = useLocalStorage('code:line-numbers', false)
+  const [wrap, setWrap] = useLocalStorage('code:wrap', false)
+  const numbered = lineNumbers && !onCodeChange
+  const wrapped = wrap && !onCodeChange
+  const [copied, setCopied] = useState<'all' | 'lines' | 'failed' | null>(null)
+  const copiedTimer = useRef<ReturnType<typeof setTimeout>>(undefined)
+  const label = title ?? t('code.label')
+
+  const copy = async (which: 'all' | 'lines') => {
+    const text = which === 'lines' ? code.split('\n').slice(start - 1, end).join('\n') : code
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopied(which)
+    } catch {
+      setCopied('failed')
+    }
+    // A second copy restarts the countdown instead of being cut short by the first
+    clearTimeout(copiedTimer.current)
+    copiedTimer.current = setTimeout(() => setCopied(null), COPIED_MS)
+  }
+
+  useEffect(() => () => clearTimeout(copiedTimer.current), [])
 
   useEffect(() => {
-    codeToHtml(code, {
-      lang,
-      theme: 'dark-plus',
-    }).then(setHtml)
-  }, [code, lang])
+    if (prerendered !== undefined) return
+    // Only code the build has not seen pulls in shiki. Keep showing the
+    // previous markup until the new one is ready, and drop results that
+    // arrive after a newer edit
+    let current = true
+    import('../lib/highlight')
+      .then(({ highlight }) => highlight(highlighted, lang))
+      // When the chunk fails to load or shiki throws, the overlay still has
+      // to match the textarea, so fall back to uncoloured lines
+      .catch(() => plainHtml(highlighted))
+      .then((result) => {
+        if (current) setEdited(result)
+      })
+    return () => {
+      current = false
+    }
+  }, [highlighted, lang, prerendered])
+
+  useEffect(() => {
+    const bands = JSON.parse(regionKey) as Region[]
+    const focus = focusKey ? (JSON.parse(focusKey) as LineRange[]) : null
+    const lines = container.current?.querySelectorAll<HTMLElement>(LINES) ?? []
+    lines.forEach((node, index) => {
+      const line = index + 1
+      node.classList.toggle('highlighted', line >= start && line <= end)
+      node.classList.toggle('dimmed', !!focus && !focus.some(([from, to]) => line >= from && line <= to))
+      const band = bands.find(({ lines }) => line >= lines[0] && line <= lines[1])
+      node.classList.toggle('region', !!band)
+      if (band) {
+        node.dataset.region = band.id
+        node.style.setProperty('--region', band.color)
+        node.style.setProperty('--region-bg', `color-mix(in srgb, ${band.color} 20%, transparent)`)
+      } else {
+        delete node.dataset.region
+      }
+    })
+  }, [html, start, end, regionKey, focusKey])
+
+  useEffect(() => {
+    for (const line of container.current?.querySelectorAll<HTMLElement>('.region') ?? []) {
+      line.classList.toggle('region-active', line.dataset.region === activeRegion)
+    }
+  }, [html, activeRegion])
+
+  useEffect(() => {
+    const key = `${start}-${end}`
+    const line = container.current?.querySelector(`${LINES}.highlighted`)
+    if (!line || scrolledTo.current === key) return
+    scrolledTo.current = key
+    const { top, bottom } = line.getBoundingClientRect()
+    if (top < 0 || bottom > window.innerHeight) {
+      line.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    }
+  }, [html, start, end])
 
   return (
-    <div className="rounded-lg overflow-hidden border border-[#3c3c3c] bg-[#1e1e1e]">
-      {title && (
-        <div className="px-4 py-2 bg-[#2d2d2d] border-b border-[#3c3c3c]">
-          <span className="text-xs text-[#808080] font-mono">{title}</span>
+    <div className="rounded-lg overflow-hidden border border-edge bg-editor">
+      <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-2 bg-tabbar border-b border-edge">
+        <span className="text-xs text-muted font-mono">{title}</span>
+        <div className="flex items-center gap-3 ml-auto">
+          <div className="flex items-center gap-2 print:hidden">
+            {!onCodeChange && (
+              <>
+                <ToolToggle active={lineNumbers} onClick={() => setLineNumbers(!lineNumbers)}>
+                  {t('code.lineNumbers')}
+                </ToolToggle>
+                <ToolToggle active={wrap} onClick={() => setWrap(!wrap)}>
+                  {t('code.wrap')}
+                </ToolToggle>
+              </>
+            )}
+            {start > 0 && (
+              <button onClick={() => copy('lines')} className={`${toolClass} text-muted`}>
+                {copied === 'lines' ? t('code.copied') : t('code.copyLines', { range: start === end ? `L${start}` : `L${start}-L${end}` })}
+              </button>
+            )}
+            <button onClick={() => copy('all')} className={`${toolClass} text-muted`}>
+              {copied === 'all' ? t('code.copied') : copied === 'failed' ? t('code.copyFailed') : t('code.copy')}
+            </button>
+            <span role="status" className="sr-only">
+              {copied === 'failed' ? t('code.copyFailed') : copied ? t('code.copied') : ''}
+            </span>
+          </div>
+          {actions}
+        </div>
+      </div>
+      {/* Focusable so the keyboard can scroll wide code */}
+      <div tabIndex={0} role="region" aria-label={label} className={wrapped ? '' : 'overflow-x-auto'}>
+        <div className="grid">
+          <div
+            ref={container}
+            // Screen readers get the plain text below instead of a span per token
+            aria-hidden="true"
+            onClick={(event) => {
+              // Ignore clicks that end a text selection
+              if (!onLineClick || !getSelection()?.isCollapsed) return
+              const line = clickedLine(event)
+              if (line) onLineClick(line, event.shiftKey)
+            }}
+            onMouseOver={(event) => {
+              const region = (event.target as HTMLElement).closest('[data-region]')
+              onRegionHover?.(region?.getAttribute('data-region') ?? null)
+            }}
+            onMouseLeave={() => onRegionHover?.(null)}
+            className={`${numbered ? 'line-numbers' : ''} ${wrapped ? '[&>pre]:whitespace-pre-wrap [&>pre]:break-words' : ''} [grid-area:1/1] [&>pre>code>.line]:inline-block [&>pre>code>.line]:w-full [&_.line.highlighted]:bg-selection/60 [&_.region]:shadow-[inset_3px_0_0_var(--region)] [&_.region-active]:!bg-[var(--region-bg)] [&>pre>code>.line]:transition-opacity [&_.dimmed]:opacity-25 [&>pre]:!bg-transparent [&>pre]:!m-0 [&>pre]:px-4 [&>pre]:py-3 [&>pre]:!leading-relaxed [&>pre>code]:!block [&_code]:!text-[length:var(--code-size,13px)] [&_code]:font-mono`}
+            dangerouslySetInnerHTML={{ __html: html }}
+          />
+          {onCodeChange && (
+            <textarea
+              ref={editorRef}
+              value={code}
+              onChange={(e) => onCodeChange(e.target.value)}
+              onKeyDown={(e) => insertIndent(e, onCodeChange)}
+              onSelect={(e) => onCaretChange?.(e.currentTarget.selectionStart)}
+              rows={code.split('\n').length}
+              wrap="off"
+              spellCheck={false}
+              aria-label={title ? t('code.edit', { title }) : t('code.editUntitled')}
+              className="[grid-area:1/1] px-4 py-3 font-mono text-[length:var(--code-size,13px)] leading-relaxed bg-transparent text-transparent caret-fg resize-none overflow-hidden outline-none whitespace-pre selection:bg-selection"
+            />
+          )}
         </div>
-      )}
-      <div className="overflow-x-auto">
-        <div
-          className="[&>pre]:!bg-transparent [&>pre]:!m-0 [&>pre]:px-4 [&>pre]:py-3 [&>pre]:!leading-relaxed [&_code]:!block [&_code]:!text-[13px] [&_code]:font-mono"
-          dangerouslySetInnerHTML={{ __html: html }}
-        />
+        {!onCodeChange && <pre className="sr-only">{code}</pre>}
       </div>
+      {children}
     </div>
   )
 }
@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState } from 'react'
+import { loadSearchIndex, type SearchDocument } from 'virtual:search-index'
+import { isTopicId } from '../content/topics'
+import { useI18n } from '../hooks/useI18n'
+import { navigate, parseHash } from '../lib/hashRoute'
+import { resultHash, search, type MatchRange, type SearchResult } from '../lib/search'
+
+// Characters kept before the first match when a long line is cut
+const LEAD = 24
+
+function Highlighted({ text, ranges }: { text: string; ranges: MatchRange[] }) {
+  const from = ranges[0][0] > LEAD * 2 ? ranges[0][0] - LEAD : 0
+  const parts = []
+  let position = from
+  for (const [start, end] of ranges) {
+    parts.push(text.slice(position, start))
+    parts.push(
+      <mark key={start} className="bg-selection text-fg rounded-sm">
+        {text.slice(start, end)}
+      </mark>,
+    )
+    position = end
+  }
+  parts.push(text.slice(position))
+  return (
+    <>
+      {from > 0 && '…'}
+      {parts}
+    </>
+  )
+}
+
+// Ctrl/Cmd+K search over section headings, topics, summaries and every line
+// of code on the page. The index is fetched the first time it opens.
+export function CommandPalette() {
+  const i18n = useI18n()
+  const { t } = i18n
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [active, setActive] = useState(0)
+  const [documents, setDocuments] = useState<SearchDocument[] | null>(null)
+  // Cleared by the retry button, which loads the index again
+  const [loadFailed, setLoadFailed] = useState(false)
+  const dialog = useRef<HTMLDialogElement>(null)
+  const list = useRef<HTMLUListElement>(null)
+  const results = documents && query.trim() ? search(documents, query) : []
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() !== 'k' || !(event.metaKey || event.ctrlKey) || event.altKey) return
+      event.preventDefault()
+      setOpen((current) => !current)
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [])
+
+  useEffect(() => {
+    if (open && !dialog.current?.open) dialog.current?.showModal()
+    if (!open && dialog.current?.open) dialog.current.close()
+    if (open && !documents && !loadFailed) {
+      loadSearchIndex(i18n.locale).then(setDocuments, () => setLoadFailed(true))
+    }
+  }, [open, documents, loadFailed, i18n.locale])
+
+  useEffect(() => {
+    list.current?.querySelector('[aria-selected="true"]')?.scrollIntoView({ block: 'nearest' })
+  }, [active])
+
+  const changeQuery = (next: string) => {
+    setQuery(next)
+    setActive(0)
+  }
+
+  const jump = (result: SearchResult) => {
+    // Closing hands focus back first, so it cannot scroll the page away again
+    dialog.current?.close()
+    const hash = resultHash(result)
+    navigate(hash)
+    // Code blocks scroll to a linked line themselves; tabs live in the comparison
+    const route = parseHash(hash)
+    if (!route.lines) {
+      document.getElementById(isTopicId(route.target) ? 'comparison' : route.target)?.scrollIntoView({ behavior: 'smooth' })
+    }
+  }
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        aria-keyshortcuts="Control+K Meta+K"
+        title={t('search.shortcut')}
+        className="text-xs text-muted font-mono hover:text-fg cursor-pointer"
+      >
+        {t('search.open')}
+      </button>
+      <dialog
+        ref={dialog}
+        aria-label={t('search.label')}
+        onClose={() => setOpen(false)}
+        // A click on the backdrop lands on the dialog itself
+        onClick={(event) => event.target === event.currentTarget && dialog.current?.close()}
+        className="mx-auto mt-[12vh] w-[min(40rem,calc(100vw-2rem))] rounded-xl border border-edge bg-editor text-fg p-0 shadow-2xl backdrop:bg-black/50"
+      >
+        <input
+          value={query}
+          onChange={(event) => changeQuery(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'ArrowDown') setActive(Math.min(active + 1, results.length - 1))
+            else if (event.key === 'ArrowUp') setActive(Math.max(active - 1, 0))
+            else if (event.key === 'Enter' && results[active]) jump(results[active])
+            else return
+            event.preventDefault()
+          }}
+          placeholder={t('search.placeholder')}
+          role="combobox"
+          aria-expanded={results.length > 0}
+          aria-controls="search-results"
+          aria-activedescendant={results[active] ? `search-result-${active}` : undefined}
+          autoFocus
+          className="w-full px-4 py-3 bg-transparent border-b border-edge text-sm font-mono outline-none placeholder:text-faint"
+        />
+        <ul ref={list} id="search-results" role="listbox" className="max-h-[60vh] overflow-y-auto py-1">
+          {results.map((result, index) => (
+            <li
+              key={`${result.document.hash}:${result.line ?? ''}`}
+              id={`search-result-${index}`}
+              role="option"
+              aria-selected={index === active}
+              onClick={() => jump(result)}
+              onMouseMove={() => setActive(index)}
+              className={`px-4 py-2 cursor-pointer ${index === active ? 'bg-panel' : ''}`}
+            >
+              <div className="flex items-center gap-2 text-[11px] text-muted font-mono">
+                <span className="text-type">{t(`search.kind.${result.document.kind}`)}</span>
+                <span className="truncate">{result.document.context}</span>
+                {result.line !== undefined && (
+                  <span className="ml-auto shrink-0 text-faint">{t('search.line', { line: result.line })}</span>
+                )}
+              </div>
+              <div className={`truncate text-sm ${result.document.kind === 'code' ? 'font-mono text-xs' : ''}`}>
+                <Highlighted text={result.text} ranges={result.ranges} />
+              </div>
+            </li>
+          ))}
+        </ul>
+        <p className="px-4 py-2 border-t border-edge text-[11px] text-faint font-mono">
+          {loadFailed ? (
+            <>
+              {t('search.failed')}{' '}
+              <button onClick={() => setLoadFailed(false)} className="text-type hover:underline cursor-pointer">
+                {t('search.retry')}
+              </button>
+            </>
+          ) : !documents ? (
+            t('search.loading')
+          ) : query.trim() && results.length === 0 ? (
+            t('search.empty', { query: query.trim() })
+          ) : (
+            t('search.hint')
+          )}
+        </p>
+      </dialog>
+    </>
+  )
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react'
+import { sides } from '../content/sides'
+import type { Side, Snippet } from '../content/types'
+import { useI18n } from '../hooks/useI18n'
+import { useLocalStorage } from '../hooks/useLocalStorage'
+import { sideLabel } from '../i18n/content'
+import { diffLines } from '../lib/diff'
+import { draftToForm, formToDraft } from '../sandbox/request'
+import type { ResponseView, RunConfig } from '../sandbox/types'
+import { DiffView } from './DiffView'
+import { fieldClass, RequestFields } from './RequestFields'
+import { ResponseCard } from './ResponseCard'
+
+export interface CompareEntry {
+  side: Side
+  // Block id, under which SnippetBlock stores the reader's edits
+  id: string
+  snippet: Snippet
+  run: RunConfig
+}
+
+type Outcome = { result: ResponseView; error: null } | { result: null; error: string }
+
+function summarize(outcome: Outcome): string {
+  if (outcome.error !== null) return `error: ${outcome.error}`
+  const { result } = outcome
+  const contentType = result.headers.find(([name]) => name === 'content-type')?.[1] ?? '(none)'
+  return [`status: ${result.status}`, `content-type: ${contentType}`, '', result.body].join('\n')
+}
+
+export function ComparePanel({ entries }: { entries: [CompareEntry, CompareEntry] }) {
+  const [form, setForm] = useState(() => draftToForm(entries[0].run.request))
+  const [paths, setPaths] = useState(() => entries.map((entry) => entry.run.request.path))
+  const [outcomes, setOutcomes] = useState<Outcome[] | null>(null)
+  const [pending, setPending] = useState(false)
+  const i18n = useI18n()
+  // The code as edited above, as the single-run button sends it
+  const [left] = useLocalStorage(`snippet:${entries[0].id}`, entries[0].snippet.code)
+  const [right] = useLocalStorage(`snippet:${entries[1].id}`, entries[1].snippet.code)
+
+  const send = async () => {
+    setPending(true)
+    try {
+      const { runSnippet } = await import('../sandbox')
+      const settled = await Promise.allSettled(
+        [left, right].map((code, index) =>
+          runSnippet(code, entries[index].run, formToDraft({ ...form, path: paths[index] })),
+        ),
+      )
+      setOutcomes(
+        settled.map((outcome) =>
+          outcome.status === 'fulfilled'
+            ? { result: outcome.value, error: null }
+            : { result: null, error: String(outcome.reason instanceof Error ? outcome.reason.message : outcome.reason) },
+        ),
+      )
+    } catch (err) {
+      // The sandbox itself failed to load, so neither side ran
+      const error = err instanceof Error ? err.message : String(err)
+      setOutcomes(entries.map(() => ({ result: null, error })))
+    } finally {
+      setPending(false)
+    }
+  }
+
+  const diff = outcomes && diffLines(summarize(outcomes[0]), summarize(outcomes[1]))
+
+  return (
+    <div className="rounded-lg mt-4 border border-edge bg-panel p-3 space-y-3 text-xs font-mono">
+      <div className="text-muted">{i18n.t('compare.hint')}</div>
+      <RequestFields
+        value={form}
+        onChange={setForm}
+        onSend={send}
+        pending={pending}
+        presets={entries.map((entry) => entry.run.request)}
+        hidePath
+      />
+
+      <div className="grid lg:grid-cols-2 gap-3">
+        {entries.map((entry, index) => (
+          <div key={entry.side} className="space-y-2 min-w-0">
+            <label className="flex items-center gap-2">
+              <span className={sides[entry.side].accent}>{sideLabel(entry.side, i18n)}</span>
+              <input
+                value={paths[index]}
+                onChange={(e) => setPaths(paths.map((path, i) => (i === index ? e.target.value : path)))}
+                className={`${fieldClass} flex-1 min-w-0`}
+              />
+            </label>
+            {outcomes && <ResponseCard result={outcomes[index].result} error={outcomes[index].error} />}
+          </div>
+        ))}
+      </div>
+
+      {diff && (
+        <DiffView
+          lines={diff}
+          removedClass="text-keyword bg-keyword/10"
+          addedClass="text-type bg-type/10"
+        />
+      )}
+    </div>
+  )
+}
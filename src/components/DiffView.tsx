@@ -0,0 +1,27 @@
+import type { DiffLine } from '../lib/diff'
+
+interface DiffViewProps {
+  lines: DiffLine[]
+  removedClass?: string
+  addedClass?: string
+}
+
+export function DiffView({
+  lines,
+  removedClass = 'text-error bg-error/10',
+  addedClass = 'text-type bg-type/10',
+}: DiffViewProps) {
+  return (
+    <pre className="rounded border border-edge bg-editor px-2 py-1 text-xs font-mono whitespace-pre-wrap break-all">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={line.kind === 'same' ? 'text-muted' : line.kind === 'removed' ? removedClass : addedClass}
+        >
+          {line.kind === 'same' ? '  ' : line.kind === 'removed' ? '- ' : '+ '}
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  )
+}
@@ -0,0 +1,45 @@
+import { frameworkIds, frameworks, MAX_COLUMNS, MIN_COLUMNS } from '../content/sides'
+import type { Framework } from '../content/types'
+import { useI18n } from '../hooks/useI18n'
+import { frameworkDescription, sideLabel } from '../i18n/content'
+
+interface FrameworkPickerProps {
+  value: Framework[]
+  onChange: (value: Framework[]) => void
+}
+
+// Chooses the comparison's columns; at the limits the chips that would
+// cross them are disabled rather than hidden
+export function FrameworkPicker({ value, onChange }: FrameworkPickerProps) {
+  const i18n = useI18n()
+
+  const toggle = (framework: Framework) => {
+    const next = value.includes(framework) ? value.filter((id) => id !== framework) : [...value, framework]
+    onChange(frameworkIds.filter((id) => next.includes(id)))
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mb-3 text-xs font-mono">
+      <span className="text-muted mr-1">{i18n.t('frameworks.label')}</span>
+      {frameworkIds.map((framework) => {
+        const selected = value.includes(framework)
+        const locked = selected ? value.length <= MIN_COLUMNS : value.length >= MAX_COLUMNS
+        return (
+          <button
+            key={framework}
+            onClick={() => toggle(framework)}
+            disabled={locked}
+            aria-pressed={selected}
+            title={frameworkDescription(framework, i18n)}
+            className={`px-2 py-0.5 rounded border transition-colors ${
+              selected ? `${frameworks[framework].accent} border-current` : 'text-muted border-edge hover:text-fg'
+            } ${locked ? 'cursor-not-allowed opacity-60' : 'cursor-pointer'}`}
+          >
+            {sideLabel(framework, i18n)}
+          </button>
+        )
+      })}
+      <span className="text-faint ml-1">{i18n.t('frameworks.limit', { min: MIN_COLUMNS, max: MAX_COLUMNS })}</span>
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import { useI18n } from '../hooks/useI18n'
+import { useLocalStorage } from '../hooks/useLocalStorage'
+import { defaultLocale, LOCALE_STORAGE_KEY, localeIds, localePath, locales, type Locale } from '../i18n/locales'
+
+// Each locale is its own prerendered page, so switching navigates there and
+// remembers the choice for the next visit to the default path
+export function LocaleSwitcher() {
+  const { locale, t } = useI18n()
+  const [, setSaved] = useLocalStorage<Locale>(LOCALE_STORAGE_KEY, defaultLocale)
+
+  const change = (next: Locale) => {
+    setSaved(next)
+    location.assign(`${localePath(next)}${location.hash}`)
+  }
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => change(e.target.value as Locale)}
+      aria-label={t('locale.label')}
+      className="bg-transparent text-xs text-muted font-mono hover:text-fg cursor-pointer outline-none"
+    >
+      {localeIds.map((id) => (
+        <option key={id} value={id}>
+          {locales[id].label}
+        </option>
+      ))}
+    </select>
+  )
+}
@@ -0,0 +1,48 @@
+import { mappingColor } from '../content/mappings'
+import type { Topic } from '../content/types'
+import { useI18n } from '../hooks/useI18n'
+
+interface MappingLegendProps {
+  topic: Topic
+  active: string | null
+  onActivate: (id: string | null) => void
+}
+
+export function MappingLegend({ topic, active, onActivate }: MappingLegendProps) {
+  const { t } = useI18n()
+  const mappings = topic.mappings ?? []
+  if (mappings.length === 0) return null
+  const current = mappings.find((mapping) => mapping.id === active)
+
+  return (
+    <div className="sticky bottom-2 z-10 mt-4 rounded-lg p-3 bg-panel border border-edge text-xs shadow-lg">
+      <div className="flex flex-wrap gap-2">
+        {mappings.map((mapping) => (
+          <button
+            key={mapping.id}
+            onMouseEnter={() => onActivate(mapping.id)}
+            onMouseLeave={() => onActivate(null)}
+            onFocus={() => onActivate(mapping.id)}
+            onBlur={() => onActivate(null)}
+            style={{ borderLeftColor: mappingColor(topic, mapping.id) }}
+            className={`px-2 py-0.5 rounded border-l-4 border border-edge font-mono cursor-default ${
+              mapping.id === active ? 'text-fg bg-editor' : 'text-muted'
+            }`}
+          >
+            {mapping.id}
+          </button>
+        ))}
+      </div>
+      <p className="mt-2 min-h-[1.25rem] text-fg">
+        {current ? (
+          <>
+            <span style={{ color: mappingColor(topic, current.id) }}>■ </span>
+            {current.note}
+          </>
+        ) : (
+          <span className="text-faint">{t('mapping.hint')}</span>
+        )}
+      </p>
+    </div>
+  )
+}
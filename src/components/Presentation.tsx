@@ -0,0 +1,109 @@
+import { useEffect, useState, type CSSProperties } from 'react'
+import { useI18n } from '../hooks/useI18n'
+import { useNow } from '../hooks/useNow'
+import { navigate } from '../lib/hashRoute'
+import { isTypingTarget } from '../lib/keyboard'
+import { postPresentationMessage, subscribePresentation } from '../presentation/channel'
+import { formatElapsed, localizeSlides } from '../presentation/slides'
+import { TopicComparison } from './TopicComparison'
+
+const buttonClass =
+  'px-2 py-1 rounded border border-edge text-fg cursor-pointer disabled:opacity-40 disabled:cursor-default hover:border-type'
+
+// Code reads better from the back of a meeting room
+const slideStyle = { '--code-size': '18px' } as CSSProperties
+
+export function Presentation({ index }: { index: number }) {
+  const [startedAt] = useState(() => Date.now())
+  const now = useNow()
+  const i18n = useI18n()
+  const slides = localizeSlides(i18n)
+  const slide = slides[index]
+
+  const go = (next: number) => {
+    if (next >= 0 && next < slides.length) navigate(`#present/${next + 1}`, { replace: true })
+  }
+
+  const exit = () => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {})
+    navigate(`#${slide.id}`)
+  }
+
+  const openNotes = () => {
+    window.open(`${location.pathname}#notes/${index + 1}`, 'speaker-notes', 'width=760,height=560')
+  }
+
+  useEffect(() => {
+    postPresentationMessage({ type: 'state', index, startedAt })
+  }, [index, startedAt])
+
+  useEffect(
+    () =>
+      subscribePresentation((message) => {
+        if (message.type === 'go') navigate(`#present/${message.index + 1}`, { replace: true })
+        if (message.type === 'hello') postPresentationMessage({ type: 'state', index, startedAt })
+      }),
+    [index, startedAt],
+  )
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (isTypingTarget(event.target)) return
+      const actions: Record<string, () => void> = {
+        ArrowRight: () => go(index + 1),
+        PageDown: () => go(index + 1),
+        ' ': () => go(index + 1),
+        ArrowLeft: () => go(index - 1),
+        PageUp: () => go(index - 1),
+        Home: () => go(0),
+        End: () => go(slides.length - 1),
+        Escape: exit,
+        n: openNotes,
+      }
+      const action = actions[event.key]
+      if (!action) return
+      event.preventDefault()
+      action()
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  })
+
+  return (
+    <div className="fixed inset-0 flex flex-col bg-editor" style={slideStyle}>
+      <header className="px-10 pt-8 pb-4">
+        <h1 className="text-2xl font-mono text-keyword">
+          <span className="text-muted">//</span> {slide.title}
+        </h1>
+      </header>
+
+      <main className="flex-1 overflow-auto px-10 pb-6 text-lg">
+        {slide.kind === 'topic' ? (
+          <TopicComparison key={slide.id} topic={slide.topic} allowWalkthrough={false} linkLines={false} />
+        ) : (
+          <slide.section.Content />
+        )}
+      </main>
+
+      <footer className="flex items-center justify-between gap-4 px-10 py-3 border-t border-edge text-xs font-mono text-muted">
+        <span>
+          {index + 1} / {slides.length} · {formatElapsed(now - startedAt)}
+        </span>
+        <div className="flex gap-2">
+          <button onClick={() => go(index - 1)} disabled={index === 0} className={buttonClass} aria-label={i18n.t('presentation.previous')}>
+            ←
+          </button>
+          <button onClick={() => go(index + 1)} disabled={index === slides.length - 1} className={buttonClass} aria-label={i18n.t('presentation.next')}>
+            →
+          </button>
+          <button onClick={openNotes} className={buttonClass}>
+            {i18n.t('presentation.notes')}
+          </button>
+          <button onClick={exit} className={buttonClass}>
+            {i18n.t('presentation.exit')}
+          </button>
+        </div>
+      </footer>
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+import { useEffect } from 'react'
+import { useI18n } from '../hooks/useI18n'
+import { rich } from '../i18n/rich'
+import { navigate } from '../lib/hashRoute'
+import { buildReport, type ReportBlock, type ReportOptions } from '../report/document'
+import { CodeBlock } from './CodeBlock'
+
+const spans = {
+  code: (chunk: string) => <code className="font-mono text-string">{chunk}</code>,
+  b: (chunk: string) => <strong className="font-medium text-fg">{chunk}</strong>,
+  em: (chunk: string) => <em>{chunk}</em>,
+}
+
+const headingClass = {
+  1: 'text-2xl font-bold mb-6',
+  2: 'text-lg font-mono text-keyword mt-10 mb-3 pb-1 border-b border-edge',
+  3: 'text-base font-medium mt-6 mb-2',
+  4: 'text-sm font-medium text-muted mt-4 mb-2',
+}
+
+function Block({ block }: { block: ReportBlock }) {
+  switch (block.kind) {
+    case 'heading': {
+      const Heading = `h${block.level}` as const
+      return <Heading className={`break-after-avoid ${headingClass[block.level]}`}>{rich(block.text, spans)}</Heading>
+    }
+    case 'paragraph':
+      return <p className="text-sm leading-relaxed mb-3">{rich(block.text, spans)}</p>
+    case 'list':
+      return (
+        <ul className="text-sm leading-relaxed list-disc pl-5 mb-3 space-y-1">
+          {block.items.map((item, index) => (
+            <li key={index}>{rich(item, spans)}</li>
+          ))}
+        </ul>
+      )
+    case 'table':
+      return (
+        <table className="text-sm mb-3 border-collapse">
+          <thead>
+            <tr>
+              {block.header.map((text, index) => (
+                <th key={index} className="text-left font-medium px-3 py-1 border-b border-edge">
+                  {text}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {block.rows.map((row, index) => (
+              <tr key={index}>
+                {row.map((text, column) => (
+                  <td key={column} className="px-3 py-1 border-b border-edge font-mono text-xs">
+                    {text}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )
+    case 'code':
+      return (
+        <div className="mb-4 break-inside-avoid">
+          <CodeBlock code={block.snippet.code} lang={block.snippet.lang} title={block.snippet.title} />
+        </div>
+      )
+  }
+}
+
+// The report as one printable page (#print?...): the browser's print dialog
+// turns it into a PDF with the code highlighted. Opens that dialog itself.
+export function PrintReport({ options }: { options: ReportOptions }) {
+  const i18n = useI18n()
+  const blocks = buildReport(i18n, options)
+
+  useEffect(() => {
+    // Let the page lay out before the dialog snapshots it
+    const timer = setTimeout(() => window.print(), 100)
+    return () => clearTimeout(timer)
+  }, [])
+
+  return (
+    <div className="min-h-screen bg-editor text-fg">
+      <header className="print:hidden sticky top-0 flex items-center justify-end gap-4 px-6 py-3 bg-titlebar border-b border-edge text-xs font-mono">
+        <button onClick={() => window.print()} className="text-muted hover:text-fg cursor-pointer">
+          {i18n.t('report.print')}
+        </button>
+        <button onClick={() => navigate('#comparison')} className="text-muted hover:text-fg cursor-pointer">
+          {i18n.t('report.back')}
+        </button>
+      </header>
+      <main className="max-w-4xl mx-auto px-6 py-8 print:p-0 print:max-w-none">
+        {blocks.map((block, index) => (
+          <Block key={index} block={block} />
+        ))}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,133 @@
+import { decisionQuestions } from '../content/decision'
+import { sectionTexts } from '../content/sections'
+import { sideIds, sides } from '../content/sides'
+import { getTopic, isTopicId } from '../content/topics'
+import { useHashRoute } from '../hooks/useHashRoute'
+import { useI18n } from '../hooks/useI18n'
+import { localizeDecision, localizeSection, localizeTopic, sideLabel } from '../i18n/content'
+import { formatAnswers, readAnswers, scoreAnswers, type Answers } from '../lib/decision'
+import { navigate } from '../lib/hashRoute'
+
+const optionClass = (active: boolean) =>
+  `px-2.5 py-1 rounded text-xs font-mono cursor-pointer transition-colors ${
+    active ? 'bg-type text-editor' : 'text-muted border border-edge hover:text-fg'
+  }`
+
+// Scored from the answers in the hash, which the page keeps up to date, so
+// the address bar is always a link to the current recommendation
+export function Questionnaire() {
+  const route = useHashRoute()
+  const i18n = useI18n()
+  const { t } = i18n
+  const questions = localizeDecision(i18n)
+  const answers = readAnswers(route.target === 'summary' ? route.query : undefined)
+  const { totals, winner, reasons } = scoreAnswers(answers, questions)
+
+  // Replacing keeps Back for leaving the page rather than undoing answers
+  const answer = (next: Answers) => navigate(formatAnswers(next), { replace: true })
+
+  const linkLabel = (target: string) =>
+    isTopicId(target)
+      ? localizeTopic(getTopic(target), i18n).label
+      : localizeSection(sectionTexts.find(({ id }) => id === target)!, i18n).title
+
+  // Tabs have no element of their own to land on, so show the comparison
+  const follow = (target: string) => {
+    navigate(`#${target}`)
+    if (isTopicId(target)) document.getElementById('comparison')?.scrollIntoView({ behavior: 'smooth' })
+  }
+
+  return (
+    <div className="mt-6 rounded-lg p-4 bg-panel border border-edge text-sm">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-1">
+        <h3 className="text-type font-medium">{t('decide.title')}</h3>
+        <span className="text-xs font-mono text-muted">
+          {t('decide.progress', { answered: reasons.length, total: decisionQuestions.length })}
+          {reasons.length > 0 && (
+            <button onClick={() => answer({})} className="ml-3 text-type hover:underline cursor-pointer">
+              {t('decide.reset')}
+            </button>
+          )}
+        </span>
+      </div>
+      <p className="text-muted text-xs mb-4">{t('decide.intro')}</p>
+      <div className="grid lg:grid-cols-2 gap-x-6 gap-y-4">
+        {questions.map((question) => (
+          <fieldset key={question.id}>
+            <legend className="text-fg mb-2">{question.question}</legend>
+            <div className="flex flex-wrap gap-1.5">
+              {question.options.map((option) => {
+                const active = answers[question.id] === option.id
+                return (
+                  <button
+                    key={option.id}
+                    aria-pressed={active}
+                    // A second click takes the answer back
+                    onClick={() => answer({ ...answers, [question.id]: active ? '' : option.id })}
+                    className={optionClass(active)}
+                  >
+                    {option.label}
+                  </button>
+                )
+              })}
+            </div>
+          </fieldset>
+        ))}
+      </div>
+      <div className="mt-5 pt-4 border-t border-edge" aria-live="polite">
+        {reasons.length === 0 ? (
+          <p className="text-muted">{t('decide.empty')}</p>
+        ) : (
+          <>
+            <p className={`font-medium ${winner === 'either' ? 'text-fg' : sides[winner].accent}`}>
+              {t(`decide.result.${winner}`)}
+            </p>
+            <p className="text-xs font-mono text-muted mt-1 mb-3">
+              {sideIds
+                .map((side) => t('decide.score', { side: sideLabel(side, i18n), points: totals[side] }))
+                .join(' · ')}
+            </p>
+            <ul className="space-y-2 text-muted">
+              {reasons.map(({ question, option }) => (
+                <li key={question.id} className="flex gap-2">
+                  <span className="shrink-0 w-16 text-xs font-mono pt-0.5">
+                    {sideIds
+                      .filter((side) => option.weights[side])
+                      .map((side) => (
+                        <span key={side} className={`block ${sides[side].accent}`}>
+                          +{option.weights[side]} {sideLabel(side, i18n)}
+                        </span>
+                      ))}
+                  </span>
+                  <span className="min-w-0">
+                    {option.reason}
+                    {option.links && (
+                      <span className="ml-2 text-xs font-mono">
+                        {t('decide.see')}{' '}
+                        {option.links.map((target, index) => (
+                          <span key={target}>
+                            {index > 0 && ', '}
+                            <a
+                              href={`#${target}`}
+                              onClick={(event) => {
+                                event.preventDefault()
+                                follow(target)
+                              }}
+                              className="text-type hover:underline"
+                            >
+                              {linkLabel(target)}
+                            </a>
+                          </span>
+                        ))}
+                      </span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState } from 'react'
+import { topics, type TopicId } from '../content/topics'
+import { useI18n } from '../hooks/useI18n'
+import { usePickedFrameworks } from '../hooks/usePickedFrameworks'
+import { localizeTopic, sideLabel } from '../i18n/content'
+import { navigate } from '../lib/hashRoute'
+import { buildReport, formatReportHash, REPORT_FILE, type ReportOptions } from '../report/document'
+import { reportMarkdown } from '../report/markdown'
+
+const allTopics = topics.map((topic) => topic.id)
+
+const actionClass =
+  'px-3 py-1 rounded text-xs font-mono cursor-pointer text-type border border-type/40 hover:bg-type/10 disabled:opacity-40 disabled:cursor-default'
+
+// The page as a document: a Markdown download, or a print view the
+// browser saves as PDF. Topics are chosen here; frameworks follow the
+// comparison's picker.
+export function ReportExport() {
+  const i18n = useI18n()
+  const { t } = i18n
+  const [open, setOpen] = useState(false)
+  const [chosen, setChosen] = useState<TopicId[]>(allTopics)
+  const [frameworks] = usePickedFrameworks()
+  const dialog = useRef<HTMLDialogElement>(null)
+  // Kept in tab order whatever order they were ticked in
+  const options: ReportOptions = { topics: allTopics.filter((id) => chosen.includes(id)), frameworks }
+
+  useEffect(() => {
+    if (open && !dialog.current?.open) dialog.current?.showModal()
+    if (!open && dialog.current?.open) dialog.current.close()
+  }, [open])
+
+  const toggle = (id: TopicId) => setChosen(chosen.includes(id) ? chosen.filter((topic) => topic !== id) : [...chosen, id])
+
+  const download = () => {
+    const blob = new Blob([reportMarkdown(buildReport(i18n, options))], { type: 'text/markdown' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = REPORT_FILE
+    link.click()
+    setTimeout(() => URL.revokeObjectURL(url))
+  }
+
+  const print = () => {
+    dialog.current?.close()
+    navigate(formatReportHash(options))
+  }
+
+  return (
+    <>
+      <button onClick={() => setOpen(true)} className="text-xs text-muted font-mono hover:text-fg cursor-pointer">
+        {t('report.open')}
+      </button>
+      <dialog
+        ref={dialog}
+        aria-labelledby="report-title"
+        onClose={() => setOpen(false)}
+        // A click on the backdrop lands on the dialog itself
+        onClick={(event) => event.target === event.currentTarget && dialog.current?.close()}
+        className="mx-auto mt-[12vh] w-[min(36rem,calc(100vw-2rem))] rounded-xl border border-edge bg-editor text-fg p-5 shadow-2xl backdrop:bg-black/50"
+      >
+        <h2 id="report-title" className="text-sm font-mono text-keyword mb-1">
+          {t('report.title')}
+        </h2>
+        <p className="text-muted text-xs mb-4">
+          {t('report.frameworks', { frameworks: frameworks.map((id) => sideLabel(id, i18n)).join(', ') })}
+        </p>
+        <fieldset className="mb-4">
+          <legend className="flex items-center gap-3 text-xs text-muted font-mono mb-2">
+            {t('report.topics')}
+            <button onClick={() => setChosen(allTopics)} className="text-type hover:underline cursor-pointer">
+              {t('report.all')}
+            </button>
+            <button onClick={() => setChosen([])} className="text-type hover:underline cursor-pointer">
+              {t('report.none')}
+            </button>
+          </legend>
+          <div className="grid sm:grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            {topics.map((topic) => (
+              <label key={topic.id} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={chosen.includes(topic.id)}
+                  onChange={() => toggle(topic.id)}
+                  className="accent-type"
+                />
+                {localizeTopic(topic, i18n).label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={download} className={actionClass}>
+            {t('report.markdown')}
+          </button>
+          <button onClick={print} className={actionClass}>
+            {t('report.pdf')}
+          </button>
+          <button onClick={() => dialog.current?.close()} className="ml-auto text-xs text-muted font-mono hover:text-fg cursor-pointer">
+            {t('report.close')}
+          </button>
+        </div>
+      </dialog>
+    </>
+  )
+}
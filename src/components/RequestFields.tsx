@@ -0,0 +1,79 @@
+import { useI18n } from '../hooks/useI18n'
+import type { RequestDraft, RequestForm } from '../sandbox/types'
+
+interface RequestFieldsProps {
+  value: RequestForm
+  onChange: (value: RequestForm) => void
+  onSend: () => void
+  pending: boolean
+  // Requests the panel was opened with; their methods are always offered
+  presets: RequestDraft[]
+  // The compare panel edits paths per side, so it hides the shared one
+  hidePath?: boolean
+}
+
+const METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS']
+
+// The presets' methods first, so a preflight (OPTIONS) or a custom verb can
+// always be picked again, then the usual ones
+function methodOptions(presets: RequestDraft[], current: string): string[] {
+  return [...new Set([...presets.map((preset) => preset.method.toUpperCase()), ...METHODS, current.toUpperCase()])]
+}
+
+export const fieldClass =
+  'rounded bg-editor border border-edge px-2 py-1 text-xs font-mono text-fg focus:outline-none focus:border-keyword'
+
+export function RequestFields({ value, onChange, onSend, pending, presets, hidePath }: RequestFieldsProps) {
+  const { t } = useI18n()
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <select
+          value={value.method.toUpperCase()}
+          onChange={(e) => onChange({ ...value, method: e.target.value })}
+          className={fieldClass}
+        >
+          {methodOptions(presets, value.method).map((method) => (
+            <option key={method}>{method}</option>
+          ))}
+        </select>
+        {hidePath ? (
+          <div className="flex-1" />
+        ) : (
+          <input
+            value={value.path}
+            onChange={(e) => onChange({ ...value, path: e.target.value })}
+            className={`${fieldClass} flex-1 min-w-0`}
+          />
+        )}
+        <button
+          onClick={onSend}
+          disabled={pending}
+          className="px-3 py-1 rounded bg-type text-editor font-medium cursor-pointer disabled:opacity-50"
+        >
+          {pending ? t('request.sending') : t('request.send')}
+        </button>
+      </div>
+      <div className="grid sm:grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1 text-muted">
+          {t('request.headers')}
+          <textarea
+            value={value.headers}
+            onChange={(e) => onChange({ ...value, headers: e.target.value })}
+            rows={3}
+            className={fieldClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-muted">
+          {t('request.body')}
+          <textarea
+            value={value.body}
+            onChange={(e) => onChange({ ...value, body: e.target.value })}
+            rows={3}
+            className={fieldClass}
+          />
+        </label>
+      </div>
+    </div>
+  )
+}
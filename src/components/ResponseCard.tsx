@@ -0,0 +1,36 @@
+import { useI18n } from '../hooks/useI18n'
+import type { ResponseView } from '../sandbox/types'
+
+function statusColor(status: number): string {
+  if (status < 300) return 'text-type'
+  if (status < 500) return 'text-function'
+  return 'text-error'
+}
+
+export function ResponseCard({ result, error }: { result: ResponseView | null; error: string | null }) {
+  const { t } = useI18n()
+  if (error) {
+    return <div className="rounded border border-error/40 p-2 text-error whitespace-pre-wrap">{error}</div>
+  }
+  if (!result) return null
+
+  return (
+    <div className="rounded border border-edge bg-editor">
+      <div className="flex justify-between px-2 py-1 border-b border-edge">
+        <span className={statusColor(result.status)}>
+          {result.status} {result.statusText}
+        </span>
+        <span className="text-faint">{result.durationMs.toFixed(1)} ms</span>
+      </div>
+      <div className="px-2 py-1 border-b border-edge text-muted break-all">
+        {/* Names repeat: each set-cookie is a row of its own */}
+        {result.headers.map(([name, value], index) => (
+          <div key={`${name}:${index}`}>
+            <span className="text-variable">{name}</span>: {value}
+          </div>
+        ))}
+      </div>
+      <pre className="px-2 py-1 text-string whitespace-pre-wrap break-all">{result.body || t('response.empty')}</pre>
+    </div>
+  )
+}
@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react'
+import { sides } from '../content/sides'
+import { blockId, topics } from '../content/topics'
+import type { RouteTableSource } from '../content/types'
+import { useI18n } from '../hooks/useI18n'
+import { useLocalStorage } from '../hooks/useLocalStorage'
+import { localizeTopic } from '../i18n/content'
+import { formatLineHash, navigate } from '../lib/hashRoute'
+import { createZip } from '../lib/zip'
+import type { RouteTable, SourceFile, TableRoute } from '../migrate'
+import { CodeBlock } from './CodeBlock'
+
+interface Generated {
+  table: RouteTable
+  sources: SourceFile[]
+  files: SourceFile[]
+  tree: string
+}
+
+// One path segment of the table; routes sit on the node of their full path
+interface PathNode {
+  segment: string
+  routes: TableRoute[]
+  mounts: RouteTable['unresolved']
+  children: Map<string, PathNode>
+}
+
+const emptyNode = (segment: string): PathNode => ({ segment, routes: [], mounts: [], children: new Map() })
+
+function pathTree(table: RouteTable): PathNode {
+  const root = emptyNode('/')
+  const nodeAt = (path: string) =>
+    path
+      .split('/')
+      .filter(Boolean)
+      .reduce((node, segment) => {
+        const child = node.children.get(segment) ?? emptyNode(segment)
+        node.children.set(segment, child)
+        return child
+      }, root)
+  table.routes.forEach((route) => nodeAt(route.path).routes.push(route))
+  table.unresolved.forEach((mount) => nodeAt(mount.path).mounts.push(mount))
+  return root
+}
+
+function RouteLabel({ route }: { route: TableRoute }) {
+  const { t } = useI18n()
+  return (
+    <>
+      <span className="w-14 text-keyword">{route.method}</span>
+      <span className="text-function">{route.handler ?? t('routeTable.inline')}</span>
+    </>
+  )
+}
+
+const toggleClass = (active: boolean) =>
+  `px-2 py-0.5 rounded text-xs font-mono cursor-pointer transition-colors ${
+    active ? 'bg-type text-editor' : 'text-type border border-type/40 hover:bg-type/10'
+  }`
+
+// Without onRoute the routes are plain text
+function PathBranch({ node, onRoute }: { node: PathNode; onRoute?: (route: TableRoute) => void }) {
+  const { t } = useI18n()
+  return (
+    <details open className="pl-4">
+      <summary className="cursor-pointer text-fg">/{node.segment === '/' ? '' : node.segment}</summary>
+      <ul className="pl-4 space-y-1 my-1">
+        {node.routes.map((route, index) => (
+          <li key={index} className="flex flex-wrap items-center gap-1.5">
+            {onRoute ? (
+              <button
+                onClick={() => onRoute(route)}
+                title={t('routeTable.source', { line: route.line })}
+                className="flex items-center gap-1.5 cursor-pointer hover:underline"
+              >
+                <RouteLabel route={route} />
+              </button>
+            ) : (
+              <span className="flex items-center gap-1.5">
+                <RouteLabel route={route} />
+              </span>
+            )}
+            {route.middleware.map((applied, position) => (
+              <span
+                key={position}
+                title={t('routeTable.pattern', { pattern: applied.pattern })}
+                className="px-1.5 rounded border border-type/40 text-type"
+              >
+                {applied.name ?? t('routeTable.inline')}
+              </span>
+            ))}
+            {route.apps.length > 0 && (
+              <span className="text-muted">{t('routeTable.via', { apps: route.apps.join(' → ') })}</span>
+            )}
+          </li>
+        ))}
+        {node.mounts.map((mount, index) => (
+          <li key={`mount-${index}`} className="text-muted">
+            {t('routeTable.unresolved', { name: mount.name })}
+          </li>
+        ))}
+      </ul>
+      {[...node.children.values()].map((child) => (
+        <PathBranch key={child.segment} node={child} onRoute={onRoute} />
+      ))}
+    </details>
+  )
+}
+
+// The route table of a Hono snippet, read statically and drawn as a path
+// tree, or turned into the App Router files that would serve the same
+// routes. Follows edits to the snippet. Routes link to their line through
+// the hash unless linkLines is off.
+export function RouteTablePanel({ source, linkLines = true }: { source: RouteTableSource; linkLines?: boolean }) {
+  const i18n = useI18n()
+  const { t } = i18n
+  const topic = topics.find(({ id }) => id === source.topic)!
+  const index = source.block ?? 0
+  const snippet = localizeTopic(topic, i18n).sides[source.side].blocks[index]
+  const id = blockId(topic.id, source.side, index)
+  const [code] = useLocalStorage(`snippet:${id}`, snippet.code)
+  // Reading the table takes the TypeScript compiler, so it waits to be asked
+  const [open, setOpen] = useState(false)
+  const [view, setView] = useState<'hono' | 'nextjs'>('hono')
+  const [generated, setGenerated] = useState<Generated | null>(null)
+  const [failed, setFailed] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    import('../migrate').then(
+      ({ fileTree, nextjsFiles, readRouteTable, readSourceFiles }) => {
+        if (cancelled) return
+        const files = readSourceFiles(code)
+        const sources = files.length > 0 ? files : [{ path: 'app.ts', code, line: 1 }]
+        const table = readRouteTable(sources)
+        const routeFiles = nextjsFiles(table)
+        const tree = fileTree(routeFiles.map((file) => ({ path: file.path, note: file.endpoints.join(', ') })))
+        setGenerated({ table, sources, files: routeFiles, tree })
+        setFailed(null)
+      },
+      (error: unknown) => {
+        if (!cancelled) setFailed(error instanceof Error ? error.message : String(error))
+      },
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [open, code])
+
+  // Routes link to their line in the snippet, which switches tabs
+  const showSource = (route: TableRoute) => {
+    const start = generated?.sources.find(({ path }) => path === route.file)?.line ?? 1
+    const line = start - 1 + route.line
+    navigate(formatLineHash(id, [line, line]))
+  }
+
+  const download = () => {
+    if (!generated) return
+    const url = URL.createObjectURL(createZip(generated.files))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'app-api.zip'
+    link.click()
+    setTimeout(() => URL.revokeObjectURL(url))
+  }
+
+  return (
+    <div className="mt-4 rounded-lg p-3 bg-panel border border-edge text-xs font-mono">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <button onClick={() => setOpen(!open)} aria-expanded={open} className={toggleClass(open)}>
+          {open ? t('routeTable.close') : t('routeTable.open', { title: snippet.title })}
+        </button>
+        {open && generated && (
+          <div className="flex items-center gap-1.5">
+            <button onClick={() => setView('hono')} aria-pressed={view === 'hono'} className={toggleClass(view === 'hono')}>
+              {t('routeTable.honoView')}
+            </button>
+            <button
+              onClick={() => setView('nextjs')}
+              aria-pressed={view === 'nextjs'}
+              className={toggleClass(view === 'nextjs')}
+            >
+              {t('routeTable.nextjsView')}
+            </button>
+            <button onClick={download} className={toggleClass(false)}>
+              {t('routeTable.download')}
+            </button>
+          </div>
+        )}
+      </div>
+      {open && failed && <p className="mt-3 text-error">{failed}</p>}
+      {open && !generated && !failed && <p className="mt-3 text-muted">{t('routeTable.loading')}</p>}
+      {open && generated && view === 'hono' && (
+        <div className="mt-3">
+          <p className={`${sides.hono.accent} mb-2`}>
+            {t('routeTable.summary', { routes: generated.table.routes.length })}
+          </p>
+          <div className="-ml-4">
+            <PathBranch node={pathTree(generated.table)} onRoute={linkLines ? showSource : undefined} />
+          </div>
+        </div>
+      )}
+      {open && generated && view === 'nextjs' && (
+        <div className="mt-3">
+          <p className={`${sides.nextjs.accent} mb-2`}>
+            {t('routeTable.files', { files: generated.files.length, routes: generated.table.routes.length })}
+          </p>
+          <CodeBlock code={generated.tree} lang="ts" title={t('routeTable.nextjsView')} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+import { useRef, useState } from 'react'
+import type { PlaygroundFile } from '../content/playground'
+import { sideIds, sides } from '../content/sides'
+import type { Side } from '../content/types'
+import { useI18n } from '../hooks/useI18n'
+import { useLocalStorage } from '../hooks/useLocalStorage'
+import { useTypeChecker } from '../hooks/useTypeChecker'
+import { localizePlayground, sideLabel } from '../i18n/content'
+import { rich } from '../i18n/rich'
+import type { CursorInfo, FileDiagnostic } from '../playground/protocol'
+import { CodeBlock } from './CodeBlock'
+
+// Edited files by id; the shared empty object is the stored fallback, so
+// resetting removes the key
+const NO_EDITS: Record<string, string> = {}
+
+const pathOf = (side: Side, file: PlaygroundFile) => `/${side}/${file.path}`
+
+interface EditorProps {
+  file: PlaygroundFile
+  code: string
+  onChange: (code: string) => void
+  diagnostics: FileDiagnostic[] | undefined
+  cursor?: (text: string, offset: number) => Promise<CursorInfo>
+}
+
+function PlaygroundEditor({ file, code, onChange, diagnostics, cursor }: EditorProps) {
+  const { t } = useI18n()
+  const editor = useRef<HTMLTextAreaElement>(null)
+  const [caret, setCaret] = useState<number | null>(null)
+  const [info, setInfo] = useState<CursorInfo | null>(null)
+  // Only the latest request's answer is shown
+  const request = useRef(0)
+
+  const moveCaret = (offset: number) => {
+    setCaret(offset)
+    if (!cursor || !editor.current) return
+    const id = ++request.current
+    cursor(editor.current.value, offset).then(
+      (result) => {
+        if (id === request.current) setInfo(result)
+      },
+      () => {},
+    )
+  }
+
+  const complete = (name: string) => {
+    if (caret === null || !info) return
+    const start = caret - info.prefix
+    onChange(code.slice(0, start) + name + code.slice(caret))
+    const target = editor.current
+    requestAnimationFrame(() => {
+      target?.focus()
+      target?.setSelectionRange(start + name.length, start + name.length)
+    })
+  }
+
+  const errorLines = [...new Set((diagnostics ?? []).map(({ line }) => line))]
+
+  return (
+    <CodeBlock
+      code={code}
+      lang={file.snippet.lang}
+      title={file.snippet.title}
+      onCodeChange={onChange}
+      editorRef={editor}
+      onCaretChange={cursor && moveCaret}
+      regions={errorLines.map((line) => ({ id: `error-${line}`, lines: [line, line], color: 'var(--color-error)' }))}
+    >
+      <div className="border-t border-edge bg-panel px-4 py-2 text-xs font-mono space-y-1">
+        {cursor && (
+          <div className="flex flex-wrap items-center gap-1.5 text-muted">
+            {info?.type ? (
+              <span className="w-full max-h-40 overflow-auto text-fg whitespace-pre-wrap">{info.type}</span>
+            ) : (
+              t('playground.cursorHint')
+            )}
+            {info?.completions.map((name) => (
+              <button
+                key={name}
+                onClick={() => complete(name)}
+                aria-label={t('playground.complete', { name })}
+                className="px-1.5 rounded border border-type/40 text-type hover:bg-type/10 cursor-pointer"
+              >
+                {name}
+              </button>
+            ))}
+          </div>
+        )}
+        {diagnostics?.length === 0 && <p className="text-type">{t('playground.clean')}</p>}
+        {diagnostics?.map((diagnostic, index) => (
+          <p key={index} className="text-error whitespace-pre-wrap">
+            {t('playground.line', { line: diagnostic.line })} TS{diagnostic.code}: {diagnostic.message}
+          </p>
+        ))}
+      </div>
+    </CodeBlock>
+  )
+}
+
+// Both sides' server and client files, editable and type-checked in the
+// browser: on the Hono side the client's types follow the server's route
+// chain, on the Next.js side they are written by hand and never notice
+export function RpcPlayground() {
+  const i18n = useI18n()
+  const { t } = i18n
+  const files = localizePlayground(i18n)
+  const [edits, setEdits] = useLocalStorage('playground', NO_EDITS)
+  const codeOf = (file: PlaygroundFile) => edits[file.id] ?? file.snippet.code
+  const sources = Object.fromEntries(
+    sideIds.flatMap((side) => files[side].map((file) => [pathOf(side, file), codeOf(file)])),
+  )
+  const { state, checking, cursor } = useTypeChecker(sources)
+  const diagnostics = state.status === 'checked' ? state.diagnostics : {}
+
+  const edit = (file: PlaygroundFile, code: string) => {
+    const rest = Object.fromEntries(Object.entries(edits).filter(([id]) => id !== file.id))
+    const next = code === file.snippet.code ? rest : { ...rest, [file.id]: code }
+    setEdits(Object.keys(next).length === 0 ? NO_EDITS : next)
+  }
+  const errorCount = (side: Side) =>
+    files[side].reduce((count, file) => count + (diagnostics[pathOf(side, file)]?.length ?? 0), 0)
+
+  const status =
+    state.status === 'failed'
+      ? t('playground.failed', { message: state.message })
+      : state.status === 'loading'
+        ? t('playground.loading')
+        : checking
+          ? t('playground.checking')
+          : null
+
+  return (
+    <div className="mt-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <p className="text-fg leading-relaxed text-sm">
+          {rich(t('playground.intro'), { code: (chunk) => <code className="text-string">{chunk}</code> })}
+        </p>
+        <div className="flex items-center gap-3 text-xs font-mono">
+          {status && <span className={state.status === 'failed' ? 'text-error' : 'text-muted'}>{status}</span>}
+          {edits !== NO_EDITS && (
+            <button onClick={() => setEdits(NO_EDITS)} className="text-type hover:underline cursor-pointer">
+              {t('snippet.reset')}
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="grid lg:grid-cols-2 gap-4">
+        {sideIds.map((side) => (
+          <div key={side} className="flex flex-col gap-3 min-w-0">
+            <h3 className={`text-sm font-mono ${sides[side].accent}`}>
+              {sideLabel(side, i18n)}
+              {state.status === 'checked' && (
+                <span className="text-muted"> · {t('playground.errors', { count: errorCount(side) })}</span>
+              )}
+            </h3>
+            {files[side].map((file) => (
+              <PlaygroundEditor
+                key={file.id}
+                file={file}
+                code={codeOf(file)}
+                onChange={(code) => edit(file, code)}
+                diagnostics={diagnostics[pathOf(side, file)]}
+                cursor={file.client && ((text, offset) => cursor(pathOf(side, file), text, offset))}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+import { useState } from 'react'
+import { draftToForm, formToDraft } from '../sandbox/request'
+import type { ResponseView, RunConfig } from '../sandbox/types'
+import { RequestFields } from './RequestFields'
+import { ResponseCard } from './ResponseCard'
+
+interface SandboxPanelProps {
+  code: string
+  run: RunConfig
+}
+
+export function SandboxPanel({ code, run }: SandboxPanelProps) {
+  const [form, setForm] = useState(() => draftToForm(run.request))
+  const [result, setResult] = useState<ResponseView | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [pending, setPending] = useState(false)
+
+  const send = async () => {
+    setPending(true)
+    try {
+      // The runtimes (sucrase, hono, zod) only load once someone actually runs a snippet
+      const { runSnippet } = await import('../sandbox')
+      setResult(await runSnippet(code, run, formToDraft(form)))
+      setError(null)
+    } catch (err) {
+      setResult(null)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setPending(false)
+    }
+  }
+
+  return (
+    <div className="border-t border-edge bg-panel p-3 space-y-3 text-xs font-mono">
+      <RequestFields value={form} onChange={setForm} onSend={send} pending={pending} presets={[run.request]} />
+      <ResponseCard result={result} error={error} />
+    </div>
+  )
+}
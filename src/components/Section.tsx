@@ -0,0 +1,15 @@
+import type { ReactNode } from 'react'
+
+export function Section({ id, title, children }: { id: string; title: string; children: ReactNode }) {
+  return (
+    <section id={id} className="py-6 border-b border-edge last:border-b-0 scroll-mt-4">
+      <h2 className="group text-sm font-mono text-keyword mb-4 flex items-center gap-2">
+        <span className="text-muted">//</span> {title}
+        <a href={`#${id}`} aria-label={`Link to ${title}`} className="opacity-0 group-hover:opacity-100 text-muted hover:text-fg">
+          #
+        </a>
+      </h2>
+      {children}
+    </section>
+  )
+}
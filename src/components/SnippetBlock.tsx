@@ -0,0 +1,110 @@
+import { useState } from 'react'
+import type { Region } from '../content/mappings'
+import type { LineRange, Snippet } from '../content/types'
+import { useHashRoute } from '../hooks/useHashRoute'
+import { useI18n } from '../hooks/useI18n'
+import { useLocalStorage } from '../hooks/useLocalStorage'
+import { diffLines } from '../lib/diff'
+import { formatLineHash, navigate } from '../lib/hashRoute'
+import { CodeBlock } from './CodeBlock'
+import { DiffView } from './DiffView'
+import { SandboxPanel } from './SandboxPanel'
+
+interface SnippetBlockProps {
+  id: string
+  snippet: Snippet
+  regions?: Region[]
+  activeRegion?: string | null
+  onRegionHover?: (id: string | null) => void
+  focusLines?: LineRange[]
+  // Clicking a line links it in the hash; off where the hash is not the
+  // page's (presentation slides, the embedded widget)
+  linkLines?: boolean
+}
+
+function ToggleButton({ active, onClick, children }: { active: boolean; onClick: () => void; children: string }) {
+  return (
+    <button
+      onClick={onClick}
+      className={`px-2 py-0.5 rounded text-xs font-mono cursor-pointer transition-colors ${
+        active ? 'bg-type text-editor' : 'text-type border border-type/40 hover:bg-type/10'
+      }`}
+    >
+      {children}
+    </button>
+  )
+}
+
+export function SnippetBlock({
+  id,
+  snippet,
+  regions,
+  activeRegion,
+  onRegionHover,
+  focusLines,
+  linkLines = true,
+}: SnippetBlockProps) {
+  const [code, setCode] = useLocalStorage(`snippet:${id}`, snippet.code)
+  const [editing, setEditing] = useState(false)
+  const [showDiff, setShowDiff] = useState(false)
+  const [running, setRunning] = useState(false)
+  const route = useHashRoute()
+  const { t } = useI18n()
+  const edited = code !== snippet.code
+  const lines = route.block === id ? route.lines : undefined
+
+  // Click links a line, shift-click extends the range from its first line
+  const selectLine = (line: number, extend: boolean) => {
+    const range: [number, number] = extend && lines ? [Math.min(lines[0], line), Math.max(lines[0], line)] : [line, line]
+    navigate(formatLineHash(id, range), { replace: true })
+  }
+
+  const actions = (
+    <div className="flex items-center gap-1.5">
+      {edited && (
+        <>
+          <span className="text-[10px] text-function font-mono">{t('snippet.modified')}</span>
+          <ToggleButton active={showDiff} onClick={() => setShowDiff(!showDiff)}>
+            {t('snippet.diff')}
+          </ToggleButton>
+          <ToggleButton active={false} onClick={() => setCode(snippet.code)}>
+            {t('snippet.reset')}
+          </ToggleButton>
+        </>
+      )}
+      <ToggleButton active={editing} onClick={() => setEditing(!editing)}>
+        {editing ? t('snippet.done') : t('snippet.edit')}
+      </ToggleButton>
+      {snippet.run && (
+        <ToggleButton active={running} onClick={() => setRunning(!running)}>
+          {running ? t('snippet.close') : t('snippet.run')}
+        </ToggleButton>
+      )}
+    </div>
+  )
+
+  return (
+    <CodeBlock
+      code={code}
+      lang={snippet.lang}
+      title={snippet.title}
+      actions={actions}
+      onCodeChange={editing ? setCode : undefined}
+      highlightLines={lines}
+      onLineClick={linkLines ? selectLine : undefined}
+      // Mapped line numbers only hold for the original code
+      regions={edited ? undefined : regions}
+      activeRegion={activeRegion}
+      onRegionHover={onRegionHover}
+      focusLines={edited ? undefined : focusLines}
+      twoslash={snippet.twoslash}
+    >
+      {edited && showDiff && (
+        <div className="border-t border-edge bg-panel p-3">
+          <DiffView lines={diffLines(snippet.code, code)} />
+        </div>
+      )}
+      {running && snippet.run && <SandboxPanel code={code} run={snippet.run} />}
+    </CodeBlock>
+  )
+}
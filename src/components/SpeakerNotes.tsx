@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react'
+import { useI18n } from '../hooks/useI18n'
+import { useNow } from '../hooks/useNow'
+import { isTypingTarget } from '../lib/keyboard'
+import { postPresentationMessage, subscribePresentation } from '../presentation/channel'
+import { formatElapsed, localizeSlides } from '../presentation/slides'
+
+const buttonClass =
+  'px-2 py-1 rounded border border-edge text-fg cursor-pointer disabled:opacity-40 disabled:cursor-default hover:border-type'
+
+// Runs in the window opened from the presenter view and mirrors its slide
+export function SpeakerNotes({ initialIndex }: { initialIndex: number }) {
+  const [index, setIndex] = useState(initialIndex)
+  const [startedAt, setStartedAt] = useState<number | null>(null)
+  const now = useNow()
+  const i18n = useI18n()
+  const slides = localizeSlides(i18n)
+  const slide = slides[index]
+  const next = slides[index + 1]
+
+  useEffect(() => {
+    const unsubscribe = subscribePresentation((message) => {
+      if (message.type !== 'state') return
+      setIndex(message.index)
+      setStartedAt(message.startedAt)
+    })
+    postPresentationMessage({ type: 'hello' })
+    return unsubscribe
+  }, [])
+
+  const go = (target: number) => {
+    if (target >= 0 && target < slides.length) postPresentationMessage({ type: 'go', index: target })
+  }
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (isTypingTarget(event.target)) return
+      if (event.key === 'ArrowRight' || event.key === 'PageDown') go(index + 1)
+      else if (event.key === 'ArrowLeft' || event.key === 'PageUp') go(index - 1)
+      else return
+      event.preventDefault()
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  })
+
+  return (
+    <div className="min-h-screen bg-editor p-6 font-mono text-fg space-y-4">
+      <div className="flex items-center justify-between text-sm text-muted">
+        <span>{i18n.t('notes.slide', { current: index + 1, total: slides.length })}</span>
+        <span className="text-2xl text-type">{startedAt === null ? '--:--' : formatElapsed(now - startedAt)}</span>
+      </div>
+      <h1 className="text-xl text-keyword">{slide.title}</h1>
+      <div className="rounded-lg p-4 bg-panel border border-edge text-lg leading-relaxed whitespace-pre-line font-sans">
+        {slide.notes}
+      </div>
+      <div className="text-sm text-muted">{i18n.t('notes.next', { title: next ? next.title : i18n.t('notes.end') })}</div>
+      <div className="flex gap-2 text-xs">
+        <button onClick={() => go(index - 1)} disabled={index === 0} className={buttonClass}>
+          {i18n.t('notes.previous')}
+        </button>
+        <button onClick={() => go(index + 1)} disabled={!next} className={buttonClass}>
+          {i18n.t('notes.forward')}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+import { useI18n } from '../hooks/useI18n'
+import { themeIds, themes, type ThemePreference } from '../lib/themes'
+
+interface ThemeSwitcherProps {
+  value: ThemePreference
+  onChange: (preference: ThemePreference) => void
+}
+
+export function ThemeSwitcher({ value, onChange }: ThemeSwitcherProps) {
+  const { t } = useI18n()
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as ThemePreference)}
+      aria-label={t('theme.label')}
+      className="bg-transparent text-xs text-muted font-mono hover:text-fg cursor-pointer outline-none"
+    >
+      <option value="system">{t('theme.system')}</option>
+      {themeIds.map((id) => (
+        <option key={id} value={id}>
+          {themes[id].label}
+        </option>
+      ))}
+    </select>
+  )
+}
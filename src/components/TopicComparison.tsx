@@ -0,0 +1,127 @@
+import { useState } from 'react'
+import { focusFor, regionsFor } from '../content/mappings'
+import { frameworks, isSide, sideIds } from '../content/sides'
+import { blockId } from '../content/topics'
+import type { Framework, Topic } from '../content/types'
+import { useI18n } from '../hooks/useI18n'
+import { frameworkDescription, sideLabel } from '../i18n/content'
+import { ComparePanel, type CompareEntry } from './ComparePanel'
+import { MappingLegend } from './MappingLegend'
+import { RouteTablePanel } from './RouteTablePanel'
+import { SnippetBlock } from './SnippetBlock'
+import { WalkthroughPanel } from './WalkthroughPanel'
+
+interface TopicComparisonProps {
+  topic: Topic
+  // Which frameworks to show side by side, in order; 2 to 4 of them
+  columns?: Framework[]
+  // Presentation mode owns the arrow keys, so it turns walkthroughs off
+  allowWalkthrough?: boolean
+  // Line and route links rewrite the hash, so they are off where the hash is
+  // not the page's: a slide (#present/n), or a host page embedding the widget
+  linkLines?: boolean
+}
+
+// Written out for Tailwind to find, by number of columns
+const summaryGrid: Record<number, string> = {
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-2 xl:grid-cols-4',
+}
+const codeGrid: Record<number, string> = {
+  2: 'lg:grid-cols-2',
+  3: 'lg:grid-cols-2 xl:grid-cols-3',
+  4: 'lg:grid-cols-2',
+}
+
+export function TopicComparison({
+  topic,
+  columns = sideIds,
+  allowWalkthrough = true,
+  linkLines = true,
+}: TopicComparisonProps) {
+  const [activeMapping, setActiveMapping] = useState<string | null>(null)
+  const [stepIndex, setStepIndex] = useState<number | null>(null)
+  const i18n = useI18n()
+
+  // Mappings and walkthroughs pair the two sides' lines, so they need both
+  const paired = sideIds.every((side) => columns.includes(side))
+  const steps = allowWalkthrough && paired ? (topic.steps ?? []) : []
+  const step = stepIndex === null ? undefined : steps[stepIndex]
+  // The sandbox runs the two sides only
+  const runnable = columns.filter(isSide).flatMap((side): CompareEntry[] => {
+    const index = topic.sides[side].blocks.findIndex((block) => block.run)
+    const snippet = topic.sides[side].blocks[index]
+    return snippet?.run ? [{ side, id: blockId(topic.id, side, index), snippet, run: snippet.run }] : []
+  })
+  // A framework the topic leaves out has no example yet; one with no blocks
+  // has no counterpart, and its summary says why
+  const placeholder = (framework: Framework) => {
+    const side = topic.sides[framework]
+    if (!side) return i18n.t('comparison.notWritten', { framework: sideLabel(framework, i18n) })
+    return side.blocks.length === 0 ? i18n.t('comparison.notApplicable') : null
+  }
+
+  return (
+    <>
+      {steps.length > 0 && stepIndex === null && (
+        <div className="flex justify-end mb-2">
+          <button
+            onClick={() => setStepIndex(0)}
+            className="px-2 py-0.5 rounded text-xs font-mono cursor-pointer text-type border border-type/40 hover:bg-type/10"
+          >
+            {i18n.t('walkthrough.start')}
+          </button>
+        </div>
+      )}
+
+      <div className={`grid ${summaryGrid[columns.length]} gap-4 mb-4`}>
+        {columns.map((framework) => (
+          <div key={framework} className="rounded-lg p-3 bg-panel border border-edge">
+            <div
+              title={frameworkDescription(framework, i18n)}
+              className={`${frameworks[framework].accent} text-xs font-medium mb-1`}
+            >
+              {sideLabel(framework, i18n)}
+            </div>
+            <p className="text-muted text-sm">{topic.sides[framework]?.summary ?? placeholder(framework)}</p>
+          </div>
+        ))}
+      </div>
+
+      {stepIndex !== null && (
+        <WalkthroughPanel steps={steps} index={stepIndex} onStep={setStepIndex} onExit={() => setStepIndex(null)} />
+      )}
+
+      <div className={`grid ${codeGrid[columns.length]} gap-4`}>
+        {columns.map((framework) => (
+          <div key={framework} className="space-y-4 min-w-0">
+            {placeholder(framework) !== null && (
+              <div className="rounded-lg p-6 border border-dashed border-edge text-center text-faint text-xs font-mono">
+                {placeholder(framework)}
+              </div>
+            )}
+            {topic.sides[framework]?.blocks.map((block, index) => (
+              <SnippetBlock
+                key={index}
+                id={blockId(topic.id, framework, index)}
+                snippet={block}
+                regions={regionsFor(topic, framework, index)}
+                activeRegion={activeMapping}
+                onRegionHover={setActiveMapping}
+                focusLines={step && focusFor(step, framework, index)}
+                linkLines={linkLines}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {paired && <MappingLegend topic={topic} active={activeMapping} onActivate={setActiveMapping} />}
+
+      {topic.routeTable && <RouteTablePanel source={topic.routeTable} linkLines={linkLines} />}
+
+      {runnable.length === 2 && <ComparePanel entries={[runnable[0], runnable[1]]} />}
+    </>
+  )
+}
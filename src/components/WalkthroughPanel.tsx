@@ -0,0 +1,56 @@
+import { useEffect } from 'react'
+import type { WalkthroughStep } from '../content/types'
+import { useI18n } from '../hooks/useI18n'
+import { isTypingTarget } from '../lib/keyboard'
+
+interface WalkthroughPanelProps {
+  steps: readonly WalkthroughStep[]
+  index: number
+  onStep: (index: number) => void
+  onExit: () => void
+}
+
+const buttonClass =
+  'px-2 py-0.5 rounded border border-edge text-fg cursor-pointer disabled:opacity-40 disabled:cursor-default hover:border-type'
+
+export function WalkthroughPanel({ steps, index, onStep, onExit }: WalkthroughPanelProps) {
+  const { t } = useI18n()
+  const step = steps[index]
+  const hasPrevious = index > 0
+  const hasNext = index < steps.length - 1
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (isTypingTarget(event.target)) return
+      if (event.key === 'ArrowRight' && hasNext) onStep(index + 1)
+      else if (event.key === 'ArrowLeft' && hasPrevious) onStep(index - 1)
+      else if (event.key === 'Escape') onExit()
+      else return
+      event.preventDefault()
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [index, hasNext, hasPrevious, onStep, onExit])
+
+  return (
+    <div className="sticky top-2 z-10 mb-4 rounded-lg p-3 bg-panel border border-type/50 shadow-lg text-sm">
+      <div className="flex items-center justify-between gap-2 mb-1 text-xs font-mono">
+        <span className="text-type">
+          {t('walkthrough.step', { current: index + 1, total: steps.length, title: step.title })}
+        </span>
+        <div className="flex gap-1.5">
+          <button onClick={() => onStep(index - 1)} disabled={!hasPrevious} className={buttonClass} aria-label={t('walkthrough.previous')}>
+            ←
+          </button>
+          <button onClick={() => onStep(index + 1)} disabled={!hasNext} className={buttonClass} aria-label={t('walkthrough.next')}>
+            →
+          </button>
+          <button onClick={onExit} className={buttonClass}>
+            {t('walkthrough.exit')}
+          </button>
+        </div>
+      </div>
+      <p className="text-fg leading-relaxed">{step.text}</p>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+import results from './benchmarks.json'
+
+// Written by `pnpm bench` (scripts/bench); nothing here is typed by hand
+
+export interface RouteTableResult {
+  table: string
+  routes: number
+  // Requests per second, median of the samples
+  hono: number
+  nextjs: number
+}
+
+export interface ColdStartResult {
+  table: string
+  routes: number
+  // Milliseconds to the first response, median of the runs
+  hono: number
+  nextjs: number
+}
+
+export interface BundleResult {
+  entry: string
+  bytes: number
+  gzip: number
+}
+
+export interface BenchmarkResults {
+  generatedAt: string
+  environment: { node: string; platform: string; cpu: string; hono: string }
+  config: { sampleMs: number; samples: number; coldStartRuns: number; syntheticSizes: number[] }
+  throughput: RouteTableResult[]
+  coldStart: ColdStartResult[]
+  bundles: BundleResult[]
+}
+
+export const benchmarks: BenchmarkResults = results
+
+// The table and entry point the "What is Hono?" tiles quote, named as
+// scripts/bench writes them
+export const SITE_TABLE = 'site'
+export const TILE_BUNDLE = 'hono/tiny'
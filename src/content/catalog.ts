@@ -0,0 +1,145 @@
+import type { RequestDraft } from '../sandbox/types'
+import type { Snippet } from './types'
+
+// Runnable examples for the middleware catalog, keyed by entry point name
+// (hono/<name>). Middleware without one still shows up in the catalog; the
+// list itself comes from the installed package.
+
+export function catalogBlockId(name: string): string {
+  return `catalog/${name}`
+}
+
+const example = (name: string, code: string, request: RequestDraft): Snippet => ({
+  code,
+  lang: 'typescript',
+  title: `hono/${name}`,
+  run: { runtime: 'hono', request },
+})
+
+const get = (path: string, headers: Record<string, string> = {}): RequestDraft => ({ method: 'GET', path, headers, body: '' })
+
+export const middlewareExamples: Record<string, Snippet> = {
+  'basic-auth': example(
+    'basic-auth',
+    `import { Hono } from 'hono'
+import { basicAuth } from 'hono/basic-auth'
+
+const app = new Hono()
+
+app.use('/admin/*', basicAuth({ username: 'admin', password: 'secret' }))
+app.get('/admin/stats', (c) => c.json({ users: 2 }))`,
+    get('/admin/stats', { authorization: 'Basic YWRtaW46c2VjcmV0' }),
+  ),
+  'bearer-auth': example(
+    'bearer-auth',
+    `import { Hono } from 'hono'
+import { bearerAuth } from 'hono/bearer-auth'
+
+const app = new Hono()
+
+app.use('/api/*', bearerAuth({ token: 'demo-token' }))
+app.get('/api/users', (c) => c.json({ users: [] }))`,
+    get('/api/users', { authorization: 'Bearer demo-token' }),
+  ),
+  'body-limit': example(
+    'body-limit',
+    `import { Hono } from 'hono'
+import { bodyLimit } from 'hono/body-limit'
+
+const app = new Hono()
+
+app.post(
+  '/api/posts',
+  bodyLimit({ maxSize: 32, onError: (c) => c.json({ error: 'Payload too large' }, 413) }),
+  async (c) => c.json({ created: await c.req.json() }, 201),
+)`,
+    {
+      method: 'POST',
+      path: '/api/posts',
+      headers: { 'content-type': 'application/json' },
+      body: '{"title":"A post title that is longer than the limit"}',
+    },
+  ),
+  cors: example(
+    'cors',
+    `import { Hono } from 'hono'
+import { cors } from 'hono/cors'
+
+const app = new Hono()
+
+app.use('/api/*', cors({ origin: 'https://example.com' }))
+app.get('/api/users', (c) => c.json({ users: [] }))`,
+    get('/api/users', { origin: 'https://example.com' }),
+  ),
+  etag: example(
+    'etag',
+    `import { Hono } from 'hono'
+import { etag } from 'hono/etag'
+
+const app = new Hono()
+
+app.use('/api/*', etag())
+app.get('/api/users', (c) => c.json({ users: [] }))`,
+    get('/api/users'),
+  ),
+  'pretty-json': example(
+    'pretty-json',
+    `import { Hono } from 'hono'
+import { prettyJSON } from 'hono/pretty-json'
+
+const app = new Hono()
+
+app.use(prettyJSON())
+app.get('/api/users', (c) => c.json({ users: [{ id: '1', name: 'Ada' }] }))`,
+    get('/api/users?pretty'),
+  ),
+  'request-id': example(
+    'request-id',
+    `import { Hono } from 'hono'
+import { requestId } from 'hono/request-id'
+
+const app = new Hono()
+
+app.use(requestId())
+app.get('/api/users', (c) => c.json({ users: [], requestId: c.get('requestId') }))`,
+    get('/api/users'),
+  ),
+  'secure-headers': example(
+    'secure-headers',
+    `import { Hono } from 'hono'
+import { secureHeaders } from 'hono/secure-headers'
+
+const app = new Hono()
+
+app.use(secureHeaders())
+app.get('/api/users', (c) => c.json({ users: [] }))`,
+    get('/api/users'),
+  ),
+  timing: example(
+    'timing',
+    `import { Hono } from 'hono'
+import { startTime, endTime, timing } from 'hono/timing'
+
+const app = new Hono()
+
+app.use(timing())
+app.get('/api/users', async (c) => {
+  startTime(c, 'db')
+  const users = await Promise.resolve([])
+  endTime(c, 'db')
+  return c.json({ users })
+})`,
+    get('/api/users'),
+  ),
+  'trailing-slash': example(
+    'trailing-slash',
+    `import { Hono } from 'hono'
+import { trimTrailingSlash } from 'hono/trailing-slash'
+
+const app = new Hono({ strict: true })
+
+app.use(trimTrailingSlash())
+app.get('/api/users', (c) => c.json({ users: [] }))`,
+    get('/api/users/'),
+  ),
+}
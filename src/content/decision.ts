@@ -0,0 +1,209 @@
+import type { Side } from './types'
+
+// The questionnaire at the end of the page. Each answer adds points to one
+// or both sides; the side with more wins unless it leads by TIE_MARGIN
+// points or fewer. Weights are data so changing one is a one-line diff, and
+// the scenarios below say what the model has to keep recommending: the
+// build fails when a weight change flips one of them (plugins/decision-check.ts).
+
+export interface DecisionOption {
+  id: string
+  label: string
+  weights: Partial<Record<Side, number>>
+  // Why the answer counts for the side it weighs on
+  reason: string
+  // Hash targets that back the reason: a comparison tab or a section
+  links?: string[]
+}
+
+export interface DecisionQuestion {
+  id: string
+  question: string
+  options: DecisionOption[]
+}
+
+export interface DecisionScenario {
+  name: string
+  answers: Record<string, string>
+  expected: Side | 'either'
+}
+
+export const TIE_MARGIN = 1
+
+export const decisionQuestions: DecisionQuestion[] = [
+  {
+    id: 'endpoints',
+    question: 'How many endpoints will the API have?',
+    options: [
+      {
+        id: 'few',
+        label: 'A handful (under 10)',
+        weights: { nextjs: 2 },
+        reason: 'A few files under app/api are easy to follow, and there is no router to learn.',
+        links: ['structure'],
+      },
+      {
+        id: 'some',
+        label: '10 to 30',
+        weights: { hono: 1 },
+        reason: 'Past a dozen files, one place that lists every route starts to pay off.',
+        links: ['routing'],
+      },
+      {
+        id: 'many',
+        label: 'More than 30',
+        weights: { hono: 3 },
+        reason: 'Dozens of route files are hard to survey; a route table keeps them in one place and route() groups them.',
+        links: ['structure', 'routing'],
+      },
+    ],
+  },
+  {
+    id: 'middleware',
+    question: 'What has to run before the handlers?',
+    options: [
+      {
+        id: 'none',
+        label: 'Nothing shared',
+        weights: { nextjs: 2 },
+        reason: 'Without shared logic, every Route Handler can stand on its own.',
+      },
+      {
+        id: 'auth',
+        label: 'An auth check on some routes',
+        weights: { hono: 2 },
+        reason: 'Route Handlers repeat the auth check in every file; Hono registers it once for a path pattern.',
+        links: ['auth'],
+      },
+      {
+        id: 'layers',
+        label: 'Several layers: logging, CORS, rate limits, auth',
+        weights: { hono: 3 },
+        reason: 'Middleware that composes in a known order is what Hono is built around; middleware.ts only matches paths.',
+        links: ['middleware', 'catalog'],
+      },
+    ],
+  },
+  {
+    id: 'client',
+    question: 'Does the frontend need a typed API client?',
+    options: [
+      {
+        id: 'none',
+        label: 'No, Server Actions and fetch are enough',
+        weights: { nextjs: 1 },
+        reason: 'Without a separate client there are no request and response types to share.',
+      },
+      {
+        id: 'typed',
+        label: 'Yes, typed from the server code',
+        weights: { hono: 3 },
+        reason: 'Hono RPC derives the client from the route chain, with no code generation.',
+        links: ['rpc'],
+      },
+    ],
+  },
+  {
+    id: 'runtime',
+    question: 'Where does the API have to run?',
+    options: [
+      {
+        id: 'nextjs',
+        label: 'Only inside this Next.js app',
+        weights: { nextjs: 1 },
+        reason: 'An API that never leaves Next.js needs nothing beyond its own conventions.',
+      },
+      {
+        id: 'edge',
+        label: 'Also on Cloudflare Workers, Deno or Bun',
+        weights: { hono: 2 },
+        reason: 'Hono only uses Web Standard Request and Response, so the same app runs on any of them.',
+        links: ['hono'],
+      },
+      {
+        id: 'split',
+        label: 'It may become a separate service',
+        weights: { hono: 2 },
+        reason: 'A Hono app can move out of the catch-all into its own server without rewriting a route.',
+        links: ['structure', 'migrate'],
+      },
+    ],
+  },
+  {
+    id: 'team',
+    question: 'What does the team already know?',
+    options: [
+      {
+        id: 'nextjs',
+        label: 'Next.js, but not Hono',
+        weights: { nextjs: 2 },
+        reason: 'File conventions the team already knows cost nothing to adopt.',
+      },
+      {
+        id: 'express',
+        label: 'Express or a similar router',
+        weights: { hono: 1 },
+        reason: 'app.get(), use() and route() read the same as in Express.',
+        links: ['routing'],
+      },
+      {
+        id: 'both',
+        label: 'Both',
+        weights: {},
+        reason: 'No learning cost either way.',
+      },
+    ],
+  },
+  {
+    id: 'errors',
+    question: 'How uniform do error responses have to be?',
+    options: [
+      {
+        id: 'loose',
+        label: 'Each endpoint decides',
+        weights: { nextjs: 1 },
+        reason: 'A try/catch in the handler is all an endpoint with its own error format needs.',
+      },
+      {
+        id: 'uniform',
+        label: 'One format everywhere',
+        weights: { hono: 2 },
+        reason: 'app.onError() gives every route the same error body; Route Handlers need a try/catch per file.',
+        links: ['error'],
+      },
+    ],
+  },
+]
+
+export const decisionScenarios: DecisionScenario[] = [
+  {
+    name: 'Prototype inside a Next.js app',
+    answers: { endpoints: 'few', middleware: 'none', client: 'none', runtime: 'nextjs', team: 'nextjs', errors: 'loose' },
+    expected: 'nextjs',
+  },
+  {
+    name: 'Product API with a typed frontend',
+    answers: { endpoints: 'many', middleware: 'layers', client: 'typed', errors: 'uniform' },
+    expected: 'hono',
+  },
+  {
+    name: 'Small API that wants a typed client',
+    answers: { endpoints: 'few', client: 'typed' },
+    expected: 'either',
+  },
+  {
+    name: 'Growing API, team new to Hono',
+    answers: { endpoints: 'some', middleware: 'auth', client: 'none', team: 'nextjs' },
+    expected: 'either',
+  },
+  {
+    name: 'API that will move to Workers',
+    answers: { endpoints: 'some', runtime: 'edge', team: 'both' },
+    expected: 'hono',
+  },
+  {
+    name: 'Shared auth alone',
+    answers: { middleware: 'auth' },
+    expected: 'hono',
+  },
+]
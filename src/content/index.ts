@@ -0,0 +1,39 @@
+import { localizeMigration, localizePlayground, localizeRpc, localizeTopic } from '../i18n/content'
+import { localeIds, type Locale } from '../i18n/locales'
+import { getTranslator } from '../i18n/translator'
+import { catalogBlockId, middlewareExamples } from './catalog'
+import { frameworkIds, sideIds } from './sides'
+import { blockId, topics } from './topics'
+import type { Snippet } from './types'
+
+export interface SnippetSource {
+  // Block id, as in links and stored edits
+  id: string
+  snippet: Snippet
+}
+
+// Every snippet the page can show, per locale (translated comments change the
+// code); the build highlights and type-checks each one up front
+export const snippetsByLocale = Object.fromEntries(
+  localeIds.map((locale): [Locale, SnippetSource[]] => {
+    const translator = getTranslator(locale)
+    const { server, client } = localizeRpc(translator)
+    const playground = localizePlayground(translator)
+    return [
+      locale,
+      [
+        ...topics.flatMap((topic) => {
+          const { sides } = localizeTopic(topic, translator)
+          return frameworkIds.flatMap((framework) =>
+            (sides[framework]?.blocks ?? []).map((snippet, index) => ({ id: blockId(topic.id, framework, index), snippet })),
+          )
+        }),
+        { id: 'rpc/server', snippet: server },
+        { id: 'rpc/client', snippet: client },
+        ...Object.entries(middlewareExamples).map(([name, snippet]) => ({ id: catalogBlockId(name), snippet })),
+        ...sideIds.flatMap((side) => playground[side].map(({ id, snippet }) => ({ id, snippet }))),
+        { id: 'migrate/example', snippet: localizeMigration(translator) },
+      ],
+    ]
+  }),
+) as Record<Locale, SnippetSource[]>
@@ -0,0 +1,36 @@
+import type { Framework, LineRange, Topic, WalkthroughStep } from './types'
+
+export interface Region {
+  id: string
+  lines: LineRange
+  color: string
+}
+
+const palette = [
+  'var(--color-control)',
+  'var(--color-function)',
+  'var(--color-string)',
+  'var(--color-variable)',
+  'var(--color-number)',
+  'var(--color-regexp)',
+]
+
+export function mappingColor(topic: Topic, mappingId: string): string {
+  const index = topic.mappings?.findIndex((mapping) => mapping.id === mappingId) ?? -1
+  return palette[Math.max(index, 0) % palette.length]
+}
+
+// Regions of one block, colored by their mapping so both sides match
+export function regionsFor(topic: Topic, side: Framework, block: number): Region[] {
+  return (topic.mappings ?? []).flatMap((mapping, index) =>
+    mapping.regions
+      .filter((region) => region.side === side && (region.block ?? 0) === block)
+      .map((region) => ({ id: mapping.id, lines: region.lines, color: palette[index % palette.length] })),
+  )
+}
+
+// Lines of one block a walkthrough step keeps in focus; an empty list dims
+// the whole block
+export function focusFor(step: WalkthroughStep, side: Framework, block: number): LineRange[] {
+  return step.focus.filter((region) => region.side === side && (region.block ?? 0) === block).map((region) => region.lines)
+}
@@ -0,0 +1,80 @@
+import type { Snippet } from './types'
+
+// What the migration assistant starts with: a small App Router API, one
+// `// path.ts` header per file, with the repeated auth check of the
+// Authentication topic, a dynamic segment, a catch-all and segment config
+const exampleCode = `// lib/auth.ts
+export async function verifyAuth(request: Request) {
+  const token = request.headers.get('authorization')
+  if (!token) throw new Error('Unauthorized')
+  return { userId: '123' }
+}
+
+// app/api/users/route.ts
+import { verifyAuth } from '@/lib/auth'
+
+export const runtime = 'nodejs'
+
+export async function GET(request: Request) {
+  try {
+    const { userId } = await verifyAuth(request)
+    return Response.json({ users: [], userId })
+  } catch {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+}
+
+// app/api/posts/route.ts
+import { verifyAuth } from '@/lib/auth'
+
+export async function GET(request: Request) {
+  try {
+    const { userId } = await verifyAuth(request)
+    return Response.json({ posts: [], userId })
+  } catch {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { userId } = await verifyAuth(request)
+    const { title } = await request.json()
+    return Response.json({ created: true, title, userId }, { status: 201 })
+  } catch {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+}
+
+// app/api/posts/[id]/route.ts
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const fields = new URL(request.url).searchParams.get('fields')
+  return Response.json({ id, title: 'Post Title', fields })
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  return new Response(null, { status: 204, headers: { 'x-deleted': id } })
+}
+
+// app/api/docs/[...slug]/route.ts
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ slug: string[] }> }
+) {
+  const { slug } = await params
+  return Response.json({ path: slug.join('/') })
+}`
+
+export const migrationExample: Snippet = {
+  code: exampleCode,
+  lang: 'typescript',
+  title: 'Route Handlers to convert',
+}
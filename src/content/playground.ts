@@ -0,0 +1,89 @@
+import { honoRpcServerCode } from './rpc'
+import type { Side, Snippet } from './types'
+
+// Starting files of the RPC playground. Each side is its own little project,
+// type-checked in the browser as the reader edits it; `path` is where the
+// file sits in that project.
+
+export interface PlaygroundFile {
+  id: string
+  path: string
+  snippet: Snippet
+  // Whether the file gets type-at-cursor and completions
+  client?: true
+}
+
+const honoClientCode = `// client.ts
+import { hc } from 'hono/client'
+import type { AppRoutes } from './server'
+
+const client = hc<AppRoutes>('http://localhost:3000/api/')
+
+const res = await client.posts.$post({
+  json: { title: 'Hello', body: 'World' },
+})
+if (res.ok) {
+  const created = await res.json()
+  console.log(created.title)
+}
+
+// Try adding a field to postSchema in server.ts: the call above
+// fails to compile until it sends the field too`
+
+const nextjsRouteCode = `// app/api/posts/route.ts
+import { z } from 'zod'
+
+const postSchema = z.object({
+  title: z.string().min(1),
+  body: z.string(),
+})
+
+export async function POST(request: Request) {
+  const parsed = postSchema.safeParse(await request.json())
+  if (!parsed.success) {
+    return Response.json({ error: parsed.error.issues }, { status: 400 })
+  }
+  const { title, body } = parsed.data
+  return Response.json({ created: true, title, body }, { status: 201 })
+}`
+
+const nextjsClientCode = `// lib/api.ts
+// Hand-written copies of what the route accepts and returns
+export interface CreatePostInput {
+  title: string
+  body: string
+}
+
+export interface CreatePostResponse {
+  created: boolean
+  title: string
+  body: string
+}
+
+export async function createPost(input: CreatePostInput): Promise<CreatePostResponse> {
+  const res = await fetch('/api/posts', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(input),
+  })
+  if (!res.ok) throw new Error(\`HTTP \${res.status}\`)
+  // Nothing checks that the route still returns this shape
+  return res.json()
+}`
+
+const file = (id: string, path: string, code: string, title: string): PlaygroundFile => ({
+  id: `playground/${id}`,
+  path,
+  snippet: { code, lang: 'typescript', title },
+})
+
+export const playgroundFiles: Record<Side, PlaygroundFile[]> = {
+  nextjs: [
+    file('nextjs/route', 'app/api/posts/route.ts', nextjsRouteCode, 'Route Handler'),
+    { ...file('nextjs/api', 'lib/api.ts', nextjsClientCode, 'Client with hand-written types'), client: true },
+  ],
+  hono: [
+    file('hono/server', 'server.ts', honoRpcServerCode, 'Server'),
+    { ...file('hono/client', 'client.ts', honoClientCode, 'Client (hc<AppRoutes>)'), client: true },
+  ],
+}
@@ -0,0 +1,85 @@
+import type { Snippet } from './types'
+
+export const honoRpcServerCode = `// server.ts
+import { Hono } from 'hono'
+import { zValidator } from '@hono/zod-validator'
+import { z } from 'zod'
+
+const app = new Hono()
+
+const postSchema = z.object({
+  title: z.string().min(1),
+  body: z.string(),
+})
+
+const routes = app
+  .get('/posts', (c) => c.json({ posts: [] as { id: string; title: string }[] }))
+  .post('/posts', 
+    zValidator('json', postSchema),
+    (c) => {
+      const { title, body } = c.req.valid('json')
+      return c.json({ created: true, title, body }, 201)
+    }
+  )
+  .get('/posts/:id', (c) => {
+    const id = c.req.param('id')
+    return c.json({ id, title: 'Post Title', body: 'Content' })
+  })
+
+// Export type for client
+export type AppRoutes = typeof routes
+export default app`
+
+const honoRpcClientCode = `// client.ts (in frontend or another project)
+import { hc } from 'hono/client'
+import type { AppRoutes } from './server'
+
+// Create type-safe client
+const client = hc<AppRoutes>('http://localhost:3000/api/')
+
+// Full TypeScript support
+const response = await client.posts.$get()
+const data = await response.json()
+//    ^?
+
+// Type-safe POST with validation
+const createRes = await client.posts.$post({
+  json: {
+    title: 'Hello',
+    body: 'World',
+  }
+})
+
+// Auto-completion for all routes
+const post = await client.posts[':id'].$get({
+  param: { id: '123' }
+})
+
+// Compile-time error for wrong params
+// @errors: 2353
+const wrong = await client.posts[':id'].$get({
+  param: { slug: '123' }
+})`
+
+export const rpcServer: Snippet = {
+  code: honoRpcServerCode,
+  lang: 'typescript',
+  title: 'Server (with type export)',
+  twoslash: true,
+  run: {
+    runtime: 'hono',
+    request: {
+      method: 'POST',
+      path: '/posts',
+      headers: { 'content-type': 'application/json' },
+      body: '{\n  "title": "Hello",\n  "body": "World"\n}',
+    },
+  },
+}
+
+export const rpcClient: Snippet = {
+  code: honoRpcClientCode,
+  lang: 'typescript',
+  title: 'Client (type-safe calls)',
+  twoslash: true,
+}
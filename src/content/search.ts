@@ -0,0 +1,58 @@
+import { localizeRpc, localizeSection, localizeTopic, sideLabel, type Localizer } from '../i18n/content'
+import { localeIds, type Locale } from '../i18n/locales'
+import { getTranslator } from '../i18n/translator'
+import { catalogBlockId, middlewareExamples } from './catalog'
+import { sectionTexts } from './sections'
+import { frameworkIds } from './sides'
+import { blockId, topics } from './topics'
+
+export type SearchKind = 'section' | 'topic' | 'summary' | 'code'
+
+export interface SearchDocument {
+  kind: SearchKind
+  // Where a result leads, as a page hash; code results add their line
+  hash: string
+  // The section, tab or block the text belongs to; empty for sections
+  context: string
+  // Code is searched and shown line by line
+  text: string
+}
+
+function searchDocuments(l: Localizer): SearchDocument[] {
+  const sections = Object.fromEntries(sectionTexts.map((section) => [section.id, localizeSection(section, l).title]))
+  const code = (id: string, context: string, text: string): SearchDocument => ({ kind: 'code', hash: `#${id}`, context, text })
+  const { server, client } = localizeRpc(l)
+
+  return [
+    ...sectionTexts.map(({ id }): SearchDocument => ({ kind: 'section', hash: `#${id}`, context: '', text: sections[id] })),
+    ...topics.flatMap((source) => {
+      const topic = localizeTopic(source, l)
+      const text = topic.label === topic.title ? topic.label : `${topic.label}: ${topic.title}`
+      return [
+        { kind: 'topic', hash: `#${topic.id}`, context: sections.comparison, text } satisfies SearchDocument,
+        ...frameworkIds.flatMap((framework) => {
+          const side = topic.sides[framework]
+          if (!side) return []
+          const context = `${topic.label} · ${sideLabel(framework, l)}`
+          return [
+            { kind: 'summary', hash: `#${topic.id}/${framework}`, context, text: side.summary } satisfies SearchDocument,
+            ...side.blocks.map((block, index) =>
+              code(blockId(topic.id, framework, index), `${topic.label} · ${block.title}`, block.code),
+            ),
+          ]
+        }),
+      ]
+    }),
+    code('rpc/server', `${sections.rpc} · ${server.title}`, server.code),
+    code('rpc/client', `${sections.rpc} · ${client.title}`, client.code),
+    ...Object.entries(middlewareExamples).map(([name, snippet]) =>
+      code(catalogBlockId(name), `${sections.catalog} · ${snippet.title}`, snippet.code),
+    ),
+  ]
+}
+
+// What the command palette searches, per locale; plugins/search-index.ts
+// builds it once and ships each locale as its own chunk
+export const searchIndexByLocale = Object.fromEntries(
+  localeIds.map((locale) => [locale, searchDocuments(getTranslator(locale))]),
+) as Record<Locale, SearchDocument[]>
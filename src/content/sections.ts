@@ -0,0 +1,53 @@
+// Page sections in order; the components that render them are registered in
+// src/sections, the text here is what translations key on
+export interface SectionText {
+  id: string
+  title: string
+  // Speaker notes for presentation mode
+  notes: string
+}
+
+export const sectionTexts = [
+  {
+    id: 'overview',
+    title: 'Overview',
+    notes: 'Two ways to build an API inside a Next.js app: one Route Handler file per endpoint, or one catch-all Route Handler that hands every request to Hono. Both deploy the same way.',
+  },
+  {
+    id: 'hono',
+    title: 'What is Hono?',
+    notes: 'Hono is a small router built on Web Standard Request/Response, so it runs inside a Route Handler unchanged. It only runs on the server, so pages ship no extra JavaScript.',
+  },
+  {
+    id: 'benchmarks',
+    title: 'Benchmarks',
+    notes: 'Every number here is produced by pnpm bench in this repo. Mention the caveat: the Next.js side is an emulation of App Router matching, and requests never leave the process.',
+  },
+  {
+    id: 'comparison',
+    title: 'Detailed Comparison',
+    notes: 'Walk through each topic side by side.',
+  },
+  {
+    id: 'catalog',
+    title: 'Built-in Middleware',
+    notes: 'This list is generated at build time from the installed hono package, so it follows version bumps on its own. The ones with an example run right here on the page.',
+  },
+  {
+    id: 'rpc',
+    title: 'Hono RPC - Type-Safe API Client',
+    notes: 'The server exports the type of its route chain; hc<AppRoutes> turns it into a typed client. No code generation and no hand-written response types.',
+  },
+  {
+    id: 'migrate',
+    title: 'Migration Assistant',
+    notes: 'Paste existing Route Handlers as they are and get back a Hono catch-all that registers the same handlers. Point out how the auth check repeated in every file turns into one middleware.',
+  },
+  {
+    id: 'summary',
+    title: 'Summary',
+    notes: 'Route Handlers are fine for a handful of endpoints. Reach for Hono once you need shared middleware, a global error format or a typed client.',
+  },
+] as const satisfies readonly SectionText[]
+
+export type SectionId = (typeof sectionTexts)[number]['id']
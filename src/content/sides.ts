@@ -0,0 +1,54 @@
+import type { Framework, Side } from './types'
+
+export interface FrameworkInfo {
+  label: string
+  accent: string
+  description: string
+}
+
+export const frameworks: Record<Framework, FrameworkInfo> = {
+  nextjs: {
+    label: 'Next.js Route Handler',
+    accent: 'text-keyword',
+    description: 'File-based API routes of the Next.js App Router',
+  },
+  hono: {
+    label: 'Hono Catch-All',
+    accent: 'text-type',
+    description: 'A Web Standard router inside one catch-all Route Handler',
+  },
+  express: {
+    label: 'Express',
+    accent: 'text-function',
+    description: 'The long-standing Node.js router, with (req, res, next) middleware',
+  },
+  elysia: {
+    label: 'Elysia',
+    accent: 'text-control',
+    description: 'A Bun-first framework with schema validation and end-to-end types',
+  },
+  trpc: {
+    label: 'tRPC',
+    accent: 'text-variable',
+    description: 'Typed procedures instead of REST routes, called through a typed client',
+  },
+}
+
+// Picker and column order
+export const frameworkIds = Object.keys(frameworks) as Framework[]
+
+export const sides: Record<Side, FrameworkInfo> = frameworks
+
+// How many frameworks the comparison shows side by side
+export const MIN_COLUMNS = 2
+export const MAX_COLUMNS = 4
+
+export const sideIds: Side[] = ['nextjs', 'hono']
+
+export function isFramework(id: unknown): id is Framework {
+  return typeof id === 'string' && id in frameworks
+}
+
+export function isSide(id: Framework): id is Side {
+  return (sideIds as Framework[]).includes(id)
+}
@@ -0,0 +1,221 @@
+import type { Topic } from '../types'
+
+const nextjsAuthCode = `// lib/auth.ts
+export async function verifyAuth(request: Request) {
+  const token = request.headers.get('authorization')
+  if (!token) throw new Error('Unauthorized')
+  return { userId: '123' }
+}
+
+// app/api/users/route.ts
+import { verifyAuth } from '@/lib/auth'
+
+export async function GET(request: Request) {
+  try {
+    const { userId } = await verifyAuth(request)
+    return Response.json({ users: [], userId })
+  } catch {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+}
+
+// app/api/posts/route.ts - Must repeat auth logic
+export async function GET(request: Request) {
+  try {
+    const { userId } = await verifyAuth(request)
+    // ... repeated pattern
+  } catch {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+}`
+
+const honoAuthCode = `// app/api/[[...route]]/route.ts
+import { Hono } from 'hono'
+
+const app = new Hono<{ Variables: { userId: string } }>().basePath('/api')
+
+// Auth middleware - defined once
+app.use('/protected/*', async (c, next) => {
+  const token = c.req.header('authorization')
+  if (!token) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  c.set('userId', '123')  // Store in context
+  await next()
+})
+
+// All protected routes automatically inherit auth
+app.get('/protected/users', (c) => {
+  const userId = c.get('userId')  // Retrieve from context
+  return c.json({ users: [], userId })
+})
+
+app.get('/protected/posts', (c) => {
+  const userId = c.get('userId')
+  // No auth logic needed here
+  return c.json({ posts: [], userId })
+})`
+
+const expressAuthCode = `import express, { type RequestHandler } from 'express'
+
+const app = express()
+
+// Auth middleware - defined once
+const requireAuth: RequestHandler = (req, res, next) => {
+  const token = req.get('authorization')
+  if (!token) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+  res.locals.userId = verifyToken(token)  // Untyped, shared with later handlers
+  next()
+}
+
+app.use('/api/protected', requireAuth)
+
+app.get('/api/protected/users', (_req, res) => {
+  res.json({ users: [], userId: res.locals.userId })
+})`
+
+const elysiaAuthCode = `import { Elysia } from 'elysia'
+
+// Adds userId to the context of every route that uses the plugin
+const auth = new Elysia({ name: 'auth' }).resolve({ as: 'scoped' }, ({ headers, status }) => {
+  const token = headers.authorization
+  if (!token) return status(401, { error: 'Unauthorized' })
+  return { userId: verifyToken(token) }
+})
+
+const app = new Elysia({ prefix: '/api/protected' })
+  .use(auth)
+  .get('/users', ({ userId }) => ({ users: [], userId }))
+  .get('/posts', ({ userId }) => ({ posts: [], userId }))`
+
+const trpcAuthCode = `import { initTRPC, TRPCError } from '@trpc/server'
+
+// The fetch adapter builds the context from each request
+export function createContext({ req }: { req: Request }) {
+  return { token: req.headers.get('authorization') }
+}
+
+const t = initTRPC.context<typeof createContext>().create()
+
+// Every procedure built from this one runs the check first
+const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.token) throw new TRPCError({ code: 'UNAUTHORIZED' })
+  return next({ ctx: { userId: verifyToken(ctx.token) } })
+})
+
+export const appRouter = t.router({
+  users: protectedProcedure.query(({ ctx }) => ({ users: [], userId: ctx.userId })),
+  posts: protectedProcedure.query(({ ctx }) => ({ posts: [], userId: ctx.userId })),
+})`
+
+export const authTopic = {
+  id: 'auth',
+  label: 'Auth Middleware',
+  title: 'Authentication Middleware',
+  sides: {
+    nextjs: {
+      summary: 'Import and call auth function in every route file',
+      blocks: [
+        {
+          code: nextjsAuthCode,
+          lang: 'typescript',
+          title: 'Next.js (Manual Per-Route)',
+          run: {
+            runtime: 'nextjs',
+            request: {
+              method: 'GET',
+              path: '/api/users',
+              headers: { authorization: 'Bearer demo-token' },
+              body: '',
+            },
+          },
+        },
+      ],
+    },
+    hono: {
+      summary: 'Define once as middleware, applies to all matched routes',
+      blocks: [
+        {
+          code: honoAuthCode,
+          lang: 'typescript',
+          title: 'Hono (Middleware Chain)',
+          run: {
+            runtime: 'hono',
+            request: {
+              method: 'GET',
+              path: '/api/protected/users',
+              headers: { authorization: 'Bearer demo-token' },
+              body: '',
+            },
+          },
+        },
+      ],
+    },
+    express: {
+      summary: 'One middleware mounted on a prefix, passing data on res.locals',
+      blocks: [{ code: expressAuthCode, lang: 'typescript', title: 'Express (requireAuth Middleware)' }],
+    },
+    elysia: {
+      summary: 'A scoped resolve() plugin adds typed userId to the routes using it',
+      blocks: [{ code: elysiaAuthCode, lang: 'typescript', title: 'Elysia (Scoped resolve)' }],
+    },
+    trpc: {
+      summary: 'A protected procedure runs the check and extends the typed context',
+      blocks: [{ code: trpcAuthCode, lang: 'typescript', title: 'tRPC (Protected Procedure)' }],
+    },
+  },
+  mappings: [
+    {
+      id: 'check',
+      note: 'The token check is a helper that every route must call in Next.js, and a middleware registered once in Hono.',
+      regions: [
+        { side: 'nextjs', lines: [1, 6] },
+        { side: 'hono', lines: [6, 14] },
+      ],
+    },
+    {
+      id: 'users',
+      note: 'The Next.js handler wraps its own try/catch; the Hono handler only reads userId from the context.',
+      regions: [
+        { side: 'nextjs', lines: [11, 18] },
+        { side: 'hono', lines: [17, 20] },
+      ],
+    },
+    {
+      id: 'posts',
+      note: 'A second route repeats the whole auth pattern in Next.js and none of it in Hono.',
+      regions: [
+        { side: 'nextjs', lines: [20, 28] },
+        { side: 'hono', lines: [22, 26] },
+      ],
+    },
+  ],
+  steps: [
+    {
+      title: 'A shared helper',
+      text: 'Next.js has no per-route middleware for Route Handlers, so auth lives in a helper that throws when the token is missing.',
+      focus: [{ side: 'nextjs', lines: [1, 6] }],
+    },
+    {
+      title: 'Called from every route',
+      text: 'Each handler calls the helper and turns its error into a 401 itself.',
+      focus: [
+        { side: 'nextjs', lines: [11, 18] },
+        { side: 'nextjs', lines: [20, 28] },
+      ],
+    },
+    {
+      title: 'Middleware, defined once',
+      text: 'Hono registers the check once for /protected/*. It can stop the request with a 401 or pass userId on through the context.',
+      focus: [{ side: 'hono', lines: [6, 14] }],
+    },
+    {
+      title: 'Handlers stay focused',
+      text: 'Protected routes read userId from the context and contain no auth code at all.',
+      focus: [{ side: 'hono', lines: [16, 26] }],
+    },
+  ],
+} as const satisfies Topic
@@ -0,0 +1,122 @@
+import type { Topic } from '../types'
+
+const nextjsCorsCode = `// app/api/users/route.ts
+const corsHeaders = {
+  'Access-Control-Allow-Origin': 'https://app.example.com',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+}
+
+// Browsers ask first with a preflight request
+export async function OPTIONS() {
+  return new Response(null, { status: 204, headers: corsHeaders })
+}
+
+export async function GET() {
+  const users = await fetchUsers()
+  return Response.json({ users }, { headers: corsHeaders })
+}
+
+// Every other route file needs both again`
+
+const honoCorsCode = `import { Hono } from 'hono'
+import { cors } from 'hono/cors'
+
+const app = new Hono()
+
+// Answers preflights and adds the headers for every route
+app.use('*', cors({
+  origin: 'https://app.example.com',
+  allowMethods: ['GET', 'POST'],
+  allowHeaders: ['Content-Type', 'Authorization'],
+}))
+
+app.get('/users', async (c) => {
+  const users = await fetchUsers()
+  return c.json({ users })
+})`
+
+// A browser's preflight for a cross-origin POST
+const request = {
+  method: 'OPTIONS',
+  path: '/api/users',
+  headers: { origin: 'https://app.example.com', 'access-control-request-method': 'POST' },
+  body: '',
+}
+
+export const corsTopic = {
+  id: 'cors',
+  label: 'CORS',
+  title: 'Cross-Origin Requests',
+  sides: {
+    nextjs: {
+      summary: 'Headers and an OPTIONS handler in every route file, or in next.config',
+      blocks: [
+        {
+          code: nextjsCorsCode,
+          lang: 'typescript',
+          title: 'Next.js (Per-Route Headers)',
+          run: { runtime: 'nextjs', request },
+        },
+      ],
+    },
+    hono: {
+      summary: 'One cors() middleware covers preflights and responses',
+      blocks: [
+        {
+          code: honoCorsCode,
+          lang: 'typescript',
+          title: 'Hono (cors Middleware)',
+          run: { runtime: 'hono', mount: '/api', request },
+        },
+      ],
+    },
+    trpc: {
+      summary: 'Left to the server or adapter tRPC runs in, which sets the CORS headers',
+      blocks: [],
+    },
+  },
+  mappings: [
+    {
+      id: 'policy',
+      note: 'The same policy: a header object in Next.js, the options of cors() in Hono.',
+      regions: [
+        { side: 'nextjs', lines: [2, 6] },
+        { side: 'hono', lines: [8, 10] },
+      ],
+    },
+    {
+      id: 'preflight',
+      note: 'Next.js needs an OPTIONS export for the preflight; cors() answers it before any route matches.',
+      regions: [
+        { side: 'nextjs', lines: [8, 11] },
+        { side: 'hono', lines: [6, 7] },
+      ],
+    },
+    {
+      id: 'response',
+      note: 'Each Next.js response passes the headers on; Hono handlers do not mention CORS.',
+      regions: [
+        { side: 'nextjs', lines: [13, 16] },
+        { side: 'hono', lines: [13, 16] },
+      ],
+    },
+  ],
+  steps: [
+    {
+      title: 'A policy as headers',
+      text: 'Route Handlers have no CORS option, so the allowed origin, methods and headers are a plain object.',
+      focus: [{ side: 'nextjs', lines: [2, 6] }],
+    },
+    {
+      title: 'Preflight and response',
+      text: 'The file exports OPTIONS for the preflight and adds the headers to every response it returns. Run it to see the 204.',
+      focus: [{ side: 'nextjs', lines: [8, 18] }],
+    },
+    {
+      title: 'One middleware',
+      text: 'cors() answers the preflight itself and adds the headers to whatever the routes return, for every route at once.',
+      focus: [{ side: 'hono', lines: [6, 16] }],
+    },
+  ],
+} as const satisfies Topic
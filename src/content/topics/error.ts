@@ -0,0 +1,223 @@
+import type { Topic } from '../types'
+
+const nextjsErrorCode = `// app/api/users/route.ts
+export async function GET() {
+  try {
+    const users = await fetchUsers()
+    return Response.json({ users })
+  } catch (error) {
+    return Response.json(
+      { message: 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
+
+// app/api/posts/route.ts - Different error format
+export async function GET() {
+  try {
+    const posts = await fetchPosts()
+    return Response.json({ posts })
+  } catch (err) {
+    return Response.json(
+      { error: 'Failed to load', details: (err as Error).message },
+      { status: 500 }
+    )
+  }
+}
+
+// Inconsistent error formats across routes`
+
+const honoErrorCode = `import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+
+const app = new Hono()
+
+// Global error handler - catches ALL errors
+app.onError((err, c) => {
+  if (err instanceof HTTPException) {
+    return err.getResponse()
+  }
+  console.error('Server error:', err)
+  return c.json({
+    error: 'internal_server_error',
+    message: err.message,
+    timestamp: new Date().toISOString()
+  }, 500)
+})
+
+// Throw anywhere - consistent format guaranteed
+app.get('/users/:id', async (c) => {
+  const id = c.req.param('id')
+  if (!id) {
+    throw new HTTPException(400, { message: 'Invalid ID' })
+  }
+  const user = await getUser(id)
+  if (!user) {
+    throw new HTTPException(404, { message: 'User not found' })
+  }
+  return c.json({ user })
+})
+
+// All errors follow the same format`
+
+const expressErrorCode = `import express, { type ErrorRequestHandler } from 'express'
+
+const app = express()
+
+// Express 5 passes rejected promises on to the error handler
+app.get('/users/:id', async (req, res) => {
+  const user = await getUser(req.params.id)
+  if (!user) {
+    throw Object.assign(new Error('User not found'), { status: 404 })
+  }
+  res.json({ user })
+})
+
+// Four parameters make it an error handler; registered last
+const onError: ErrorRequestHandler = (err, _req, res, _next) => {
+  const status = err.status ?? 500
+  if (status === 500) console.error('Server error:', err)
+  res.status(status).json({
+    error: err.message,
+    timestamp: new Date().toISOString()
+  })
+}
+app.use(onError)`
+
+const elysiaErrorCode = `import { Elysia, NotFoundError } from 'elysia'
+
+const app = new Elysia()
+  // Covers the routes registered after it
+  .onError(({ code, error, status }) => {
+    if (code === 'NOT_FOUND') {
+      return status(404, { error: error.message })
+    }
+    console.error('Server error:', error)
+    return status(500, {
+      error: 'internal_server_error',
+      timestamp: new Date().toISOString()
+    })
+  })
+  .get('/users/:id', async ({ params }) => {
+    const user = await getUser(params.id)
+    if (!user) throw new NotFoundError('User not found')
+    return { user }
+  })`
+
+const trpcErrorCode = `import { initTRPC, TRPCError } from '@trpc/server'
+import { z } from 'zod'
+
+// Shapes every error response in one place
+const t = initTRPC.create({
+  errorFormatter({ shape }) {
+    return { ...shape, data: { ...shape.data, timestamp: new Date().toISOString() } }
+  },
+})
+
+export const appRouter = t.router({
+  userById: t.procedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input }) => {
+      const user = await getUser(input.id)
+      // Error codes map to statuses: NOT_FOUND answers 404
+      if (!user) throw new TRPCError({ code: 'NOT_FOUND', message: 'User not found' })
+      return { user }
+    }),
+})`
+
+export const errorTopic = {
+  id: 'error',
+  label: 'Error Handling',
+  title: 'Error Handling',
+  sides: {
+    nextjs: {
+      summary: 'Per-route try/catch, inconsistent formats possible',
+      blocks: [
+        {
+          code: nextjsErrorCode,
+          lang: 'typescript',
+          title: 'Next.js (Inconsistent)',
+          run: {
+            runtime: 'nextjs',
+            fakes: 'failingDb',
+            request: { method: 'GET', path: '/api/posts', headers: {}, body: '' },
+          },
+        },
+      ],
+    },
+    hono: {
+      summary: 'Global error handler, consistent response format',
+      blocks: [
+        {
+          code: honoErrorCode,
+          lang: 'typescript',
+          title: 'Hono (Global Handler)',
+          run: {
+            runtime: 'hono',
+            fakes: 'failingDb',
+            mount: '/api',
+            request: { method: 'GET', path: '/api/users/42', headers: {}, body: '' },
+          },
+        },
+      ],
+    },
+    express: {
+      summary: 'Thrown errors reach one four-parameter handler registered last',
+      blocks: [{ code: expressErrorCode, lang: 'typescript', title: 'Express (Error Handler)' }],
+    },
+    elysia: {
+      summary: 'onError() catches what the routes after it throw',
+      blocks: [{ code: elysiaErrorCode, lang: 'typescript', title: 'Elysia (onError)' }],
+    },
+    trpc: {
+      summary: 'TRPCError codes map to statuses; errorFormatter shapes every error',
+      blocks: [{ code: trpcErrorCode, lang: 'typescript', title: 'tRPC (TRPCError)' }],
+    },
+  },
+  mappings: [
+    {
+      id: 'handler',
+      note: 'Each Next.js route formats its own error response; Hono formats all of them in app.onError.',
+      regions: [
+        { side: 'nextjs', lines: [6, 11] },
+        { side: 'nextjs', lines: [19, 24] },
+        { side: 'hono', lines: [6, 17] },
+      ],
+    },
+    {
+      id: 'happy-path',
+      note: 'Hono handlers throw HTTPException instead of building error responses inline.',
+      regions: [
+        { side: 'nextjs', lines: [3, 5] },
+        { side: 'nextjs', lines: [16, 18] },
+        { side: 'hono', lines: [20, 30] },
+      ],
+    },
+  ],
+  steps: [
+    {
+      title: 'Errors handled per route',
+      text: 'Every Route Handler wraps its work in try/catch and builds its own error body.',
+      focus: [{ side: 'nextjs', lines: [1, 12] }],
+    },
+    {
+      title: 'Formats drift apart',
+      text: 'A second route returns { error, details } where the first returned { message }. Clients now have to handle both.',
+      focus: [
+        { side: 'nextjs', lines: [7, 10] },
+        { side: 'nextjs', lines: [20, 23] },
+      ],
+    },
+    {
+      title: 'One global handler',
+      text: 'app.onError sees every error thrown by any route and decides the response format in one place.',
+      focus: [{ side: 'hono', lines: [6, 17] }],
+    },
+    {
+      title: 'Throw, do not format',
+      text: 'Handlers throw HTTPException with a status and message; the global handler turns it into the response.',
+      focus: [{ side: 'hono', lines: [19, 30] }],
+    },
+  ],
+} as const satisfies Topic
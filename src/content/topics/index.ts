@@ -0,0 +1,41 @@
+import type { Framework, Topic } from '../types'
+import { authTopic } from './auth'
+import { corsTopic } from './cors'
+import { errorTopic } from './error'
+import { middlewareTopic } from './middleware'
+import { openApiTopic } from './openapi'
+import { routingTopic } from './routing'
+import { streamingTopic } from './streaming'
+import { structureTopic } from './structure'
+import { testingTopic } from './testing'
+import { validationTopic } from './validation'
+
+// Tab order follows this list
+export const topics = [
+  structureTopic,
+  routingTopic,
+  authTopic,
+  errorTopic,
+  middlewareTopic,
+  validationTopic,
+  corsTopic,
+  streamingTopic,
+  testingTopic,
+  openApiTopic,
+] as const satisfies readonly Topic[]
+
+export type TopicId = (typeof topics)[number]['id']
+
+export function isTopicId(id: string): id is TopicId {
+  return topics.some((topic) => topic.id === id)
+}
+
+export function getTopic(id: TopicId): Topic {
+  return topics.find((topic) => topic.id === id)!
+}
+
+// Stable address of a block, used for stored edits and links: `auth/hono`,
+// or `auth/hono-2` for a side's second block
+export function blockId(topicId: string, side: Framework, index: number): string {
+  return index === 0 ? `${topicId}/${side}` : `${topicId}/${side}-${index + 1}`
+}
@@ -0,0 +1,119 @@
+import type { Topic } from '../types'
+
+const nextjsMiddlewareCode = `// middleware.ts
+// ⚠️ Next.js middleware is NOT designed for API layer
+// Official docs: "Do not recommend Middleware as sole 
+// method of protecting routes"
+
+// Designed for: redirects, rewrites, page-level auth
+// NOT for: API authentication, business logic
+
+export function middleware(request: NextRequest) {
+  const path = request.nextUrl.pathname
+  
+  // ✅ Good: Page-level redirects
+  if (path.startsWith('/dashboard')) {
+    const session = request.cookies.get('session')
+    if (!session) {
+      return NextResponse.redirect('/login')
+    }
+  }
+  return NextResponse.next()
+}
+
+// Exclude API routes - middleware shouldn't touch APIs
+export const config = {
+  matcher: ['/((?!api|_next).*)'],
+}`
+
+const honoMiddlewareCode = `// app/api/[[...route]]/route.ts
+import { Hono } from 'hono'
+
+const app = new Hono<{ Variables: { userId: string } }>().basePath('/api')
+
+// ✅ Hono middleware runs WITHIN your API handler
+// Perfect for: auth, logging, validation, CORS
+
+app.use('/protected/*', async (c, next) => {
+  const token = c.req.header('authorization')
+  if (!token) {
+    return c.json({ error: 'Unauthorized' }, 401)
+  }
+  // Verify token, set user in context
+  c.set('userId', verifyToken(token))
+  await next()
+})
+
+// Protected routes automatically inherit auth
+app.get('/protected/users', (c) => {
+  const userId = c.get('userId')
+  return c.json({ users: [], userId })
+})`
+
+export const middlewareTopic = {
+  id: 'middleware',
+  label: 'Middleware',
+  title: 'Middleware',
+  sides: {
+    nextjs: {
+      summary: 'Designed for pages, NOT suitable for API layer (official docs)',
+      blocks: [
+        { code: nextjsMiddlewareCode, lang: 'typescript', title: 'Next.js Middleware' },
+      ],
+    },
+    hono: {
+      summary: 'Perfect for API auth, logging, CORS, validation',
+      blocks: [
+        {
+          code: honoMiddlewareCode,
+          lang: 'typescript',
+          title: 'Hono Middleware',
+          run: {
+            runtime: 'hono',
+            request: {
+              method: 'GET',
+              path: '/api/protected/users',
+              headers: { authorization: 'Bearer demo-token' },
+              body: '',
+            },
+          },
+        },
+      ],
+    },
+  },
+  mappings: [
+    {
+      id: 'definition',
+      note: 'middleware.ts runs before routing for pages; Hono middleware runs inside the API handler.',
+      regions: [
+        { side: 'nextjs', lines: [9, 20] },
+        { side: 'hono', lines: [10, 17] },
+      ],
+    },
+    {
+      id: 'scope',
+      note: 'Next.js excludes the API with a matcher; Hono scopes middleware with a path pattern.',
+      regions: [
+        { side: 'nextjs', lines: [22, 25] },
+        { side: 'hono', lines: [9, 9] },
+      ],
+    },
+  ],
+  steps: [
+    {
+      title: 'Built for pages',
+      text: 'middleware.ts runs before routing and is meant for redirects, rewrites and page-level checks.',
+      focus: [{ side: 'nextjs', lines: [1, 20] }],
+    },
+    {
+      title: 'Kept away from the API',
+      text: 'The usual matcher excludes /api, so Route Handlers get no middleware at all.',
+      focus: [{ side: 'nextjs', lines: [22, 25] }],
+    },
+    {
+      title: 'Middleware inside the API',
+      text: 'Hono middleware runs within the catch-all handler, scoped by path, and can share values with routes through the context.',
+      focus: [{ side: 'hono', lines: [6, 23] }],
+    },
+  ],
+} as const satisfies Topic
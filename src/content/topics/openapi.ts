@@ -0,0 +1,138 @@
+import type { Topic } from '../types'
+
+const nextjsOpenApiCode = `// app/api/users/[id]/route.ts
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const user = await getUser(id)
+  if (!user) return Response.json({ error: 'Not found' }, { status: 404 })
+  return Response.json({ user })
+}
+
+// app/api/openapi.json/route.ts - Kept in sync by hand
+export async function GET() {
+  return Response.json({
+    openapi: '3.0.0',
+    info: { title: 'Users API', version: '1.0.0' },
+    paths: {
+      '/api/users/{id}': {
+        get: {
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            200: { description: 'The user' },
+            404: { description: 'Not found' },
+          },
+        },
+      },
+    },
+  })
+}`
+
+const honoOpenApiCode = `import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi'
+
+const User = z.object({ id: z.string(), name: z.string() })
+const NotFound = z.object({ error: z.string() })
+
+const getUserRoute = createRoute({
+  method: 'get',
+  path: '/users/{id}',
+  request: { params: z.object({ id: z.string() }) },
+  responses: {
+    200: { description: 'The user', content: { 'application/json': { schema: z.object({ user: User }) } } },
+    404: { description: 'Not found', content: { 'application/json': { schema: NotFound } } },
+  },
+})
+
+const app = new OpenAPIHono().basePath('/api')
+
+// Validated, typed and documented by the same definition
+app.openapi(getUserRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const user = await getUser(id)
+  if (!user) return c.json({ error: 'Not found' }, 404)
+  return c.json({ user }, 200)
+})
+
+// Generated from the routes registered above
+app.doc('/openapi.json', {
+  openapi: '3.0.0',
+  info: { title: 'Users API', version: '1.0.0' },
+})`
+
+const request = { method: 'GET', path: '/api/openapi.json', headers: {}, body: '' }
+
+export const openApiTopic = {
+  id: 'openapi',
+  label: 'OpenAPI',
+  title: 'OpenAPI Documentation',
+  sides: {
+    nextjs: {
+      summary: 'Write the spec separately and keep it in step with the routes',
+      blocks: [
+        {
+          code: nextjsOpenApiCode,
+          lang: 'typescript',
+          title: 'Next.js (Hand-Written Spec)',
+          run: { runtime: 'nextjs', request },
+        },
+      ],
+    },
+    hono: {
+      summary: '@hono/zod-openapi generates the spec from the route definitions',
+      blocks: [
+        {
+          code: honoOpenApiCode,
+          lang: 'typescript',
+          title: 'Hono (@hono/zod-openapi)',
+          run: { runtime: 'hono', request },
+        },
+      ],
+    },
+    trpc: {
+      summary: 'Procedures are not REST paths; clients share the router type instead of a spec',
+      blocks: [],
+    },
+  },
+  mappings: [
+    {
+      id: 'route',
+      note: 'The route itself: a folder and a GET export in Next.js, a createRoute() definition in Hono.',
+      regions: [
+        { side: 'nextjs', lines: [1, 2] },
+        { side: 'hono', lines: [6, 14] },
+      ],
+    },
+    {
+      id: 'handler',
+      note: 'The Hono handler gets its params validated and its responses checked against the definition.',
+      regions: [
+        { side: 'nextjs', lines: [3, 6] },
+        { side: 'hono', lines: [19, 24] },
+      ],
+    },
+    {
+      id: 'spec',
+      note: 'The Next.js spec is a second copy of the route; app.doc() derives it from the first.',
+      regions: [
+        { side: 'nextjs', lines: [9, 26] },
+        { side: 'hono', lines: [26, 30] },
+      ],
+    },
+  ],
+  steps: [
+    {
+      title: 'Routes and spec apart',
+      text: 'Next.js has no route metadata to read, so the spec is written out by hand and served from its own route.',
+      focus: [{ side: 'nextjs', lines: [9, 26] }],
+    },
+    {
+      title: 'A route as a definition',
+      text: 'createRoute() describes the path, params and responses with zod schemas: what the spec needs, in one place.',
+      focus: [{ side: 'hono', lines: [3, 14] }],
+    },
+    {
+      title: 'The spec follows',
+      text: 'app.openapi() validates and types the handler from the definition, and app.doc() serves the spec built from every registered route.',
+      focus: [{ side: 'hono', lines: [16, 30] }],
+    },
+  ],
+} as const satisfies Topic
@@ -0,0 +1,215 @@
+import type { Topic } from '../types'
+
+const nextjsRoutingCode = `// Routing is implicit via file structure
+// Each folder = route segment
+// Each route.ts = endpoint handler
+
+app/
+├── api/
+│   ├── users/
+│   │   ├── route.ts        → /api/users
+│   │   └── [id]/
+│   │       └── route.ts    → /api/users/:id
+│   └── posts/
+│       └── route.ts        → /api/posts
+
+// route.ts exports HTTP methods
+export async function GET(request: Request) { }
+export async function POST(request: Request) { }
+export async function PUT(request: Request) { }
+export async function DELETE(request: Request) { }
+
+// No explicit route registration
+// Routes determined by file location`
+
+const honoRoutingCode = `// app/api/[[...route]]/route.ts
+import { Hono } from 'hono'
+
+const app = new Hono().basePath('/api')
+
+// Explicit, programmatic routing
+app.get('/users', listUsers)
+app.get('/users/:id', getUser)
+app.post('/users', createUser)
+app.put('/users/:id', updateUser)
+app.delete('/users/:id', deleteUser)
+
+// Route groups with shared middleware
+const protectedRoutes = new Hono()
+protectedRoutes.use('*', authMiddleware)
+protectedRoutes.get('/profile', getProfile)
+protectedRoutes.put('/profile', updateProfile)
+
+app.route('/protected', protectedRoutes)
+
+// Mount sub-apps
+import { blogApp } from './blog'
+app.route('/blog', blogApp)
+
+// Full control over routing structure
+export const GET = handle(app)
+export const POST = handle(app)
+export const PUT = handle(app)
+export const DELETE = handle(app)`
+
+const expressRoutingCode = `// src/routes/users.ts
+import { Router } from 'express'
+
+export const usersRouter = Router()
+
+// Paths are relative to where the router is mounted
+usersRouter.get('/', async (_req, res) => {
+  res.json({ users: await fetchUsers() })
+})
+usersRouter.get('/:id', async (req, res) => {
+  res.json({ user: await getUser(req.params.id) })
+})
+
+// src/server.ts
+import express from 'express'
+import { usersRouter } from './routes/users'
+
+const app = express()
+
+// Routers are mounted under a prefix, like Hono sub-apps
+app.use('/api/users', usersRouter)
+
+app.listen(3000)`
+
+const elysiaRoutingCode = `import { Elysia } from 'elysia'
+
+// Each method call registers a route and returns the instance
+const users = new Elysia({ prefix: '/users' })
+  .get('/', async () => ({ users: await fetchUsers() }))
+  .get('/:id', async ({ params }) => ({ user: await getUser(params.id) }))
+
+// Plugins are mounted with use() and keep their prefix
+const app = new Elysia({ prefix: '/api' })
+  .use(users)
+  .listen(3000)
+
+// The chain's type carries every route, for the Eden client
+export type App = typeof app`
+
+const trpcRoutingCode = `// src/server/router.ts
+import { initTRPC } from '@trpc/server'
+import { z } from 'zod'
+
+const t = initTRPC.create()
+
+// Procedures in nested routers instead of paths and methods
+export const appRouter = t.router({
+  users: t.router({
+    list: t.procedure.query(() => fetchUsers()),
+    byId: t.procedure
+      .input(z.object({ id: z.string() }))
+      .query(({ input }) => getUser(input.id)),
+  }),
+})
+
+export type AppRouter = typeof appRouter
+
+// app/api/trpc/[trpc]/route.ts
+import { fetchRequestHandler } from '@trpc/server/adapters/fetch'
+
+// One catch-all serves every procedure: GET /api/trpc/users.byId
+const handler = (request: Request) =>
+  fetchRequestHandler({ endpoint: '/api/trpc', req: request, router: appRouter })
+
+export { handler as GET, handler as POST }`
+
+export const routingTopic = {
+  id: 'routing',
+  label: 'Route Registration',
+  title: 'Route Registration',
+  sides: {
+    nextjs: {
+      summary: 'File-based, implicit from folder structure',
+      blocks: [
+        {
+          code: nextjsRoutingCode,
+          lang: 'typescript',
+          title: 'Next.js File-Based Routing',
+        },
+      ],
+    },
+    hono: {
+      summary: 'Programmatic, explicit with app.get/post/etc',
+      blocks: [
+        {
+          code: honoRoutingCode,
+          lang: 'typescript',
+          title: 'Hono Programmatic Routing',
+          run: {
+            runtime: 'hono',
+            fakes: 'handlers',
+            request: { method: 'GET', path: '/api/users/1', headers: {}, body: '' },
+          },
+        },
+      ],
+    },
+    express: {
+      summary: 'Routers of app.get/post/etc, mounted under a prefix',
+      blocks: [{ code: expressRoutingCode, lang: 'typescript', title: 'Express (Router)' }],
+    },
+    elysia: {
+      summary: 'Method chains on an instance, composed as plugins',
+      blocks: [{ code: elysiaRoutingCode, lang: 'typescript', title: 'Elysia (Method Chain)' }],
+    },
+    trpc: {
+      summary: 'Procedures in nested routers, served from one catch-all route',
+      blocks: [{ code: trpcRoutingCode, lang: 'typescript', title: 'tRPC (Procedures)' }],
+    },
+  },
+  mappings: [
+    {
+      id: 'tree',
+      note: 'Folder names become path segments in Next.js; in Hono the path is a string in the registration.',
+      regions: [
+        { side: 'nextjs', lines: [5, 12] },
+        { side: 'hono', lines: [7, 11] },
+      ],
+    },
+    {
+      id: 'methods',
+      note: 'Exported GET/POST/PUT/DELETE functions map to app.get/post/put/delete. In Hono the exports only forward to the app.',
+      regions: [
+        { side: 'nextjs', lines: [14, 18] },
+        { side: 'hono', lines: [25, 29] },
+      ],
+    },
+    {
+      id: 'groups',
+      note: 'Next.js has no route groups with shared middleware; Hono composes sub-apps with app.route().',
+      regions: [
+        { side: 'nextjs', lines: [20, 21] },
+        { side: 'hono', lines: [13, 23] },
+      ],
+    },
+  ],
+  steps: [
+    {
+      title: 'Implicit routes',
+      text: 'Next.js derives the URL from the folder path. [id] folders become dynamic segments.',
+      focus: [{ side: 'nextjs', lines: [1, 12] }],
+    },
+    {
+      title: 'Methods are exports',
+      text: 'A route.ts file answers a method by exporting a function with that name.',
+      focus: [{ side: 'nextjs', lines: [14, 18] }],
+    },
+    {
+      title: 'Explicit registration',
+      text: 'Hono lists every method and path in one place, so the whole API surface is readable top to bottom.',
+      focus: [{ side: 'hono', lines: [6, 11] }],
+    },
+    {
+      title: 'Groups and sub-apps',
+      text: 'Sub-apps share middleware and are mounted under a prefix. There is no equivalent for Route Handlers.',
+      focus: [
+        { side: 'nextjs', lines: [20, 21] },
+        { side: 'hono', lines: [13, 23] },
+      ],
+    },
+  ],
+} as const satisfies Topic
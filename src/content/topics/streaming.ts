@@ -0,0 +1,113 @@
+import type { Topic } from '../types'
+
+const nextjsStreamingCode = `// app/api/events/route.ts
+export async function GET() {
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream({
+    async start(controller) {
+      for (let i = 1; i <= 3; i++) {
+        // Server-sent events are framed by hand
+        controller.enqueue(encoder.encode(\`event: tick\\ndata: \${i}\\n\\n\`))
+        await new Promise((resolve) => setTimeout(resolve, 100))
+      }
+      controller.close()
+    },
+  })
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  })
+}`
+
+const honoStreamingCode = `import { Hono } from 'hono'
+import { streamSSE } from 'hono/streaming'
+
+const app = new Hono()
+
+// Sets the event-stream headers and frames each event
+app.get('/events', (c) => {
+  return streamSSE(c, async (stream) => {
+    for (let i = 1; i <= 3; i++) {
+      await stream.writeSSE({ event: 'tick', data: String(i) })
+      await stream.sleep(100)
+    }
+  })
+})`
+
+const request = { method: 'GET', path: '/api/events', headers: {}, body: '' }
+
+export const streamingTopic = {
+  id: 'streaming',
+  label: 'Streaming',
+  title: 'Streaming and Server-Sent Events',
+  sides: {
+    nextjs: {
+      summary: 'Build a ReadableStream and frame the events yourself',
+      blocks: [
+        {
+          code: nextjsStreamingCode,
+          lang: 'typescript',
+          title: 'Next.js (ReadableStream)',
+          run: { runtime: 'nextjs', request },
+        },
+      ],
+    },
+    hono: {
+      summary: 'streamSSE() sets the headers and frames the events',
+      blocks: [
+        {
+          code: honoStreamingCode,
+          lang: 'typescript',
+          title: 'Hono (streamSSE)',
+          run: { runtime: 'hono', mount: '/api', request },
+        },
+      ],
+    },
+  },
+  mappings: [
+    {
+      id: 'stream',
+      note: 'A ReadableStream with its own controller in Next.js; a callback that gets a stream object in Hono.',
+      regions: [
+        { side: 'nextjs', lines: [3, 13] },
+        { side: 'hono', lines: [8, 13] },
+      ],
+    },
+    {
+      id: 'events',
+      note: 'Next.js encodes the event: and data: lines itself; writeSSE() does it from an object.',
+      regions: [
+        { side: 'nextjs', lines: [7, 8] },
+        { side: 'hono', lines: [10, 10] },
+      ],
+    },
+    {
+      id: 'headers',
+      note: 'The event-stream headers are written out in Next.js and set by streamSSE() in Hono.',
+      regions: [
+        { side: 'nextjs', lines: [14, 20] },
+        { side: 'hono', lines: [6, 8] },
+      ],
+    },
+  ],
+  steps: [
+    {
+      title: 'A stream by hand',
+      text: 'The handler builds a ReadableStream and pushes encoded bytes into it, blank lines between events included.',
+      focus: [{ side: 'nextjs', lines: [3, 13] }],
+    },
+    {
+      title: 'The right headers',
+      text: 'Without text/event-stream the browser will not treat it as an EventSource stream, so the headers are part of every such route.',
+      focus: [{ side: 'nextjs', lines: [14, 20] }],
+    },
+    {
+      title: 'streamSSE()',
+      text: 'Hono sets the headers, frames each event from an object and closes the stream when the callback returns.',
+      focus: [{ side: 'hono', lines: [6, 14] }],
+    },
+  ],
+} as const satisfies Topic
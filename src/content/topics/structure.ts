@@ -0,0 +1,125 @@
+import type { Topic } from '../types'
+
+const nextjsFileTree = `app/
+├── api/
+│   ├── users/
+│   │   └── route.ts        ← GET /api/users
+│   ├── posts/
+│   │   ├── route.ts        ← GET /api/posts
+│   │   └── [id]/
+│   │       └── route.ts    ← GET /api/posts/:id
+│   ├── auth/
+│   │   ├── login/
+│   │   │   └── route.ts    ← POST /api/auth/login
+│   │   └── logout/
+│   │       └── route.ts    ← POST /api/auth/logout
+│   └── comments/
+│       └── route.ts        ← GET /api/comments
+
+6 files for 6 endpoints
+⚠️ Adding a new endpoint = create a new file`
+
+const honoFileTree = `app/
+└── api/
+    └── [[...route]]/
+        └── route.ts        ← ALL endpoints here!
+
+// Inside route.ts:
+import { Hono } from 'hono'
+import { handle } from 'hono/vercel'
+
+const app = new Hono().basePath('/api')
+
+app.get('/users', ...)
+app.get('/posts', ...)
+app.get('/posts/:id', ...)
+app.post('/auth/login', ...)
+app.post('/auth/logout', ...)
+app.get('/comments', ...)
+
+export const GET = handle(app)
+export const POST = handle(app)
+
+✅ 1 file for all endpoints
+✅ Adding new endpoint = add one line`
+
+export const structureTopic = {
+  id: 'structure',
+  label: 'File Structure',
+  title: 'File Structure',
+  sides: {
+    nextjs: {
+      summary: 'New endpoint = create new file in nested folder',
+      blocks: [
+        { code: nextjsFileTree, lang: 'ts', title: 'Next.js Route Handlers', typecheck: false },
+      ],
+    },
+    hono: {
+      summary: 'New endpoint = add one line of code',
+      blocks: [
+        { code: honoFileTree, lang: 'ts', title: 'Hono Catch-All Handler', typecheck: false },
+      ],
+    },
+  },
+  mappings: [
+    {
+      id: 'users',
+      note: 'A folder and route.ts file on one side is a single app.get() line on the other.',
+      regions: [
+        { side: 'nextjs', lines: [3, 4] },
+        { side: 'hono', lines: [12, 12] },
+      ],
+    },
+    {
+      id: 'posts',
+      note: 'The [id] folder becomes a :id path parameter.',
+      regions: [
+        { side: 'nextjs', lines: [5, 8] },
+        { side: 'hono', lines: [13, 14] },
+      ],
+    },
+    {
+      id: 'auth',
+      note: 'Nested folders for login/logout collapse into two registrations.',
+      regions: [
+        { side: 'nextjs', lines: [9, 13] },
+        { side: 'hono', lines: [15, 16] },
+      ],
+    },
+    {
+      id: 'entry',
+      note: 'Next.js discovers every route.ts itself; Hono needs one catch-all file that hands requests to the app.',
+      regions: [
+        { side: 'nextjs', lines: [1, 2] },
+        { side: 'hono', lines: [1, 4] },
+        { side: 'hono', lines: [19, 20] },
+      ],
+    },
+  ],
+  routeTable: { topic: 'routing', side: 'hono' },
+  steps: [
+    {
+      title: 'One file per endpoint',
+      text: 'With Route Handlers, the folder path is the URL. Six endpoints means six route.ts files spread across nested folders.',
+      focus: [{ side: 'nextjs', lines: [1, 15] }],
+    },
+    {
+      title: 'One catch-all file',
+      text: 'The optional catch-all segment [[...route]] sends every /api request to a single route.ts, which hands it to Hono.',
+      focus: [{ side: 'hono', lines: [1, 10] }],
+    },
+    {
+      title: 'Routes as lines of code',
+      text: 'Each endpoint becomes one registration. Adding an endpoint is a one-line change instead of a new folder and file.',
+      focus: [
+        { side: 'nextjs', lines: [17, 18] },
+        { side: 'hono', lines: [12, 17] },
+      ],
+    },
+    {
+      title: 'Wiring it into Next.js',
+      text: 'Hono still deploys as a Route Handler: the exported GET and POST delegate to the app through handle().',
+      focus: [{ side: 'hono', lines: [19, 23] }],
+    },
+  ],
+} as const satisfies Topic
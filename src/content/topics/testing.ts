@@ -0,0 +1,112 @@
+import type { Topic } from '../types'
+
+const nextjsTestingCode = `// app/api/users/[id]/route.ts
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const user = await getUser(id)
+  if (!user) return Response.json({ error: 'Not found' }, { status: 404 })
+  return Response.json({ user })
+}
+
+// app/api/users/[id]/route.test.ts
+import { NextRequest } from 'next/server'
+import { GET } from './route'
+
+test('returns the user', async () => {
+  const request = new NextRequest('http://localhost/api/users/1')
+  // The test plays the router and passes params itself
+  const response = await GET(request, { params: Promise.resolve({ id: '1' }) })
+  expect(response.status).toBe(200)
+  expect(await response.json()).toEqual({ user: { id: '1', name: 'Ada Lovelace' } })
+})
+
+test('answers 404 for an unknown id', async () => {
+  const request = new NextRequest('http://localhost/api/users/99')
+  const response = await GET(request, { params: Promise.resolve({ id: '99' }) })
+  expect(response.status).toBe(404)
+})`
+
+const honoTestingCode = `// src/app.ts
+import { Hono } from 'hono'
+
+export const app = new Hono()
+
+app.get('/users/:id', async (c) => {
+  const user = await getUser(c.req.param('id'))
+  if (!user) return c.json({ error: 'Not found' }, 404)
+  return c.json({ user })
+})
+
+// src/app.test.ts
+import { app } from './app'
+
+test('returns the user', async () => {
+  // Routing, middleware and params, with no server running
+  const response = await app.request('/users/1')
+  expect(response.status).toBe(200)
+  expect(await response.json()).toEqual({ user: { id: '1', name: 'Ada Lovelace' } })
+})
+
+test('answers 404 for an unknown id', async () => {
+  const response = await app.request('/users/99')
+  expect(response.status).toBe(404)
+})`
+
+export const testingTopic = {
+  id: 'testing',
+  label: 'Testing',
+  title: 'Testing Handlers',
+  sides: {
+    nextjs: {
+      summary: 'Call the exported function with a NextRequest and hand-made params',
+      blocks: [{ code: nextjsTestingCode, lang: 'typescript', title: 'Next.js (Calling GET)' }],
+    },
+    hono: {
+      summary: 'app.request() sends a request through the whole app',
+      blocks: [{ code: honoTestingCode, lang: 'typescript', title: 'Hono (app.request)' }],
+    },
+  },
+  mappings: [
+    {
+      id: 'handler',
+      note: 'The same handler under test on both sides.',
+      regions: [
+        { side: 'nextjs', lines: [1, 7] },
+        { side: 'hono', lines: [1, 10] },
+      ],
+    },
+    {
+      id: 'request',
+      note: 'Next.js tests build the request and the params the router would pass; Hono tests only name a path.',
+      regions: [
+        { side: 'nextjs', lines: [14, 16] },
+        { side: 'hono', lines: [16, 17] },
+      ],
+    },
+    {
+      id: 'assert',
+      note: 'Both get a standard Response back, so the assertions are the same.',
+      regions: [
+        { side: 'nextjs', lines: [17, 18] },
+        { side: 'hono', lines: [18, 19] },
+      ],
+    },
+  ],
+  steps: [
+    {
+      title: 'Testing a function',
+      text: 'A Route Handler is an exported function, so a test imports it and calls it directly.',
+      focus: [{ side: 'nextjs', lines: [9, 11] }],
+    },
+    {
+      title: 'Playing the router',
+      text: 'The test builds a NextRequest and the params promise itself. Middleware and route matching are not part of the test.',
+      focus: [{ side: 'nextjs', lines: [13, 19] }],
+    },
+    {
+      title: 'Testing the app',
+      text: 'app.request() runs a request through routing, middleware and the handler in process, the same path a real request takes.',
+      focus: [{ side: 'hono', lines: [12, 25] }],
+    },
+  ],
+} as const satisfies Topic
@@ -0,0 +1,183 @@
+import type { Topic } from '../types'
+
+const nextjsValidationCode = `// app/api/users/route.ts
+import { z } from 'zod'
+
+const CreateUser = z.object({
+  name: z.string().min(1),
+  email: z.email(),
+})
+
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return Response.json({ error: 'Invalid JSON' }, { status: 400 })
+  }
+  const result = CreateUser.safeParse(body)
+  if (!result.success) {
+    return Response.json({ error: result.error.issues }, { status: 400 })
+  }
+  // Typed from here on
+  return Response.json({ user: result.data }, { status: 201 })
+}`
+
+const honoValidationCode = `import { Hono } from 'hono'
+import { zValidator } from '@hono/zod-validator'
+import { z } from 'zod'
+
+const CreateUser = z.object({
+  name: z.string().min(1),
+  email: z.email(),
+})
+
+const app = new Hono()
+
+// Malformed JSON and schema errors both answer 400
+app.post('/users', zValidator('json', CreateUser), (c) => {
+  const user = c.req.valid('json')  // Typed from the schema
+  return c.json({ user }, 201)
+})`
+
+const request = {
+  method: 'POST',
+  path: '/api/users',
+  headers: {},
+  body: '{ "name": "Ada Lovelace", "email": "not-an-email" }',
+}
+
+const expressValidationCode = `import express from 'express'
+import { z } from 'zod'
+
+const CreateUser = z.object({
+  name: z.string().min(1),
+  email: z.email(),
+})
+
+const app = express()
+app.use(express.json())  // Malformed JSON answers 400
+
+app.post('/users', (req, res) => {
+  const result = CreateUser.safeParse(req.body)  // req.body is any
+  if (!result.success) {
+    res.status(400).json({ error: result.error.issues })
+    return
+  }
+  res.status(201).json({ user: result.data })
+})`
+
+const elysiaValidationCode = `import { Elysia, t } from 'elysia'
+
+const CreateUser = t.Object({
+  name: t.String({ minLength: 1 }),
+  email: t.String({ format: 'email' }),
+})
+
+// The schema validates and types the body; failures answer 422
+const app = new Elysia()
+  .post('/users', ({ body, status }) => status(201, { user: body }), {
+    body: CreateUser,
+  })`
+
+const trpcValidationCode = `import { initTRPC } from '@trpc/server'
+import { z } from 'zod'
+
+const t = initTRPC.create()
+
+const CreateUser = z.object({
+  name: z.string().min(1),
+  email: z.email(),
+})
+
+export const appRouter = t.router({
+  // Input failing the schema is a BAD_REQUEST error, answered with 400
+  createUser: t.procedure
+    .input(CreateUser)
+    .mutation(({ input }) => ({ user: input })),
+})`
+
+export const validationTopic = {
+  id: 'validation',
+  label: 'Validation',
+  title: 'Request Validation',
+  sides: {
+    nextjs: {
+      summary: 'Parse and check the body by hand in each handler',
+      blocks: [
+        {
+          code: nextjsValidationCode,
+          lang: 'typescript',
+          title: 'Next.js (Manual Parsing)',
+          run: { runtime: 'nextjs', request },
+        },
+      ],
+    },
+    hono: {
+      summary: 'zValidator middleware checks the body before the handler runs',
+      blocks: [
+        {
+          code: honoValidationCode,
+          lang: 'typescript',
+          title: 'Hono (zValidator)',
+          run: { runtime: 'hono', mount: '/api', request },
+        },
+      ],
+    },
+    express: {
+      summary: 'Parse req.body with zod in each handler, after express.json()',
+      blocks: [{ code: expressValidationCode, lang: 'typescript', title: 'Express (Manual zod)' }],
+    },
+    elysia: {
+      summary: 'A t.Object() schema on the route validates and types the body',
+      blocks: [{ code: elysiaValidationCode, lang: 'typescript', title: 'Elysia (t.Object Schema)' }],
+    },
+    trpc: {
+      summary: '.input() validates and types every call of a procedure',
+      blocks: [{ code: trpcValidationCode, lang: 'typescript', title: 'tRPC (.input)' }],
+    },
+  },
+  mappings: [
+    {
+      id: 'schema',
+      note: 'Both sides describe the body with the same zod schema.',
+      regions: [
+        { side: 'nextjs', lines: [4, 7] },
+        { side: 'hono', lines: [5, 8] },
+      ],
+    },
+    {
+      id: 'parse',
+      note: 'Next.js reads the JSON, catches malformed bodies and reports schema errors itself; zValidator does all three.',
+      regions: [
+        { side: 'nextjs', lines: [10, 19] },
+        { side: 'hono', lines: [12, 13] },
+      ],
+    },
+    {
+      id: 'typed',
+      note: 'result.data and c.req.valid() both carry the type the schema infers.',
+      regions: [
+        { side: 'nextjs', lines: [20, 21] },
+        { side: 'hono', lines: [14, 15] },
+      ],
+    },
+  ],
+  steps: [
+    {
+      title: 'Parsing by hand',
+      text: 'request.json() throws on a malformed body, so the handler catches that before it can check anything.',
+      focus: [{ side: 'nextjs', lines: [10, 15] }],
+    },
+    {
+      title: 'Checking by hand',
+      text: 'safeParse() returns the issues instead of throwing, and the handler decides what a 400 looks like. Every route repeats this.',
+      focus: [{ side: 'nextjs', lines: [16, 19] }],
+    },
+    {
+      title: 'A validator in the chain',
+      text: 'zValidator runs before the handler and answers 400 on its own, so the handler only sees valid input.',
+      focus: [{ side: 'hono', lines: [12, 16] }],
+    },
+  ],
+} as const satisfies Topic
@@ -0,0 +1,70 @@
+import type { CodeLanguage } from '../lib/highlight'
+import type { RunConfig } from '../sandbox/types'
+
+export type Side = 'nextjs' | 'hono'
+
+// Every framework a topic can show: the two sides the page is about, and
+// others readers weigh them against
+export type Framework = Side | 'express' | 'elysia' | 'trpc'
+
+export interface Snippet {
+  code: string
+  lang: CodeLanguage
+  title: string
+  run?: RunConfig
+  // Highlighted with the compiler's types: hovers, `^?` query results and
+  // the errors a `// @errors: <code>` line expects
+  twoslash?: true
+  // Opts out of the build's type check, for diagrams and deliberately
+  // broken examples
+  typecheck?: false
+}
+
+export interface TopicSide {
+  summary: string
+  // Empty when the framework has no counterpart; the summary says why
+  blocks: readonly Snippet[]
+}
+
+// 1-based, inclusive line range within a snippet
+export type LineRange = readonly [number, number]
+
+export interface CodeRegion {
+  side: Side
+  // Index into the side's blocks; defaults to the first block
+  block?: number
+  lines: LineRange
+}
+
+// Equivalent code across the two sides, with a note on how they differ
+export interface Mapping {
+  id: string
+  note: string
+  regions: readonly CodeRegion[]
+}
+
+// One stop of a topic's walkthrough: the regions in focus and what to say
+export interface WalkthroughStep {
+  title: string
+  text: string
+  focus: readonly CodeRegion[]
+}
+
+// A Hono snippet whose routes a tab draws as a generated route table
+export interface RouteTableSource {
+  topic: string
+  side: Side
+  // Index into the side's blocks; defaults to the first block
+  block?: number
+}
+
+export interface Topic {
+  id: string
+  label: string
+  title: string
+  // Frameworks left out have no example yet
+  sides: Record<Side, TopicSide> & Partial<Record<Framework, TopicSide>>
+  mappings?: readonly Mapping[]
+  steps?: readonly WalkthroughStep[]
+  routeTable?: RouteTableSource
+}
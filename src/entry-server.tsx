@@ -0,0 +1,26 @@
+import { StrictMode } from 'react'
+import { renderToString } from 'react-dom/server'
+import { loadHighlights } from 'virtual:highlighted-snippets'
+import App from './App.tsx'
+import { I18nContext } from './i18n/context'
+import { localeIds, locales, type Locale } from './i18n/locales'
+import { getTranslator } from './i18n/translator'
+
+export { localeIds, localePath } from './i18n/locales'
+
+// The build imports this module once and renders every locale from it, so
+// all highlight tables are loaded up front
+await Promise.all(localeIds.map(loadHighlights))
+
+// Used by the build to prerender one index.html per locale; main.tsx hydrates the result
+export function render(locale: Locale): { html: string; lang: string; title: string } {
+  const translator = getTranslator(locale)
+  const html = renderToString(
+    <StrictMode>
+      <I18nContext value={translator}>
+        <App />
+      </I18nContext>
+    </StrictMode>,
+  )
+  return { html, lang: locales[locale].lang, title: translator.t('page.title') }
+}
@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from 'react'
+import { parseHash, type HashRoute } from '../lib/hashRoute'
+
+function subscribe(onChange: () => void) {
+  window.addEventListener('hashchange', onChange)
+  return () => window.removeEventListener('hashchange', onChange)
+}
+
+export function useHashRoute(): HashRoute {
+  // The prerendered page has no hash; hydration starts from the plain layout
+  const hash = useSyncExternalStore(subscribe, () => location.hash, () => '')
+  return parseHash(hash)
+}
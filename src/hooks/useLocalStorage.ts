@@ -0,0 +1,61 @@
+import { useSyncExternalStore } from 'react'
+
+// Same-tab writes don't fire `storage`, so updates announce themselves too
+const LOCAL_CHANGE = 'local-storage-change'
+
+// Holds values when storage is unavailable (private mode, quota)
+const memory = new Map<string, string>()
+
+function subscribe(onChange: () => void) {
+  window.addEventListener('storage', onChange)
+  window.addEventListener(LOCAL_CHANGE, onChange)
+  return () => {
+    window.removeEventListener('storage', onChange)
+    window.removeEventListener(LOCAL_CHANGE, onChange)
+  }
+}
+
+function readRaw(key: string): string | null {
+  try {
+    return localStorage.getItem(key)
+  } catch {
+    return memory.get(key) ?? null
+  }
+}
+
+function parse<T>(raw: string | null): T | undefined {
+  try {
+    return raw === null ? undefined : (JSON.parse(raw) as T)
+  } catch {
+    return undefined
+  }
+}
+
+// State mirrored to localStorage; storing the fallback removes the key so
+// untouched values keep following the source. The prerendered page always
+// shows the fallback and picks up stored values once hydrated.
+export function useLocalStorage<T>(key: string, fallback: T): [T, (value: T) => void] {
+  const raw = useSyncExternalStore(
+    subscribe,
+    () => readRaw(key),
+    () => null,
+  )
+  const value = parse<T>(raw) ?? fallback
+
+  const update = (next: T) => {
+    try {
+      if (next === fallback) {
+        memory.delete(key)
+        localStorage.removeItem(key)
+      } else {
+        memory.set(key, JSON.stringify(next))
+        localStorage.setItem(key, JSON.stringify(next))
+      }
+    } catch {
+      // Storage can be unavailable; the in-memory copy keeps the value
+    }
+    window.dispatchEvent(new Event(LOCAL_CHANGE))
+  }
+
+  return [value, update]
+}
@@ -0,0 +1,12 @@
+import { frameworkIds, MAX_COLUMNS, MIN_COLUMNS, sideIds } from '../content/sides'
+import type { Framework } from '../content/types'
+import { useLocalStorage } from './useLocalStorage'
+
+// The comparison's columns as picked in FrameworkPicker, shared with the
+// report export so both show the same frameworks
+export function usePickedFrameworks(): [Framework[], (value: Framework[]) => void] {
+  const [stored, setPicked] = useLocalStorage<Framework[]>('frameworks', sideIds)
+  // Stored by an older version of the page, or edited by hand
+  const known = stored.filter((id) => frameworkIds.includes(id))
+  return [known.length >= MIN_COLUMNS && known.length <= MAX_COLUMNS ? known : sideIds, setPicked]
+}
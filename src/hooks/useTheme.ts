@@ -0,0 +1,33 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import { resolveTheme, THEME_STORAGE_KEY, type ThemePreference } from '../lib/themes'
+import { useLocalStorage } from './useLocalStorage'
+
+const PREFERS_LIGHT = '(prefers-color-scheme: light)'
+
+function subscribe(onChange: () => void) {
+  const query = matchMedia(PREFERS_LIGHT)
+  query.addEventListener('change', onChange)
+  return () => query.removeEventListener('change', onChange)
+}
+
+// Whether the system asks for a light scheme; what 'system' resolves by
+export function usePrefersLight(): boolean {
+  return useSyncExternalStore(
+    subscribe,
+    () => matchMedia(PREFERS_LIGHT).matches,
+    () => false,
+  )
+}
+
+// The saved theme preference; keeps <html data-theme> on the theme it
+// resolves to, so the tokens in index.css follow it
+export function useTheme(): [ThemePreference, (preference: ThemePreference) => void] {
+  const [preference, setPreference] = useLocalStorage<ThemePreference>(THEME_STORAGE_KEY, 'system')
+  const theme = resolveTheme(preference, usePrefersLight())
+
+  useEffect(() => {
+    document.documentElement.dataset.theme = theme
+  }, [theme])
+
+  return [preference, setPreference]
+}
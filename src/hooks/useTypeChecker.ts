@@ -0,0 +1,54 @@
+import { useEffect, useRef, useState } from 'react'
+import { createTypeChecker, type TypeChecker } from '../playground/checker'
+import type { CursorInfo, FileDiagnostic } from '../playground/protocol'
+import { useDebouncedValue } from './useDebouncedValue'
+
+const CHECK_DELAY_MS = 300
+
+type CheckState =
+  | { status: 'loading' }
+  | { status: 'checked'; key: string; diagnostics: Record<string, FileDiagnostic[]> }
+  | { status: 'failed'; message: string }
+
+// Type-checks files in a worker, once typing pauses. The worker starts with
+// the first check and stops when the component unmounts.
+export function useTypeChecker(files: Record<string, string>) {
+  const checker = useRef<TypeChecker | null>(null)
+  const [state, setState] = useState<CheckState>({ status: 'loading' })
+  // Callers rebuild the files object on every render; key on content
+  const key = useDebouncedValue(JSON.stringify(files), CHECK_DELAY_MS)
+
+  useEffect(() => {
+    checker.current ??= createTypeChecker()
+    let current = true
+    checker.current.check(JSON.parse(key) as Record<string, string>).then(
+      (diagnostics) => {
+        if (current) setState({ status: 'checked', key, diagnostics })
+      },
+      (error: Error) => {
+        if (current) setState({ status: 'failed', message: error.message })
+      },
+    )
+    return () => {
+      current = false
+    }
+  }, [key])
+
+  useEffect(
+    () => () => {
+      checker.current?.dispose()
+      checker.current = null
+    },
+    [],
+  )
+
+  const cursor = (file: string, text: string, offset: number): Promise<CursorInfo> =>
+    checker.current?.cursor(file, text, offset) ?? Promise.resolve({ type: null, completions: [], prefix: 0 })
+
+  return {
+    state,
+    // Edits the last result does not cover yet
+    checking: state.status !== 'checked' || state.key !== JSON.stringify(files),
+    cursor,
+  }
+}
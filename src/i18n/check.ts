@@ -0,0 +1,20 @@
+import { contentSource } from './content'
+import { en, type MessageKey } from './messages/en'
+import { catalogs } from './translator'
+
+// Keys each locale has no translation for, prefixed with their catalog section
+export function missingTranslations(): Record<string, string[]> {
+  const { content, comments } = contentSource()
+  return Object.fromEntries(
+    Object.entries(catalogs).map(([locale, catalog]) => [
+      locale,
+      [
+        ...(Object.keys(en) as MessageKey[]).filter((key) => !catalog.messages[key]).map((key) => `messages: ${key}`),
+        ...Object.keys(content)
+          .filter((key) => !catalog.content[key])
+          .map((key) => `content: ${key}`),
+        ...comments.filter((comment) => !catalog.comments[comment]).map((comment) => `comments: ${comment}`),
+      ],
+    ]),
+  )
+}
@@ -0,0 +1,24 @@
+import type { Catalog } from './types'
+
+const COMMENT = /(^|\s)\/\/ (\S(?:.*\S)?)\s*$/
+
+// Comment texts worth translating: bare file headers such as `// lib/auth.ts`
+// and twoslash notations such as `// @errors: 2353` stay as they are
+export function snippetComments(code: string): string[] {
+  return code
+    .split('\n')
+    .map((line) => COMMENT.exec(line)?.[2])
+    .filter((text): text is string => text !== undefined && text.includes(' ') && !text.startsWith('@'))
+}
+
+export function translateComments(code: string, comments: Catalog['comments']): string {
+  return code
+    .split('\n')
+    .map((line) =>
+      line.replace(COMMENT, (match, before: string, text: string) => {
+        const translated = comments[text]
+        return translated === undefined ? match : `${before}// ${translated}`
+      }),
+    )
+    .join('\n')
+}
@@ -0,0 +1,119 @@
+import { decisionQuestions, type DecisionQuestion } from '../content/decision'
+import { migrationExample } from '../content/migration'
+import { playgroundFiles, type PlaygroundFile } from '../content/playground'
+import { rpcClient, rpcServer } from '../content/rpc'
+import { sectionTexts, type SectionText } from '../content/sections'
+import { frameworkIds, frameworks } from '../content/sides'
+import { topics } from '../content/topics'
+import type { Framework, Side, Snippet, Topic, TopicSide } from '../content/types'
+import { snippetComments } from './comments'
+
+// Content stays English in src/content; these map it through a locale.
+// `text` looks a string up by its content key with the English source as
+// fallback, `code` translates the comments inside a snippet.
+export interface Localizer {
+  text(key: string, source: string): string
+  code(code: string): string
+}
+
+export function localizeSnippet(snippet: Snippet, key: string, l: Localizer): Snippet {
+  return { ...snippet, title: l.text(`${key}.title`, snippet.title), code: l.code(snippet.code) }
+}
+
+export function sideLabel(side: Framework, l: Localizer): string {
+  return l.text(`side.${side}`, frameworks[side].label)
+}
+
+export function frameworkDescription(framework: Framework, l: Localizer): string {
+  return l.text(`side.${framework}.description`, frameworks[framework].description)
+}
+
+export function localizeSection<T extends SectionText>(section: T, l: Localizer): T {
+  return {
+    ...section,
+    title: l.text(`section.${section.id}.title`, section.title),
+    notes: l.text(`section.${section.id}.notes`, section.notes),
+  }
+}
+
+export function localizeTopic(topic: Topic, l: Localizer): Topic {
+  const key = `topic.${topic.id}`
+  const localizeSide = (side: Framework, { summary, blocks }: TopicSide): TopicSide => ({
+    summary: l.text(`${key}.${side}.summary`, summary),
+    blocks: blocks.map((block, index) => localizeSnippet(block, `${key}.${side}.${index + 1}`, l)),
+  })
+  return {
+    ...topic,
+    label: l.text(`${key}.label`, topic.label),
+    title: l.text(`${key}.title`, topic.title),
+    sides: Object.fromEntries(
+      frameworkIds.flatMap((framework) => {
+        const side = topic.sides[framework]
+        return side ? [[framework, localizeSide(framework, side)]] : []
+      }),
+    ) as Topic['sides'],
+    mappings: topic.mappings?.map((mapping) => ({ ...mapping, note: l.text(`${key}.mapping.${mapping.id}`, mapping.note) })),
+    steps: topic.steps?.map((step, index) => ({
+      ...step,
+      title: l.text(`${key}.step.${index + 1}.title`, step.title),
+      text: l.text(`${key}.step.${index + 1}.text`, step.text),
+    })),
+  }
+}
+
+export function localizeRpc(l: Localizer): { server: Snippet; client: Snippet } {
+  return { server: localizeSnippet(rpcServer, 'rpc.server', l), client: localizeSnippet(rpcClient, 'rpc.client', l) }
+}
+
+export function localizePlayground(l: Localizer): Record<Side, PlaygroundFile[]> {
+  const localizeFiles = (side: Side) =>
+    playgroundFiles[side].map((file, index) => ({
+      ...file,
+      snippet: localizeSnippet(file.snippet, `playground.${side}.${index + 1}`, l),
+    }))
+  return { nextjs: localizeFiles('nextjs'), hono: localizeFiles('hono') }
+}
+
+export function localizeMigration(l: Localizer): Snippet {
+  return localizeSnippet(migrationExample, 'migrate.example', l)
+}
+
+export function localizeDecision(l: Localizer): DecisionQuestion[] {
+  return decisionQuestions.map((question) => ({
+    ...question,
+    question: l.text(`decision.${question.id}.question`, question.question),
+    options: question.options.map((option) => ({
+      ...option,
+      label: l.text(`decision.${question.id}.${option.id}.label`, option.label),
+      reason: l.text(`decision.${question.id}.${option.id}.reason`, option.reason),
+    })),
+  }))
+}
+
+// Every content key with its English source, and every snippet comment, by
+// running the localizers above over all content
+export function contentSource(): { content: Record<string, string>; comments: string[] } {
+  const content: Record<string, string> = {}
+  const comments = new Set<string>()
+  const collect: Localizer = {
+    text(key, source) {
+      content[key] = source
+      return source
+    },
+    code(code) {
+      snippetComments(code).forEach((comment) => comments.add(comment))
+      return code
+    },
+  }
+  frameworkIds.forEach((framework) => {
+    sideLabel(framework, collect)
+    frameworkDescription(framework, collect)
+  })
+  sectionTexts.forEach((section) => localizeSection(section, collect))
+  topics.forEach((topic) => localizeTopic(topic, collect))
+  localizeRpc(collect)
+  localizePlayground(collect)
+  localizeMigration(collect)
+  localizeDecision(collect)
+  return { content, comments: [...comments] }
+}
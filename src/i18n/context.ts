@@ -0,0 +1,6 @@
+import { createContext } from 'react'
+import { defaultLocale } from './locales'
+import { getTranslator } from './translator'
+
+// Provided by main.tsx and entry-server.tsx for the locale of the page
+export const I18nContext = createContext(getTranslator(defaultLocale))
@@ -0,0 +1,4 @@
+// Fills {name} placeholders; unknown names stay as written
+export function format(message: string, params: Record<string, string | number>): string {
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match))
+}
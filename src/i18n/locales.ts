@@ -0,0 +1,38 @@
+export const locales = {
+  en: { label: 'English', lang: 'en' },
+  ja: { label: '日本語', lang: 'ja' },
+  zh: { label: '中文', lang: 'zh-CN' },
+} as const
+
+export type Locale = keyof typeof locales
+
+export const localeIds = Object.keys(locales) as Locale[]
+
+export const defaultLocale = 'en' satisfies Locale
+
+export const LOCALE_STORAGE_KEY = 'locale'
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && value in locales
+}
+
+// The default locale lives at the base path, the others one segment below it:
+// /hono-vs-nextjs/ and /hono-vs-nextjs/ja/
+export function localeFromPath(pathname: string, base = import.meta.env.BASE_URL): Locale {
+  const segment = pathname.startsWith(base) ? pathname.slice(base.length).split('/')[0] : ''
+  return isLocale(segment) ? segment : defaultLocale
+}
+
+export function localePath(locale: Locale, base = import.meta.env.BASE_URL): string {
+  return locale === defaultLocale ? base : `${base}${locale}/`
+}
+
+// The locale picked in the switcher, stored the way useLocalStorage stores it
+export function savedLocale(): Locale | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LOCALE_STORAGE_KEY) ?? 'null')
+    return isLocale(saved) ? saved : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,211 @@
+// Source messages. `{name}` is replaced by a parameter, `<tag>text</tag>` is
+// rendered by the matching function passed to rich()
+export const en = {
+  'page.title': 'Hono vs Next.js Route Handler',
+  'app.present': '▶ Present',
+  'app.sources': 'Sources: hono.dev • nextjs.org/docs • vercel.com/docs',
+  'theme.label': 'Color theme',
+  'theme.system': 'System theme',
+  'locale.label': 'Language',
+
+  'overview.intro':
+    'This comparison explores two approaches to building APIs in a Next.js application: using native <em>Route Handlers</em> vs integrating <em>Hono</em> as a catch-all handler within Next.js.',
+  'overview.nextjs.title': 'Next.js Route Handlers',
+  'overview.nextjs.text': 'File-based routing with one file per endpoint. Built into Next.js.',
+  'overview.hono.title': 'Hono + Next.js',
+  'overview.hono.text': 'Hono as catch-all handler in <code>app/api/[[...route]]/route.ts</code>',
+
+  'hono.intro':
+    '<hono>Hono</hono> (炎 - "flame" in Japanese) is a lightweight, ultrafast web framework built on Web Standards. When used with Next.js, it runs as a catch-all handler, allowing you to build APIs with Express-like routing and middleware while still deploying on Vercel.',
+  'hono.stat.bundle': 'Bundle',
+  'hono.stat.ops': 'Ops/sec',
+  'hono.stat.middleware': 'Middleware',
+  'hono.stat.version': 'Version',
+  'hono.serverOnly': 'Runs on server only — adds zero bundle size to your pages',
+  'hono.measured': 'Bundle (hono/tiny, minified) and ops/sec are measured by <link>the benchmarks below</link>',
+
+  'bench.intro':
+    'Every number in this section and in the tiles above comes from <code>pnpm bench</code>, which writes <code>src/content/benchmarks.json</code>. Rerun it to reproduce them on your machine.',
+  'bench.throughput': 'Routing throughput (requests/sec, higher is better)',
+  'bench.coldStart': 'Cold start (time to first response, lower is better)',
+  'bench.bundle': 'Bundle size',
+  'bench.minified': 'minified',
+  'bench.table': '{name} · {count} routes',
+  'bench.methodology': 'Methodology',
+  'bench.methodology.1':
+    'Both sides serve the same route table: the six endpoints from the File Structure topic, plus synthetic tables of {sizes} routes where half the routes have dynamic segments.',
+  'bench.methodology.2':
+    "The Next.js side is this site's App Router emulation (<code>src/sandbox/nextjs.ts</code>): routes sorted by specificity and matched segment by segment. It is not the Next.js server, which adds its own request handling on top.",
+  'bench.methodology.3':
+    'Throughput: each operation builds a Request and awaits the Response from app.fetch or the dispatcher, cycling through one URL per route. Median of {samples} samples of {sampleMs} ms after a warm-up, on a single thread.',
+  'bench.methodology.4':
+    'Cold start: creating the router, registering every route and answering the first request; median of {runs} fresh instances. Module loading is not included.',
+  'bench.methodology.5':
+    'Bundle size: a minimal app per entry point, bundled and minified with Vite. Route Handlers add no framework code of their own, so there is no Next.js entry.',
+  'bench.environment': 'Measured {date} on Node {node}, {platform}, {cpu}, with hono {hono}.',
+
+  'comparison.hint': 'Click a tab, or focus one and use the arrow keys, to switch topic',
+  'comparison.tabs': 'Comparison topics',
+  'comparison.notWritten': 'No {framework} example for this topic yet.',
+  'comparison.notApplicable': 'Not applicable',
+  'frameworks.label': 'Compare',
+  'frameworks.limit': '{min}–{max} frameworks',
+
+  'search.open': 'Search',
+  'search.shortcut': 'Search the page (Ctrl+K or ⌘K)',
+  'search.label': 'Search the page',
+  'search.placeholder': 'Search sections, topics and code…',
+  'search.loading': 'Loading the index…',
+  'search.failed': 'The index did not load.',
+  'search.retry': 'Try again',
+  'search.empty': 'Nothing matches "{query}".',
+  'search.hint': '↑↓ to choose, Enter to jump, Esc to close',
+  'search.line': 'line {line}',
+  'search.kind.section': 'Section',
+  'search.kind.topic': 'Topic',
+  'search.kind.summary': 'Summary',
+  'search.kind.code': 'Code',
+
+  'report.open': 'Export',
+  'report.title': 'Export as a report',
+  'report.frameworks': 'Comparisons show {frameworks}, as picked above the tabs.',
+  'report.topics': 'Topics',
+  'report.all': 'All',
+  'report.none': 'None',
+  'report.markdown': 'Download Markdown',
+  'report.pdf': 'Print / save as PDF',
+  'report.close': 'Close',
+  'report.print': 'Print',
+  'report.back': 'Back to the page',
+  'report.mappings': 'How the code maps',
+
+  'widget.unknownTopic': 'No comparison called "{topic}"',
+
+  'catalog.intro': 'All {count} middleware that ship with hono {version}, read from the installed package.',
+  'catalog.filter': 'Filter middleware',
+  'catalog.docs': 'Docs',
+  'catalog.example': 'Example',
+  'catalog.hideExample': 'Hide example',
+  'catalog.empty': 'No middleware matches "{query}".',
+
+  'rpc.intro':
+    "One of Hono's unique features when integrated with Next.js is the ability to share type definitions between server and client. This enables end-to-end type safety without code generation.",
+
+  'playground.open': '✎ Try it: edit both sides with live types',
+  'playground.close': 'Close the playground',
+  'playground.intro':
+    'Edit any file and TypeScript, running in your browser, checks it as you type. Add a field to <code>postSchema</code> on both sides: the Hono client stops compiling until it sends the field, while the hand-written Next.js types keep compiling against a route that no longer matches them. Type a <code>.</code> in a client to see what the compiler knows.',
+  'playground.loading': 'Loading TypeScript…',
+  'playground.checking': 'Checking…',
+  'playground.failed': 'Type checker stopped: {message}',
+  'playground.errors': 'errors: {count}',
+  'playground.clean': 'No type errors',
+  'playground.line': 'Line {line}',
+  'playground.cursorHint': 'Put the cursor after a name to see its type',
+  'playground.complete': 'Complete {name}',
+
+  'migrate.intro':
+    'Paste an App Router API, one <code>// app/api/…/route.ts</code> header per file, or upload a project folder. The TypeScript compiler reads every route, and the converter writes a single <code>[[...route]]/route.ts</code> that registers the same handlers on Hono, with a report of what it could not carry over.',
+  'migrate.yourRoutes': 'Your Route Handlers',
+  'migrate.convert': '⇄ Convert to Hono',
+  'migrate.converting': 'Converting…',
+  'migrate.upload': 'Upload a folder',
+  'migrate.failed': 'The converter stopped: {message}',
+  'migrate.empty': 'Nothing to convert: no route handlers under app/api.',
+  'migrate.routes': 'Routes ({count})',
+  'migrate.report': 'Report',
+  'migrate.clean': 'Everything converted.',
+  'migrate.note.notRoute': '{file} is not a route file and stays where it is.',
+  'migrate.note.outsideApi': '{file} is outside app/api and stays a Route Handler.',
+  'migrate.note.alreadyHono': '{file} already uses Hono and was left out.',
+  'migrate.note.parseError': '{file} does not parse ({message}) and was skipped.',
+  'migrate.note.noHandlers': '{file} exports no HTTP method handlers.',
+  'migrate.note.unsupportedSegment': '{file} was skipped: Hono has no equivalent of the {segment} segment.',
+  'migrate.note.duplicateRoute': '{file}: {method} {path} is already registered by another file and was skipped.',
+  'migrate.note.unknownExport': '{file}: the export {name} is neither a handler nor segment config and is no longer exported.',
+  'migrate.note.configConflict': '{file}: {name} differs from another route; the catch-all exports the first value for all routes.',
+  'migrate.note.renamed': '{file}: {from} clashes with another file and was renamed to {to}.',
+  'migrate.note.wrapped': '{file}: {method} is not a plain function, so the catch-all calls it with the raw request and params.',
+  'migrate.note.reexported': '{file}: {method} is exported by name rather than declared, so the catch-all calls it with the raw request and params.',
+  'migrate.note.nextRequest': '{file}: {method} uses NextRequest properties. It still gets a NextRequest, but c.req.query() and getCookie() do the same in Hono.',
+  'migrate.note.middleware': 'The same {name} try/catch in {count} handlers became one middleware.',
+
+  'summary.nextjs.title': 'Next.js Route Handlers are better when:',
+  'summary.nextjs.1': 'Simple API with few endpoints',
+  'summary.nextjs.2': 'Prefer file-based routing convention',
+  'summary.nextjs.3': 'No complex middleware requirements',
+  'summary.nextjs.4': 'Staying within Next.js ecosystem',
+  'summary.hono.title': 'Hono Catch-All is better when:',
+  'summary.hono.1': 'Complex API with many endpoints',
+  'summary.hono.2': 'Need reusable middleware chains',
+  'summary.hono.3': 'Want type-safe RPC client',
+  'summary.hono.4': 'Require global error handling',
+
+  'decide.title': 'Which one fits your project?',
+  'decide.intro': 'Answer what you already know; the recommendation follows each answer. The address bar keeps the answers, so the link shares them.',
+  'decide.progress': '{answered} of {total} answered',
+  'decide.reset': 'Clear answers',
+  'decide.empty': 'Pick an answer to see a recommendation.',
+  'decide.result.nextjs': 'Recommendation: stay with Route Handlers',
+  'decide.result.hono': 'Recommendation: a Hono catch-all',
+  'decide.result.either': 'Too close to call: either fits',
+  'decide.score': '{side}: {points} points',
+  'decide.see': 'See:',
+
+  'snippet.modified': 'modified',
+  'snippet.diff': 'Diff',
+  'snippet.reset': 'Reset',
+  'snippet.edit': 'Edit',
+  'snippet.done': 'Done',
+  'snippet.run': '▶ Run',
+  'snippet.close': '■ Close',
+  'code.edit': 'Edit {title}',
+  'code.editUntitled': 'Edit code',
+  'code.label': 'Code',
+  'code.copy': 'Copy',
+  'code.copyLines': 'Copy {range}',
+  'code.copied': 'Copied',
+  'code.copyFailed': 'Copy failed',
+  'code.lineNumbers': 'Line numbers',
+  'code.wrap': 'Wrap',
+
+  'request.send': 'Send',
+  'request.sending': 'Sending…',
+  'request.headers': 'Headers',
+  'request.body': 'JSON body',
+  'response.empty': '(empty body)',
+  'compare.hint': 'Send the same request to both sides and diff the responses',
+
+  'routeTable.open': '⌥ Route table generated from “{title}”',
+  'routeTable.close': 'Close the route table',
+  'routeTable.loading': 'Reading the routes…',
+  'routeTable.honoView': 'Hono routes',
+  'routeTable.nextjsView': 'As Next.js files',
+  'routeTable.download': 'Download app/api as .zip',
+  'routeTable.summary': '{routes} routes, in the order Hono matches them. Click one to see where it is registered.',
+  'routeTable.files': '{files} route.ts files for {routes} endpoints',
+  'routeTable.source': 'Registered on line {line}',
+  'routeTable.pattern': 'Registered for {pattern}',
+  'routeTable.inline': 'inline',
+  'routeTable.via': 'via {apps}',
+  'routeTable.unresolved': '{name} is mounted here, but its routes are in another file',
+
+  'mapping.hint': 'Hover a color band in either pane to see its counterpart',
+  'walkthrough.start': '▶ Walkthrough',
+  'walkthrough.step': 'Step {current}/{total} · {title}',
+  'walkthrough.previous': 'Previous step',
+  'walkthrough.next': 'Next step',
+  'walkthrough.exit': 'Exit',
+
+  'presentation.previous': 'Previous slide',
+  'presentation.next': 'Next slide',
+  'presentation.notes': 'Speaker notes',
+  'presentation.exit': 'Exit',
+  'notes.slide': 'Slide {current} / {total}',
+  'notes.next': 'Next: {title}',
+  'notes.end': '(end)',
+  'notes.previous': '← Previous',
+  'notes.forward': 'Next →',
+}
+
+export type MessageKey = keyof typeof en
@@ -0,0 +1,613 @@
+import type { Catalog } from '../types'
+
+export const ja: Catalog = {
+  messages: {
+    'page.title': 'Hono vs Next.js Route Handler',
+    'app.present': '▶ プレゼン',
+    'app.sources': '出典: hono.dev • nextjs.org/docs • vercel.com/docs',
+    'theme.label': 'カラーテーマ',
+    'theme.system': 'システム設定',
+    'locale.label': '言語',
+
+    'overview.intro':
+      'この比較では、Next.js アプリケーションで API を構築する 2 つの方法を取り上げます。ネイティブの <em>Route Handlers</em> を使う方法と、<em>Hono</em> を Next.js 内のキャッチオールハンドラーとして組み込む方法です。',
+    'overview.nextjs.title': 'Next.js Route Handlers',
+    'overview.nextjs.text': 'エンドポイントごとに 1 ファイルのファイルベースルーティング。Next.js に組み込み済み。',
+    'overview.hono.title': 'Hono + Next.js',
+    'overview.hono.text': '<code>app/api/[[...route]]/route.ts</code> のキャッチオールハンドラーとして Hono を使用',
+
+    'hono.intro':
+      '<hono>Hono</hono>（炎）は Web 標準の上に作られた軽量・超高速な Web フレームワークです。Next.js と組み合わせるとキャッチオールハンドラーとして動作し、Vercel へのデプロイはそのままに、Express のようなルーティングとミドルウェアで API を構築できます。',
+    'hono.stat.bundle': 'バンドル',
+    'hono.stat.ops': 'Ops/秒',
+    'hono.stat.middleware': 'ミドルウェア',
+    'hono.stat.version': 'バージョン',
+    'hono.serverOnly': 'サーバー上でのみ動作 — ページのバンドルサイズは増えません',
+    'hono.measured': 'バンドル (hono/tiny、minify 済み) と Ops/秒 は<link>下のベンチマーク</link>で計測しています',
+
+    'bench.intro':
+      'このセクションと上のタイルの数値はすべて <code>pnpm bench</code> が出力した <code>src/content/benchmarks.json</code> によるものです。手元で再実行すれば再現できます。',
+    'bench.throughput': 'ルーティングのスループット (リクエスト/秒、高いほど良い)',
+    'bench.coldStart': 'コールドスタート (最初のレスポンスまでの時間、低いほど良い)',
+    'bench.bundle': 'バンドルサイズ',
+    'bench.minified': 'minify 済み',
+    'bench.table': '{name} · {count} ルート',
+    'bench.methodology': '計測方法',
+    'bench.methodology.1':
+      '両者は同じルートテーブルを扱います。ファイル構成トピックの 6 つのエンドポイントに加え、半数が動的セグメントを持つ {sizes} ルートの合成テーブルです。',
+    'bench.methodology.2':
+      'Next.js 側はこのサイトの App Router エミュレーション (<code>src/sandbox/nextjs.ts</code>) で、ルートを具体性の順に並べてセグメントごとに照合します。独自のリクエスト処理を上乗せする Next.js サーバーそのものではありません。',
+    'bench.methodology.3':
+      'スループット: 各操作で Request を作り、app.fetch またはディスパッチャーの Response を await します。URL はルートごとに 1 つずつ巡回します。ウォームアップ後、{sampleMs} ms のサンプル {samples} 回の中央値で、シングルスレッドです。',
+    'bench.methodology.4':
+      'コールドスタート: ルーターの作成、全ルートの登録、最初のリクエストへの応答まで。新しいインスタンス {runs} 個の中央値で、モジュールの読み込みは含みません。',
+    'bench.methodology.5':
+      'バンドルサイズ: エントリーポイントごとの最小アプリを Vite でバンドルし minify したものです。Route Handler 自体はフレームワークのコードを追加しないため、Next.js のエントリーはありません。',
+    'bench.environment': '{date} に Node {node}、{platform}、{cpu}、hono {hono} で計測。',
+
+    'comparison.hint': 'タブをクリックするか、タブにフォーカスして矢印キーで比較トピックを切り替えます',
+    'comparison.tabs': '比較トピック',
+    'comparison.notWritten': 'このトピックの {framework} の例はまだありません。',
+    'comparison.notApplicable': '該当なし',
+    'frameworks.label': '比較する',
+    'frameworks.limit': '{min}〜{max} 個のフレームワーク',
+
+    'search.open': '検索',
+    'search.shortcut': 'ページ内を検索（Ctrl+K または ⌘K）',
+    'search.label': 'ページ内を検索',
+    'search.placeholder': 'セクション、トピック、コードを検索…',
+    'search.loading': 'インデックスを読み込み中…',
+    'search.failed': 'インデックスを読み込めませんでした。',
+    'search.retry': '再試行',
+    'search.empty': '「{query}」に一致するものはありません。',
+    'search.hint': '↑↓ で選択、Enter で移動、Esc で閉じる',
+    'search.line': '{line} 行目',
+    'search.kind.section': 'セクション',
+    'search.kind.topic': 'トピック',
+    'search.kind.summary': '概要',
+    'search.kind.code': 'コード',
+
+    'report.open': 'エクスポート',
+    'report.title': 'レポートとしてエクスポート',
+    'report.frameworks': '比較にはタブの上で選んだ {frameworks} を載せます。',
+    'report.topics': 'トピック',
+    'report.all': 'すべて',
+    'report.none': 'なし',
+    'report.markdown': 'Markdown をダウンロード',
+    'report.pdf': '印刷 / PDF として保存',
+    'report.close': '閉じる',
+    'report.print': '印刷',
+    'report.back': 'ページに戻る',
+    'report.mappings': 'コードの対応',
+
+    'widget.unknownTopic': '「{topic}」という比較はありません',
+
+    'catalog.intro': 'hono {version} に同梱されている {count} 個のミドルウェアです。インストール済みのパッケージから読み取っています。',
+    'catalog.filter': 'ミドルウェアを絞り込む',
+    'catalog.docs': 'ドキュメント',
+    'catalog.example': '例',
+    'catalog.hideExample': '例を閉じる',
+    'catalog.empty': '「{query}」に一致するミドルウェアはありません。',
+
+    'rpc.intro':
+      'Next.js と組み合わせたときの Hono ならではの機能のひとつが、サーバーとクライアントで型定義を共有できることです。コード生成なしでエンドツーエンドの型安全性が得られます。',
+
+    'playground.open': '✎ 試してみる: 両側を編集して型の変化を見る',
+    'playground.close': 'プレイグラウンドを閉じる',
+    'playground.intro':
+      'どのファイルも編集でき、ブラウザーで動く TypeScript が入力に合わせてチェックします。両側の <code>postSchema</code> にフィールドを追加してみてください。Hono のクライアントはそのフィールドを送るまでコンパイルが通りませんが、手書きの Next.js の型は、もう一致しないルートに対してもコンパイルが通り続けます。クライアントで <code>.</code> を入力すると、コンパイラーが把握している内容が表示されます。',
+    'playground.loading': 'TypeScript を読み込み中…',
+    'playground.checking': 'チェック中…',
+    'playground.failed': '型チェッカーが停止しました: {message}',
+    'playground.errors': 'エラー: {count}',
+    'playground.clean': '型エラーはありません',
+    'playground.line': '{line} 行目',
+    'playground.cursorHint': '名前の後ろにカーソルを置くと型が表示されます',
+    'playground.complete': '{name} を補完',
+
+    'migrate.intro':
+      'App Router の API をファイルごとに <code>// app/api/…/route.ts</code> の見出しを付けて貼り付けるか、プロジェクトのフォルダーをアップロードしてください。TypeScript コンパイラーがすべてのルートを読み込み、同じハンドラーを Hono に登録する 1 つの <code>[[...route]]/route.ts</code> を書き出します。変換できなかった箇所はレポートにまとめます。',
+    'migrate.yourRoutes': 'あなたの Route Handler',
+    'migrate.convert': '⇄ Hono に変換',
+    'migrate.converting': '変換中…',
+    'migrate.upload': 'フォルダーをアップロード',
+    'migrate.failed': '変換が止まりました: {message}',
+    'migrate.empty': '変換するものがありません: app/api の下に Route Handler がありません。',
+    'migrate.routes': 'ルート（{count}）',
+    'migrate.report': 'レポート',
+    'migrate.clean': 'すべて変換しました。',
+    'migrate.note.notRoute': '{file} はルートファイルではないので、そのまま残ります。',
+    'migrate.note.outsideApi': '{file} は app/api の外にあるので、Route Handler のまま残ります。',
+    'migrate.note.alreadyHono': '{file} はすでに Hono を使っているため、対象から外しました。',
+    'migrate.note.parseError': '{file} は構文解析できない（{message}）ため、スキップしました。',
+    'migrate.note.noHandlers': '{file} は HTTP メソッドのハンドラーをエクスポートしていません。',
+    'migrate.note.unsupportedSegment': '{file} はスキップしました: {segment} セグメントに相当するものが Hono にはありません。',
+    'migrate.note.duplicateRoute': '{file}: {method} {path} は別のファイルで登録済みのため、スキップしました。',
+    'migrate.note.unknownExport': '{file}: エクスポート {name} はハンドラーでもセグメント設定でもないため、エクスポートしなくなりました。',
+    'migrate.note.configConflict': '{file}: {name} が別のルートと異なります。キャッチオールは最初の値をすべてのルートに使います。',
+    'migrate.note.renamed': '{file}: {from} が別のファイルと衝突するため、{to} に改名しました。',
+    'migrate.note.wrapped': '{file}: {method} は単純な関数ではないため、キャッチオールは元のリクエストと params でそれを呼び出します。',
+    'migrate.note.reexported': '{file}: {method} は宣言ではなく名前でエクスポートされているため、キャッチオールは元のリクエストと params でそれを呼び出します。',
+    'migrate.note.nextRequest': '{file}: {method} は NextRequest のプロパティを使っています。引き続き NextRequest を受け取りますが、Hono では c.req.query() と getCookie() で同じことができます。',
+    'migrate.note.middleware': '{count} 個のハンドラーにある同じ {name} の try/catch を 1 つのミドルウェアにまとめました。',
+
+    'summary.nextjs.title': 'Next.js Route Handlers が向いているのは:',
+    'summary.nextjs.1': 'エンドポイントが少ないシンプルな API',
+    'summary.nextjs.2': 'ファイルベースのルーティング規約を好む場合',
+    'summary.nextjs.3': '複雑なミドルウェアが不要な場合',
+    'summary.nextjs.4': 'Next.js のエコシステム内に留まりたい場合',
+    'summary.hono.title': 'Hono キャッチオールが向いているのは:',
+    'summary.hono.1': 'エンドポイントが多い複雑な API',
+    'summary.hono.2': '再利用できるミドルウェアチェーンが必要な場合',
+    'summary.hono.3': '型安全な RPC クライアントが欲しい場合',
+    'summary.hono.4': 'グローバルなエラーハンドリングが必要な場合',
+
+    'decide.title': 'このプロジェクトに合うのはどちら？',
+    'decide.intro': 'わかる質問から答えてください。回答するたびにおすすめが変わります。回答はアドレスバーに残るので、そのリンクで共有できます。',
+    'decide.progress': '{total} 問中 {answered} 問回答済み',
+    'decide.reset': '回答をクリア',
+    'decide.empty': '回答を選ぶとおすすめが表示されます。',
+    'decide.result.nextjs': 'おすすめ: Route Handlers のままで十分',
+    'decide.result.hono': 'おすすめ: Hono キャッチオール',
+    'decide.result.either': '僅差です: どちらでも構いません',
+    'decide.score': '{side}: {points} 点',
+    'decide.see': '参照:',
+
+    'snippet.modified': '変更あり',
+    'snippet.diff': '差分',
+    'snippet.reset': 'リセット',
+    'snippet.edit': '編集',
+    'snippet.done': '完了',
+    'snippet.run': '▶ 実行',
+    'snippet.close': '■ 閉じる',
+    'code.edit': '{title} を編集',
+    'code.editUntitled': 'コードを編集',
+    'code.label': 'コード',
+    'code.copy': 'コピー',
+    'code.copyLines': '{range} をコピー',
+    'code.copied': 'コピーしました',
+    'code.copyFailed': 'コピーできませんでした',
+    'code.lineNumbers': '行番号',
+    'code.wrap': '折り返し',
+
+    'request.send': '送信',
+    'request.sending': '送信中…',
+    'request.headers': 'ヘッダー',
+    'request.body': 'JSON ボディ',
+    'response.empty': '（空のボディ）',
+    'compare.hint': '同じリクエストを両方に送り、レスポンスの差分を表示します',
+
+    'routeTable.open': '⌥ 「{title}」から生成したルート表',
+    'routeTable.close': 'ルート表を閉じる',
+    'routeTable.loading': 'ルートを読み込み中…',
+    'routeTable.honoView': 'Hono のルート',
+    'routeTable.nextjsView': 'Next.js のファイルとして',
+    'routeTable.download': 'app/api を .zip でダウンロード',
+    'routeTable.summary': 'Hono が照合する順に {routes} 個のルート。クリックすると登録箇所を表示します。',
+    'routeTable.files': '{routes} 個のエンドポイントに {files} 個の route.ts ファイル',
+    'routeTable.source': '{line} 行目で登録',
+    'routeTable.pattern': '{pattern} に登録',
+    'routeTable.inline': 'インライン',
+    'routeTable.via': '{apps} 経由',
+    'routeTable.unresolved': '{name} がここにマウントされていますが、そのルートは別のファイルにあります',
+
+    'mapping.hint': 'どちらかのペインの色帯にカーソルを合わせると、対応する箇所が表示されます',
+    'walkthrough.start': '▶ ウォークスルー',
+    'walkthrough.step': 'ステップ {current}/{total} · {title}',
+    'walkthrough.previous': '前のステップ',
+    'walkthrough.next': '次のステップ',
+    'walkthrough.exit': '終了',
+
+    'presentation.previous': '前のスライド',
+    'presentation.next': '次のスライド',
+    'presentation.notes': 'スピーカーノート',
+    'presentation.exit': '終了',
+    'notes.slide': 'スライド {current} / {total}',
+    'notes.next': '次: {title}',
+    'notes.end': '（終わり）',
+    'notes.previous': '← 前へ',
+    'notes.forward': '次へ →',
+  },
+
+  content: {
+    'side.nextjs': 'Next.js Route Handler',
+    'side.hono': 'Hono キャッチオール',
+    'side.express': 'Express',
+    'side.elysia': 'Elysia',
+    'side.trpc': 'tRPC',
+    'side.nextjs.description': 'Next.js App Router のファイルベースの API ルート',
+    'side.hono.description': '1 つのキャッチオール Route Handler の中で動く Web 標準のルーター',
+    'side.express.description': '(req, res, next) ミドルウェアを持つ、昔からある Node.js のルーター',
+    'side.elysia.description': 'スキーマ検証とエンドツーエンドの型を備えた Bun 向けのフレームワーク',
+    'side.trpc.description': 'REST ルートの代わりに型付きのプロシージャを型付きクライアントから呼ぶ',
+    'section.overview.title': '概要',
+    'section.overview.notes':
+      'Next.js アプリ内で API を作る 2 つの方法: エンドポイントごとの Route Handler ファイルか、すべてのリクエストを Hono に渡す 1 つのキャッチオール Route Handler か。デプロイ方法はどちらも同じです。',
+    'section.hono.title': 'Hono とは?',
+    'section.hono.notes':
+      'Hono は Web 標準の Request/Response の上に作られた小さなルーターなので、Route Handler の中でそのまま動きます。サーバー上でしか動かないため、ページに余分な JavaScript は追加されません。',
+    'section.benchmarks.title': 'ベンチマーク',
+    'section.benchmarks.notes':
+      'ここの数値はすべてこのリポジトリの pnpm bench が出したものです。注意点として、Next.js 側は App Router の照合のエミュレーションで、リクエストはプロセスの外に出ないことに触れます。',
+    'section.comparison.title': '詳細な比較',
+    'section.comparison.notes': '各トピックを左右に並べて順に見ていきます。',
+    'section.catalog.title': '組み込みミドルウェア',
+    'section.catalog.notes':
+      'この一覧はビルド時にインストール済みの hono パッケージから生成されるので、バージョンを上げれば自動で更新されます。例のあるものはページ内でそのまま実行できます。',
+    'section.rpc.title': 'Hono RPC - 型安全な API クライアント',
+    'section.rpc.notes':
+      'サーバーはルートチェーンの型をエクスポートし、hc<AppRoutes> がそれを型付きクライアントに変えます。コード生成も手書きのレスポンス型も不要です。',
+    'section.migrate.title': '移行アシスタント',
+    'section.migrate.notes':
+      '既存の Route Handler をそのまま貼り付けると、同じハンドラーを登録する Hono のキャッチオールが返ってきます。各ファイルで繰り返していた認証チェックが 1 つのミドルウェアになるところを見せます。',
+    'section.summary.title': 'まとめ',
+    'section.summary.notes':
+      'エンドポイントが数個なら Route Handlers で十分です。共有ミドルウェア、統一されたエラー形式、型付きクライアントが必要になったら Hono を選びましょう。',
+
+    'topic.structure.label': 'ファイル構成',
+    'topic.structure.title': 'ファイル構成',
+    'topic.structure.nextjs.summary': '新しいエンドポイント = ネストしたフォルダーに新しいファイルを作成',
+    'topic.structure.nextjs.1.title': 'Next.js Route Handlers',
+    'topic.structure.hono.summary': '新しいエンドポイント = コードを 1 行追加',
+    'topic.structure.hono.1.title': 'Hono キャッチオールハンドラー',
+    'topic.structure.mapping.users': '一方のフォルダーと route.ts ファイルが、もう一方では app.get() の 1 行になります。',
+    'topic.structure.mapping.posts': '[id] フォルダーは :id パスパラメーターになります。',
+    'topic.structure.mapping.auth': 'login/logout のネストしたフォルダーは 2 つの登録にまとまります。',
+    'topic.structure.mapping.entry':
+      'Next.js はすべての route.ts を自動で検出します。Hono にはリクエストをアプリに渡すキャッチオールファイルが 1 つ必要です。',
+    'topic.structure.step.1.title': 'エンドポイントごとに 1 ファイル',
+    'topic.structure.step.1.text':
+      'Route Handlers ではフォルダーのパスがそのまま URL になります。エンドポイントが 6 つなら、route.ts も 6 つのネストしたフォルダーに散らばります。',
+    'topic.structure.step.2.title': 'キャッチオールファイルは 1 つ',
+    'topic.structure.step.2.text':
+      'オプショナルキャッチオールセグメント [[...route]] が /api へのすべてのリクエストを 1 つの route.ts に送り、そこから Hono に渡します。',
+    'topic.structure.step.3.title': 'ルートはコードの行',
+    'topic.structure.step.3.text':
+      '各エンドポイントは 1 つの登録になります。エンドポイントの追加は、新しいフォルダーとファイルではなく 1 行の変更です。',
+    'topic.structure.step.4.title': 'Next.js への接続',
+    'topic.structure.step.4.text':
+      'Hono も Route Handler としてデプロイされます。エクスポートした GET と POST が handle() を通してアプリに処理を委ねます。',
+
+    'topic.routing.label': 'ルート登録',
+    'topic.routing.title': 'ルート登録',
+    'topic.routing.nextjs.summary': 'ファイルベースで、フォルダー構成から暗黙的に決まる',
+    'topic.routing.nextjs.1.title': 'Next.js ファイルベースルーティング',
+    'topic.routing.hono.summary': 'プログラムで、app.get/post などで明示的に登録',
+    'topic.routing.hono.1.title': 'Hono プログラマブルルーティング',
+    'topic.routing.express.summary': 'app.get/post などで書いた Router をプレフィックスの下にマウント',
+    'topic.routing.express.1.title': 'Express（Router）',
+    'topic.routing.elysia.summary': 'インスタンスへのメソッドチェーンを、プラグインとして組み合わせる',
+    'topic.routing.elysia.1.title': 'Elysia（メソッドチェーン）',
+    'topic.routing.trpc.summary': 'ネストしたルーターのプロシージャを 1 つのキャッチオールルートから提供',
+    'topic.routing.trpc.1.title': 'tRPC（プロシージャ）',
+    'topic.routing.mapping.tree':
+      'Next.js ではフォルダー名がパスセグメントになり、Hono ではパスは登録時の文字列です。',
+    'topic.routing.mapping.methods':
+      'エクスポートした GET/POST/PUT/DELETE 関数は app.get/post/put/delete に対応します。Hono ではエクスポートはアプリに転送するだけです。',
+    'topic.routing.mapping.groups':
+      'Next.js には共有ミドルウェア付きのルートグループがありません。Hono は app.route() でサブアプリを組み合わせます。',
+    'topic.routing.step.1.title': '暗黙のルート',
+    'topic.routing.step.1.text': 'Next.js はフォルダーのパスから URL を導きます。[id] フォルダーは動的セグメントになります。',
+    'topic.routing.step.2.title': 'メソッドはエクスポート',
+    'topic.routing.step.2.text': 'route.ts ファイルは、メソッド名の関数をエクスポートすることでそのメソッドに応答します。',
+    'topic.routing.step.3.title': '明示的な登録',
+    'topic.routing.step.3.text':
+      'Hono はすべてのメソッドとパスを 1 か所に並べるので、API 全体を上から下へ読み通せます。',
+    'topic.routing.step.4.title': 'グループとサブアプリ',
+    'topic.routing.step.4.text':
+      'サブアプリはミドルウェアを共有し、プレフィックスの下にマウントされます。Route Handlers には同等の仕組みがありません。',
+
+    'topic.auth.label': '認証ミドルウェア',
+    'topic.auth.title': '認証ミドルウェア',
+    'topic.auth.nextjs.summary': 'すべてのルートファイルで認証関数をインポートして呼び出す',
+    'topic.auth.nextjs.1.title': 'Next.js（ルートごとに手動）',
+    'topic.auth.hono.summary': 'ミドルウェアとして一度定義すれば、一致するすべてのルートに適用',
+    'topic.auth.hono.1.title': 'Hono（ミドルウェアチェーン）',
+    'topic.auth.express.summary': 'プレフィックスにマウントした 1 つのミドルウェアが res.locals でデータを渡す',
+    'topic.auth.express.1.title': 'Express（requireAuth ミドルウェア）',
+    'topic.auth.elysia.summary': 'scoped な resolve() プラグインが、使うルートに型付きの userId を追加',
+    'topic.auth.elysia.1.title': 'Elysia（scoped な resolve）',
+    'topic.auth.trpc.summary': '保護されたプロシージャがチェックを行い、型付きのコンテキストを拡張',
+    'topic.auth.trpc.1.title': 'tRPC（保護されたプロシージャ）',
+    'topic.auth.mapping.check':
+      'トークンのチェックは、Next.js ではすべてのルートが呼ぶヘルパー、Hono では一度だけ登録するミドルウェアです。',
+    'topic.auth.mapping.users':
+      'Next.js のハンドラーは自前の try/catch で囲みます。Hono のハンドラーはコンテキストから userId を読むだけです。',
+    'topic.auth.mapping.posts': '2 つ目のルートでは、Next.js は認証パターンをすべて繰り返し、Hono は何も繰り返しません。',
+    'topic.auth.step.1.title': '共有ヘルパー',
+    'topic.auth.step.1.text':
+      'Next.js の Route Handlers にはルート単位のミドルウェアがないため、認証はトークンがないと例外を投げるヘルパーに置かれます。',
+    'topic.auth.step.2.title': 'すべてのルートから呼び出す',
+    'topic.auth.step.2.text': '各ハンドラーがヘルパーを呼び、そのエラーを自分で 401 に変換します。',
+    'topic.auth.step.3.title': 'ミドルウェアは一度だけ定義',
+    'topic.auth.step.3.text':
+      'Hono は /protected/* に対してチェックを一度だけ登録します。401 でリクエストを止めることも、コンテキスト経由で userId を渡すこともできます。',
+    'topic.auth.step.4.title': 'ハンドラーは本題に集中',
+    'topic.auth.step.4.text': '保護されたルートはコンテキストから userId を読むだけで、認証コードは一切含みません。',
+
+    'topic.error.label': 'エラーハンドリング',
+    'topic.error.title': 'エラーハンドリング',
+    'topic.error.nextjs.summary': 'ルートごとの try/catch で、形式がばらつきやすい',
+    'topic.error.nextjs.1.title': 'Next.js（不統一）',
+    'topic.error.hono.summary': 'グローバルエラーハンドラーで、レスポンス形式が統一される',
+    'topic.error.hono.1.title': 'Hono（グローバルハンドラー）',
+    'topic.error.express.summary': 'throw したエラーは最後に登録した 4 引数のハンドラー 1 つに届く',
+    'topic.error.express.1.title': 'Express（エラーハンドラー）',
+    'topic.error.elysia.summary': 'onError() がそれ以降のルートで throw されたものを捕まえる',
+    'topic.error.elysia.1.title': 'Elysia（onError）',
+    'topic.error.trpc.summary': 'TRPCError のコードがステータスに対応し、errorFormatter がすべてのエラーを整形',
+    'topic.error.trpc.1.title': 'tRPC（TRPCError）',
+    'topic.error.mapping.handler':
+      'Next.js では各ルートが自分でエラーレスポンスを組み立て、Hono ではすべてを app.onError で組み立てます。',
+    'topic.error.mapping.happy-path':
+      'Hono のハンドラーはエラーレスポンスをその場で作らず、HTTPException を投げます。',
+    'topic.error.step.1.title': 'ルートごとのエラー処理',
+    'topic.error.step.1.text': 'すべての Route Handler が処理を try/catch で囲み、独自のエラーボディを組み立てます。',
+    'topic.error.step.2.title': '形式がずれていく',
+    'topic.error.step.2.text':
+      '1 つ目のルートが { message } を返すのに対し、2 つ目は { error, details } を返します。クライアントは両方に対応しなければなりません。',
+    'topic.error.step.3.title': '1 つのグローバルハンドラー',
+    'topic.error.step.3.text':
+      'app.onError はどのルートから投げられたエラーも受け取り、レスポンス形式を 1 か所で決めます。',
+    'topic.error.step.4.title': '整形せずに投げる',
+    'topic.error.step.4.text':
+      'ハンドラーはステータスとメッセージを付けて HTTPException を投げ、グローバルハンドラーがそれをレスポンスに変えます。',
+
+    'topic.middleware.label': 'ミドルウェア',
+    'topic.middleware.title': 'ミドルウェア',
+    'topic.middleware.nextjs.summary': 'ページ向けに設計されており、API 層には不向き（公式ドキュメント）',
+    'topic.middleware.nextjs.1.title': 'Next.js ミドルウェア',
+    'topic.middleware.hono.summary': 'API の認証、ログ、CORS、バリデーションに最適',
+    'topic.middleware.hono.1.title': 'Hono ミドルウェア',
+    'topic.middleware.mapping.definition':
+      'middleware.ts はページのルーティング前に動き、Hono のミドルウェアは API ハンドラーの中で動きます。',
+    'topic.middleware.mapping.scope':
+      'Next.js は matcher で API を除外し、Hono はパスパターンでミドルウェアの範囲を決めます。',
+    'topic.middleware.step.1.title': 'ページ向けの設計',
+    'topic.middleware.step.1.text':
+      'middleware.ts はルーティングの前に動き、リダイレクト、リライト、ページ単位のチェックのためのものです。',
+    'topic.middleware.step.2.title': 'API からは除外',
+    'topic.middleware.step.2.text':
+      '一般的な matcher は /api を除外するため、Route Handlers にはミドルウェアがまったく適用されません。',
+    'topic.middleware.step.3.title': 'API の中のミドルウェア',
+    'topic.middleware.step.3.text':
+      'Hono のミドルウェアはキャッチオールハンドラーの中でパスごとに動き、コンテキストを通してルートと値を共有できます。',
+
+    'topic.validation.label': 'バリデーション',
+    'topic.validation.title': 'リクエストのバリデーション',
+    'topic.validation.nextjs.summary': 'ハンドラーごとにボディを手でパースしてチェックする',
+    'topic.validation.nextjs.1.title': 'Next.js（手動パース）',
+    'topic.validation.hono.summary': 'zValidator ミドルウェアがハンドラーの前にボディをチェックする',
+    'topic.validation.hono.1.title': 'Hono（zValidator）',
+    'topic.validation.express.summary': 'express.json() の後、各ハンドラーで req.body を zod でパース',
+    'topic.validation.express.1.title': 'Express（手動の zod）',
+    'topic.validation.elysia.summary': 'ルートの t.Object() スキーマがボディを検証し型を付ける',
+    'topic.validation.elysia.1.title': 'Elysia（t.Object スキーマ）',
+    'topic.validation.trpc.summary': '.input() がプロシージャの呼び出しごとに検証と型付けを行う',
+    'topic.validation.trpc.1.title': 'tRPC（.input）',
+    'topic.validation.mapping.schema': 'どちらも同じ zod スキーマでボディを記述します。',
+    'topic.validation.mapping.parse':
+      'Next.js は JSON の読み込み、不正なボディの捕捉、スキーマエラーの報告を自分で行います。zValidator はその 3 つをすべて行います。',
+    'topic.validation.mapping.typed': 'result.data も c.req.valid() も、スキーマから推論された型を持ちます。',
+    'topic.validation.step.1.title': '手でパースする',
+    'topic.validation.step.1.text':
+      'request.json() は不正なボディで例外を投げるので、ハンドラーはチェックの前にそれを捕捉します。',
+    'topic.validation.step.2.title': '手でチェックする',
+    'topic.validation.step.2.text':
+      'safeParse() は例外の代わりに問題の一覧を返し、400 の形はハンドラーが決めます。これをすべてのルートで繰り返します。',
+    'topic.validation.step.3.title': 'チェーンの中のバリデーター',
+    'topic.validation.step.3.text':
+      'zValidator はハンドラーの前に動いて自分で 400 を返すので、ハンドラーには正しい入力しか届きません。',
+
+    'topic.cors.label': 'CORS',
+    'topic.cors.title': 'クロスオリジンリクエスト',
+    'topic.cors.nextjs.summary': 'ルートファイルごとにヘッダーと OPTIONS ハンドラー、または next.config で設定',
+    'topic.cors.nextjs.1.title': 'Next.js（ルートごとのヘッダー）',
+    'topic.cors.hono.summary': '1 つの cors() ミドルウェアがプリフライトとレスポンスを担う',
+    'topic.cors.hono.1.title': 'Hono（cors ミドルウェア）',
+    'topic.cors.trpc.summary': 'tRPC が動くサーバーやアダプターに任され、そちらが CORS ヘッダーを付ける',
+    'topic.cors.mapping.policy': '同じポリシーが、Next.js ではヘッダーのオブジェクト、Hono では cors() のオプションになります。',
+    'topic.cors.mapping.preflight':
+      'Next.js ではプリフライトに OPTIONS のエクスポートが必要です。cors() はルートがマッチする前に応答します。',
+    'topic.cors.mapping.response': 'Next.js のレスポンスはそれぞれヘッダーを渡します。Hono のハンドラーは CORS に触れません。',
+    'topic.cors.step.1.title': 'ヘッダーとしてのポリシー',
+    'topic.cors.step.1.text':
+      'Route Handlers には CORS のオプションがないので、許可するオリジン、メソッド、ヘッダーはただのオブジェクトです。',
+    'topic.cors.step.2.title': 'プリフライトとレスポンス',
+    'topic.cors.step.2.text':
+      'ファイルはプリフライト用に OPTIONS をエクスポートし、返すすべてのレスポンスにヘッダーを付けます。実行すると 204 が返ります。',
+    'topic.cors.step.3.title': '1 つのミドルウェア',
+    'topic.cors.step.3.text':
+      'cors() はプリフライトに自分で応答し、ルートが返すものにヘッダーを付けます。すべてのルートに一度に効きます。',
+
+    'topic.streaming.label': 'ストリーミング',
+    'topic.streaming.title': 'ストリーミングと Server-Sent Events',
+    'topic.streaming.nextjs.summary': 'ReadableStream を作り、イベントの形式を自分で整える',
+    'topic.streaming.nextjs.1.title': 'Next.js（ReadableStream）',
+    'topic.streaming.hono.summary': 'streamSSE() がヘッダーを設定し、イベントを整形する',
+    'topic.streaming.hono.1.title': 'Hono（streamSSE）',
+    'topic.streaming.mapping.stream':
+      'Next.js では独自のコントローラーを持つ ReadableStream、Hono ではストリームオブジェクトを受け取るコールバックです。',
+    'topic.streaming.mapping.events': 'Next.js は event: と data: の行を自分でエンコードします。writeSSE() はオブジェクトから同じことをします。',
+    'topic.streaming.mapping.headers': 'event-stream のヘッダーは Next.js では書き出し、Hono では streamSSE() が設定します。',
+    'topic.streaming.step.1.title': '手で作るストリーム',
+    'topic.streaming.step.1.text':
+      'ハンドラーは ReadableStream を作り、イベント間の空行も含めてエンコードしたバイトを流し込みます。',
+    'topic.streaming.step.2.title': '正しいヘッダー',
+    'topic.streaming.step.2.text':
+      'text/event-stream がないとブラウザーは EventSource のストリームとして扱わないので、ヘッダーはこうしたルートすべてに必要です。',
+    'topic.streaming.step.3.title': 'streamSSE()',
+    'topic.streaming.step.3.text':
+      'Hono はヘッダーを設定し、各イベントをオブジェクトから整形し、コールバックが終わるとストリームを閉じます。',
+
+    'topic.testing.label': 'テスト',
+    'topic.testing.title': 'ハンドラーのテスト',
+    'topic.testing.nextjs.summary': 'エクスポートされた関数を NextRequest と手作りの params で呼ぶ',
+    'topic.testing.nextjs.1.title': 'Next.js（GET を呼ぶ）',
+    'topic.testing.hono.summary': 'app.request() がアプリ全体にリクエストを通す',
+    'topic.testing.hono.1.title': 'Hono（app.request）',
+    'topic.testing.mapping.handler': '両側で同じハンドラーをテストします。',
+    'topic.testing.mapping.request':
+      'Next.js のテストはリクエストとルーターが渡すはずの params を組み立てます。Hono のテストはパスを指定するだけです。',
+    'topic.testing.mapping.assert': 'どちらも標準の Response が返るので、アサーションは同じです。',
+    'topic.testing.step.1.title': '関数をテストする',
+    'topic.testing.step.1.text': 'Route Handler はエクスポートされた関数なので、テストはそれをインポートして直接呼びます。',
+    'topic.testing.step.2.title': 'ルーターの代わりをする',
+    'topic.testing.step.2.text':
+      'テストは NextRequest と params の Promise を自分で作ります。ミドルウェアとルートのマッチはテストに含まれません。',
+    'topic.testing.step.3.title': 'アプリをテストする',
+    'topic.testing.step.3.text':
+      'app.request() はルーティング、ミドルウェア、ハンドラーをプロセス内で通します。本物のリクエストと同じ経路です。',
+
+    'topic.openapi.label': 'OpenAPI',
+    'topic.openapi.title': 'OpenAPI ドキュメント',
+    'topic.openapi.nextjs.summary': '仕様を別に書き、ルートと合わせ続ける',
+    'topic.openapi.nextjs.1.title': 'Next.js（手書きの仕様）',
+    'topic.openapi.hono.summary': '@hono/zod-openapi がルート定義から仕様を生成する',
+    'topic.openapi.hono.1.title': 'Hono（@hono/zod-openapi）',
+    'topic.openapi.trpc.summary': 'プロシージャは REST のパスではなく、クライアントは仕様の代わりにルーターの型を共有する',
+    'topic.openapi.mapping.route':
+      'ルートそのもの: Next.js ではフォルダーと GET のエクスポート、Hono では createRoute() の定義です。',
+    'topic.openapi.mapping.handler': 'Hono のハンドラーは params が検証され、レスポンスが定義に照らしてチェックされます。',
+    'topic.openapi.mapping.spec': 'Next.js の仕様はルートの 2 つ目のコピーです。app.doc() は 1 つ目から導き出します。',
+    'topic.openapi.step.1.title': 'ルートと仕様が別々',
+    'topic.openapi.step.1.text':
+      'Next.js には読み取れるルートのメタデータがないので、仕様は手で書き、専用のルートから配信します。',
+    'topic.openapi.step.2.title': '定義としてのルート',
+    'topic.openapi.step.2.text':
+      'createRoute() はパス、params、レスポンスを zod スキーマで記述します。仕様に必要なものが一か所にそろいます。',
+    'topic.openapi.step.3.title': '仕様がついてくる',
+    'topic.openapi.step.3.text':
+      'app.openapi() は定義からハンドラーを検証・型付けし、app.doc() は登録されたすべてのルートから作った仕様を配信します。',
+
+    'rpc.server.title': 'サーバー（型をエクスポート）',
+    'rpc.client.title': 'クライアント（型安全な呼び出し）',
+
+    'playground.nextjs.1.title': 'Route Handler',
+    'playground.nextjs.2.title': '手書きの型を使うクライアント',
+    'playground.hono.1.title': 'サーバー',
+    'playground.hono.2.title': 'クライアント（hc<AppRoutes>）',
+
+    'migrate.example.title': '変換する Route Handler',
+
+    'decision.endpoints.question': 'API のエンドポイントはいくつになりますか？',
+    'decision.endpoints.few.label': '数個（10 未満）',
+    'decision.endpoints.few.reason': 'app/api の下に数ファイルなら見通しがよく、覚えるルーターもありません。',
+    'decision.endpoints.some.label': '10〜30',
+    'decision.endpoints.some.reason': 'ファイルが十数個を超えると、すべてのルートを一か所で見渡せることが効いてきます。',
+    'decision.endpoints.many.label': '30 より多い',
+    'decision.endpoints.many.reason': '数十個のルートファイルは見渡しにくくなります。ルートテーブルなら一か所にまとまり、route() でグループにできます。',
+    'decision.middleware.question': 'ハンドラーの前に何を実行しますか？',
+    'decision.middleware.none.label': '共通の処理はない',
+    'decision.middleware.none.reason': '共通の処理がなければ、Route Handler はそれぞれ独立していられます。',
+    'decision.middleware.auth.label': '一部のルートで認証チェック',
+    'decision.middleware.auth.reason': 'Route Handlers ではファイルごとに認証チェックを繰り返しますが、Hono ではパスパターンに 1 回登録するだけです。',
+    'decision.middleware.layers.label': 'ロギング、CORS、レート制限、認証など複数の層',
+    'decision.middleware.layers.reason': '決まった順序で組み合わせられるミドルウェアは Hono の中心にある仕組みです。middleware.ts はパスをマッチするだけです。',
+    'decision.client.question': 'フロントエンドに型付きの API クライアントが必要ですか？',
+    'decision.client.none.label': 'いいえ、Server Actions と fetch で足りる',
+    'decision.client.none.reason': '別のクライアントがなければ、共有すべきリクエストとレスポンスの型もありません。',
+    'decision.client.typed.label': 'はい、サーバーのコードから型付けしたい',
+    'decision.client.typed.reason': 'Hono RPC はルートのチェーンからクライアントを導き出すので、コード生成が要りません。',
+    'decision.runtime.question': 'API はどこで動く必要がありますか？',
+    'decision.runtime.nextjs.label': 'この Next.js アプリの中だけ',
+    'decision.runtime.nextjs.reason': 'Next.js から出ない API なら、Next.js の規約以外は要りません。',
+    'decision.runtime.edge.label': 'Cloudflare Workers、Deno、Bun でも',
+    'decision.runtime.edge.reason': 'Hono は Web 標準の Request と Response しか使わないので、同じアプリがどこでも動きます。',
+    'decision.runtime.split.label': '別のサービスに切り出すかもしれない',
+    'decision.runtime.split.reason': 'Hono のアプリはルートを書き直さずにキャッチオールから独立したサーバーへ移せます。',
+    'decision.team.question': 'チームがすでに知っているのは？',
+    'decision.team.nextjs.label': 'Next.js は知っているが Hono は知らない',
+    'decision.team.nextjs.reason': 'チームが知っているファイル規約なら導入コストはかかりません。',
+    'decision.team.express.label': 'Express などのルーター',
+    'decision.team.express.reason': 'app.get()、use()、route() は Express と同じように読めます。',
+    'decision.team.both.label': '両方',
+    'decision.team.both.reason': 'どちらを選んでも学習コストはかかりません。',
+    'decision.errors.question': 'エラーレスポンスはどこまで統一する必要がありますか？',
+    'decision.errors.loose.label': 'エンドポイントごとに決める',
+    'decision.errors.loose.reason': '独自のエラー形式を持つエンドポイントには、ハンドラー内の try/catch で十分です。',
+    'decision.errors.uniform.label': 'どこでも同じ形式',
+    'decision.errors.uniform.reason': 'app.onError() ですべてのルートが同じエラーボディを返します。Route Handlers ではファイルごとに try/catch が必要です。',
+  },
+
+  comments: {
+    'Inside route.ts:': 'route.ts の中身:',
+    'Routing is implicit via file structure': 'ルーティングはファイル構成から暗黙的に決まる',
+    'Each folder = route segment': 'フォルダー = ルートセグメント',
+    'Each route.ts = endpoint handler': 'route.ts = エンドポイントのハンドラー',
+    'route.ts exports HTTP methods': 'route.ts は HTTP メソッドをエクスポートする',
+    'No explicit route registration': '明示的なルート登録はない',
+    'Routes determined by file location': 'ルートはファイルの場所で決まる',
+    'Explicit, programmatic routing': '明示的でプログラマブルなルーティング',
+    'Route groups with shared middleware': 'ミドルウェアを共有するルートグループ',
+    'Mount sub-apps': 'サブアプリをマウント',
+    'Full control over routing structure': 'ルーティング構成を完全に制御できる',
+    'app/api/posts/route.ts - Must repeat auth logic': 'app/api/posts/route.ts - 認証ロジックを繰り返す必要がある',
+    '... repeated pattern': '... 同じパターンの繰り返し',
+    'Auth middleware - defined once': '認証ミドルウェア - 一度だけ定義',
+    'Store in context': 'コンテキストに保存',
+    'All protected routes automatically inherit auth': '保護されたルートはすべて自動的に認証を引き継ぐ',
+    'Retrieve from context': 'コンテキストから取得',
+    'No auth logic needed here': 'ここに認証ロジックは不要',
+    'app/api/posts/route.ts - Different error format': 'app/api/posts/route.ts - エラー形式が異なる',
+    'Inconsistent error formats across routes': 'ルートごとにエラー形式がばらばら',
+    'Global error handler - catches ALL errors': 'グローバルエラーハンドラー - すべてのエラーを捕捉',
+    'Throw anywhere - consistent format guaranteed': 'どこで投げても - 形式の統一が保証される',
+    'All errors follow the same format': 'すべてのエラーが同じ形式になる',
+    '⚠️ Next.js middleware is NOT designed for API layer': '⚠️ Next.js のミドルウェアは API 層向けに設計されていない',
+    'Official docs: "Do not recommend Middleware as sole': '公式ドキュメント:「ルートを保護する唯一の手段として',
+    'method of protecting routes"': 'Middleware を使うことは推奨しない」',
+    'Designed for: redirects, rewrites, page-level auth': '用途: リダイレクト、リライト、ページ単位の認証',
+    'NOT for: API authentication, business logic': '不向き: API の認証、ビジネスロジック',
+    '✅ Good: Page-level redirects': '✅ 適切: ページ単位のリダイレクト',
+    "Exclude API routes - middleware shouldn't touch APIs": 'API ルートを除外 - ミドルウェアは API に触れるべきでない',
+    '✅ Hono middleware runs WITHIN your API handler': '✅ Hono のミドルウェアは API ハンドラーの「中で」動く',
+    'Perfect for: auth, logging, validation, CORS': '最適: 認証、ログ、バリデーション、CORS',
+    'Verify token, set user in context': 'トークンを検証し、ユーザーをコンテキストに設定',
+    'Protected routes automatically inherit auth': '保護されたルートは自動的に認証を引き継ぐ',
+    'Export type for client': 'クライアント向けに型をエクスポート',
+    'client.ts (in frontend or another project)': 'client.ts（フロントエンドや別プロジェクト内）',
+    'Create type-safe client': '型安全なクライアントを作成',
+    'Full TypeScript support': 'TypeScript を完全にサポート',
+    'Type-safe POST with validation': 'バリデーション付きの型安全な POST',
+    'Auto-completion for all routes': 'すべてのルートで補完が効く',
+    'Compile-time error for wrong params': 'パラメーターの誤りはコンパイル時にエラー',
+    'Try adding a field to postSchema in server.ts: the call above': 'server.ts の postSchema にフィールドを追加してみよう: 上の呼び出しは',
+    'fails to compile until it sends the field too': 'そのフィールドも送るまでコンパイルが通らない',
+    'Hand-written copies of what the route accepts and returns': 'ルートが受け取り、返すものを手書きで写したもの',
+    'Nothing checks that the route still returns this shape': 'ルートが今もこの形を返すかは何もチェックしない',
+    'Typed from here on': 'ここから先は型付き',
+    'Malformed JSON and schema errors both answer 400': '不正な JSON もスキーマエラーも 400 を返す',
+    'Typed from the schema': 'スキーマから型付け',
+    'Browsers ask first with a preflight request': 'ブラウザーはまずプリフライトリクエストで確認する',
+    'Every other route file needs both again': '他のルートファイルにも両方が必要',
+    'Answers preflights and adds the headers for every route': 'すべてのルートでプリフライトに応答し、ヘッダーを付ける',
+    'Server-sent events are framed by hand': 'Server-Sent Events の形式を手で整える',
+    'Sets the event-stream headers and frames each event': 'event-stream のヘッダーを設定し、各イベントを整形する',
+    'The test plays the router and passes params itself': 'テストがルーターの代わりに params を渡す',
+    'Routing, middleware and params, with no server running': 'ルーティング、ミドルウェア、params まで。サーバーは起動しない',
+    'app/api/openapi.json/route.ts - Kept in sync by hand': 'app/api/openapi.json/route.ts - 手で同期を保つ',
+    'Validated, typed and documented by the same definition': '同じ定義で検証、型付け、ドキュメント化',
+    'Generated from the routes registered above': '上で登録したルートから生成',
+    'Paths are relative to where the router is mounted': 'パスはルーターをマウントした場所からの相対',
+    'Routers are mounted under a prefix, like Hono sub-apps': 'Hono のサブアプリのように、ルーターはプレフィックスの下にマウントする',
+    'Each method call registers a route and returns the instance': 'メソッド呼び出しごとにルートを登録し、インスタンスを返す',
+    'Plugins are mounted with use() and keep their prefix': 'プラグインは use() でマウントされ、プレフィックスを保つ',
+    "The chain's type carries every route, for the Eden client": 'チェーンの型がすべてのルートを持ち、Eden クライアントで使える',
+    'Procedures in nested routers instead of paths and methods': 'パスとメソッドの代わりに、ネストしたルーターのプロシージャ',
+    'One catch-all serves every procedure: GET /api/trpc/users.byId': '1 つのキャッチオールがすべてのプロシージャを提供: GET /api/trpc/users.byId',
+    'Untyped, shared with later handlers': '型なしで、後続のハンドラーと共有',
+    'Adds userId to the context of every route that uses the plugin': 'プラグインを使うすべてのルートのコンテキストに userId を追加',
+    'The fetch adapter builds the context from each request': 'fetch アダプターがリクエストごとにコンテキストを作る',
+    'Every procedure built from this one runs the check first': 'これをもとに作ったプロシージャはすべて最初にチェックを実行する',
+    'Express 5 passes rejected promises on to the error handler': 'Express 5 は reject された Promise をエラーハンドラーに渡す',
+    'Four parameters make it an error handler; registered last': '引数が 4 つならエラーハンドラー。最後に登録する',
+    'Covers the routes registered after it': 'これより後に登録したルートが対象',
+    'Shapes every error response in one place': 'すべてのエラーレスポンスを 1 か所で整形',
+    'Error codes map to statuses: NOT_FOUND answers 404': 'エラーコードはステータスに対応: NOT_FOUND は 404 を返す',
+    'Malformed JSON answers 400': '不正な JSON は 400 を返す',
+    'req.body is any': 'req.body は any',
+    'The schema validates and types the body; failures answer 422': 'スキーマがボディを検証し型を付ける。失敗すると 422',
+    'Input failing the schema is a BAD_REQUEST error, answered with 400': 'スキーマに合わない入力は BAD_REQUEST エラーになり、400 を返す',
+  },
+}
@@ -0,0 +1,583 @@
+import type { Catalog } from '../types'
+
+export const zh: Catalog = {
+  messages: {
+    'page.title': 'Hono vs Next.js Route Handler',
+    'app.present': '▶ 演示',
+    'app.sources': '来源: hono.dev • nextjs.org/docs • vercel.com/docs',
+    'theme.label': '配色主题',
+    'theme.system': '跟随系统',
+    'locale.label': '语言',
+
+    'overview.intro':
+      '本对比探讨在 Next.js 应用中构建 API 的两种方式：使用原生的 <em>Route Handlers</em>，或将 <em>Hono</em> 作为 Next.js 内的 catch-all 处理器集成进来。',
+    'overview.nextjs.title': 'Next.js Route Handlers',
+    'overview.nextjs.text': '基于文件的路由，每个端点一个文件。Next.js 内置。',
+    'overview.hono.title': 'Hono + Next.js',
+    'overview.hono.text': '在 <code>app/api/[[...route]]/route.ts</code> 中将 Hono 作为 catch-all 处理器',
+
+    'hono.intro':
+      '<hono>Hono</hono>（日语“炎”，意为火焰）是一个基于 Web 标准构建的轻量、超快的 Web 框架。与 Next.js 一起使用时，它作为 catch-all 处理器运行，让你可以用类似 Express 的路由和中间件构建 API，同时仍然部署在 Vercel 上。',
+    'hono.stat.bundle': '包体积',
+    'hono.stat.ops': '每秒操作数',
+    'hono.stat.middleware': '中间件',
+    'hono.stat.version': '版本',
+    'hono.serverOnly': '只在服务器上运行 —— 不会增加页面的包体积',
+    'hono.measured': '包体积（hono/tiny，已压缩）和每秒操作数由<link>下方的基准测试</link>实测得出',
+
+    'bench.intro':
+      '本节和上方卡片中的所有数字都来自 <code>pnpm bench</code> 生成的 <code>src/content/benchmarks.json</code>。在你的机器上重新运行即可复现。',
+    'bench.throughput': '路由吞吐量（请求/秒，越高越好）',
+    'bench.coldStart': '冷启动（到第一个响应的时间，越低越好）',
+    'bench.bundle': '包体积',
+    'bench.minified': '已压缩',
+    'bench.table': '{name} · {count} 条路由',
+    'bench.methodology': '测量方法',
+    'bench.methodology.1':
+      '两边使用相同的路由表：文件结构主题中的 6 个端点，以及 {sizes} 条路由的合成路由表，其中一半带有动态段。',
+    'bench.methodology.2':
+      'Next.js 一侧是本站的 App Router 模拟（<code>src/sandbox/nextjs.ts</code>）：按具体程度排序路由并逐段匹配。它不是 Next.js 服务器本身，后者还会叠加自己的请求处理。',
+    'bench.methodology.3':
+      '吞吐量：每次操作构造一个 Request，并 await app.fetch 或分发器返回的 Response，每条路由轮流使用一个 URL。预热后取 {samples} 次 {sampleMs} ms 采样的中位数，单线程。',
+    'bench.methodology.4':
+      '冷启动：创建路由器、注册全部路由并响应第一个请求；取 {runs} 个新实例的中位数，不包含模块加载。',
+    'bench.methodology.5':
+      '包体积：为每个入口构建最小应用，用 Vite 打包并压缩。Route Handler 本身不会加入框架代码，因此没有 Next.js 入口。',
+    'bench.environment': '于 {date} 在 Node {node}、{platform}、{cpu} 上使用 hono {hono} 测得。',
+
+    'comparison.hint': '点击标签，或聚焦标签后用方向键切换对比主题',
+    'comparison.tabs': '对比主题',
+    'comparison.notWritten': '此主题还没有 {framework} 示例。',
+    'comparison.notApplicable': '不适用',
+    'frameworks.label': '对比',
+    'frameworks.limit': '{min}–{max} 个框架',
+
+    'search.open': '搜索',
+    'search.shortcut': '搜索页面（Ctrl+K 或 ⌘K）',
+    'search.label': '搜索页面',
+    'search.placeholder': '搜索章节、主题和代码…',
+    'search.loading': '正在加载索引…',
+    'search.failed': '索引加载失败。',
+    'search.retry': '重试',
+    'search.empty': '没有与“{query}”匹配的内容。',
+    'search.hint': '↑↓ 选择，Enter 跳转，Esc 关闭',
+    'search.line': '第 {line} 行',
+    'search.kind.section': '章节',
+    'search.kind.topic': '主题',
+    'search.kind.summary': '概述',
+    'search.kind.code': '代码',
+
+    'report.open': '导出',
+    'report.title': '导出为报告',
+    'report.frameworks': '对比中包含在标签上方选择的 {frameworks}。',
+    'report.topics': '主题',
+    'report.all': '全部',
+    'report.none': '无',
+    'report.markdown': '下载 Markdown',
+    'report.pdf': '打印 / 另存为 PDF',
+    'report.close': '关闭',
+    'report.print': '打印',
+    'report.back': '返回页面',
+    'report.mappings': '代码如何对应',
+
+    'widget.unknownTopic': '没有名为“{topic}”的比较',
+
+    'catalog.intro': 'hono {version} 自带的全部 {count} 个中间件，读取自已安装的包。',
+    'catalog.filter': '筛选中间件',
+    'catalog.docs': '文档',
+    'catalog.example': '示例',
+    'catalog.hideExample': '隐藏示例',
+    'catalog.empty': '没有与“{query}”匹配的中间件。',
+
+    'rpc.intro':
+      'Hono 与 Next.js 集成时的一个独特功能，是可以在服务器和客户端之间共享类型定义。无需代码生成即可实现端到端的类型安全。',
+
+    'playground.open': '✎ 动手试试：编辑两侧并实时查看类型',
+    'playground.close': '关闭演练场',
+    'playground.intro':
+      '任何文件都可以编辑，在浏览器中运行的 TypeScript 会随输入进行检查。试着在两侧的 <code>postSchema</code> 中添加一个字段：Hono 客户端在发送该字段之前无法通过编译，而手写的 Next.js 类型面对已经不匹配的路由依然能通过编译。在客户端中输入 <code>.</code>，即可看到编译器所知道的内容。',
+    'playground.loading': '正在加载 TypeScript…',
+    'playground.checking': '检查中…',
+    'playground.failed': '类型检查器已停止：{message}',
+    'playground.errors': '错误：{count}',
+    'playground.clean': '没有类型错误',
+    'playground.line': '第 {line} 行',
+    'playground.cursorHint': '将光标放在名称之后即可查看其类型',
+    'playground.complete': '补全 {name}',
+
+    'migrate.intro':
+      '粘贴 App Router 的 API，每个文件前加一行 <code>// app/api/…/route.ts</code> 标题，或者上传项目文件夹。TypeScript 编译器会读取每个路由，转换器写出一个 <code>[[...route]]/route.ts</code>，把相同的处理函数注册到 Hono 上，并在报告中列出无法转换的部分。',
+    'migrate.yourRoutes': '你的 Route Handler',
+    'migrate.convert': '⇄ 转换为 Hono',
+    'migrate.converting': '转换中…',
+    'migrate.upload': '上传文件夹',
+    'migrate.failed': '转换器已停止：{message}',
+    'migrate.empty': '没有可转换的内容：app/api 下没有 Route Handler。',
+    'migrate.routes': '路由（{count}）',
+    'migrate.report': '报告',
+    'migrate.clean': '全部已转换。',
+    'migrate.note.notRoute': '{file} 不是路由文件，保持原样。',
+    'migrate.note.outsideApi': '{file} 位于 app/api 之外，仍然是 Route Handler。',
+    'migrate.note.alreadyHono': '{file} 已经在使用 Hono，已排除。',
+    'migrate.note.parseError': '{file} 无法解析（{message}），已跳过。',
+    'migrate.note.noHandlers': '{file} 没有导出任何 HTTP 方法处理函数。',
+    'migrate.note.unsupportedSegment': '{file} 已跳过：Hono 没有与 {segment} 段对应的功能。',
+    'migrate.note.duplicateRoute': '{file}：{method} {path} 已由另一个文件注册，已跳过。',
+    'migrate.note.unknownExport': '{file}：导出 {name} 既不是处理函数也不是路由段配置，不再导出。',
+    'migrate.note.configConflict': '{file}：{name} 与另一个路由不同，catch-all 对所有路由使用第一个值。',
+    'migrate.note.renamed': '{file}：{from} 与另一个文件冲突，已重命名为 {to}。',
+    'migrate.note.wrapped': '{file}：{method} 不是普通函数，catch-all 会用原始请求和 params 调用它。',
+    'migrate.note.reexported': '{file}：{method} 是按名称导出而非直接声明的，catch-all 会用原始请求和 params 调用它。',
+    'migrate.note.nextRequest': '{file}：{method} 使用了 NextRequest 的属性。它仍然会收到 NextRequest，不过在 Hono 中可以用 c.req.query() 和 getCookie() 做同样的事。',
+    'migrate.note.middleware': '{count} 个处理函数中相同的 {name} try/catch 已合并为一个中间件。',
+
+    'summary.nextjs.title': '更适合 Next.js Route Handlers 的情况：',
+    'summary.nextjs.1': '端点较少的简单 API',
+    'summary.nextjs.2': '偏好基于文件的路由约定',
+    'summary.nextjs.3': '没有复杂的中间件需求',
+    'summary.nextjs.4': '希望留在 Next.js 生态内',
+    'summary.hono.title': '更适合 Hono Catch-All 的情况：',
+    'summary.hono.1': '端点众多的复杂 API',
+    'summary.hono.2': '需要可复用的中间件链',
+    'summary.hono.3': '想要类型安全的 RPC 客户端',
+    'summary.hono.4': '需要全局错误处理',
+
+    'decide.title': '哪一种适合你的项目？',
+    'decide.intro': '先回答你已经清楚的问题，每次回答后推荐都会更新。答案保存在地址栏中，分享链接即可分享答案。',
+    'decide.progress': '已回答 {answered} / {total}',
+    'decide.reset': '清除答案',
+    'decide.empty': '选择一个答案即可看到推荐。',
+    'decide.result.nextjs': '推荐：继续使用 Route Handlers',
+    'decide.result.hono': '推荐：使用 Hono catch-all 处理器',
+    'decide.result.either': '难分高下：两者皆可',
+    'decide.score': '{side}：{points} 分',
+    'decide.see': '参见：',
+
+    'snippet.modified': '已修改',
+    'snippet.diff': '对比',
+    'snippet.reset': '重置',
+    'snippet.edit': '编辑',
+    'snippet.done': '完成',
+    'snippet.run': '▶ 运行',
+    'snippet.close': '■ 关闭',
+    'code.edit': '编辑 {title}',
+    'code.editUntitled': '编辑代码',
+    'code.label': '代码',
+    'code.copy': '复制',
+    'code.copyLines': '复制 {range}',
+    'code.copied': '已复制',
+    'code.copyFailed': '复制失败',
+    'code.lineNumbers': '行号',
+    'code.wrap': '自动换行',
+
+    'request.send': '发送',
+    'request.sending': '发送中…',
+    'request.headers': '请求头',
+    'request.body': 'JSON 请求体',
+    'response.empty': '（空响应体）',
+    'compare.hint': '向两边发送相同的请求并对比响应',
+
+    'routeTable.open': '⌥ 由“{title}”生成的路由表',
+    'routeTable.close': '关闭路由表',
+    'routeTable.loading': '正在读取路由…',
+    'routeTable.honoView': 'Hono 路由',
+    'routeTable.nextjsView': '转为 Next.js 文件',
+    'routeTable.download': '下载 app/api 的 .zip',
+    'routeTable.summary': '共 {routes} 个路由，按 Hono 匹配的顺序排列。点击可查看注册位置。',
+    'routeTable.files': '{routes} 个端点对应 {files} 个 route.ts 文件',
+    'routeTable.source': '在第 {line} 行注册',
+    'routeTable.pattern': '注册于 {pattern}',
+    'routeTable.inline': '内联',
+    'routeTable.via': '经由 {apps}',
+    'routeTable.unresolved': '{name} 挂载在这里，但它的路由在另一个文件中',
+
+    'mapping.hint': '将鼠标悬停在任一侧的色带上，查看另一侧的对应代码',
+    'walkthrough.start': '▶ 逐步讲解',
+    'walkthrough.step': '第 {current}/{total} 步 · {title}',
+    'walkthrough.previous': '上一步',
+    'walkthrough.next': '下一步',
+    'walkthrough.exit': '退出',
+
+    'presentation.previous': '上一张幻灯片',
+    'presentation.next': '下一张幻灯片',
+    'presentation.notes': '演讲者备注',
+    'presentation.exit': '退出',
+    'notes.slide': '幻灯片 {current} / {total}',
+    'notes.next': '下一张: {title}',
+    'notes.end': '（结束）',
+    'notes.previous': '← 上一张',
+    'notes.forward': '下一张 →',
+  },
+
+  content: {
+    'side.nextjs': 'Next.js Route Handler',
+    'side.hono': 'Hono Catch-All',
+    'side.express': 'Express',
+    'side.elysia': 'Elysia',
+    'side.trpc': 'tRPC',
+    'side.nextjs.description': 'Next.js App Router 基于文件的 API 路由',
+    'side.hono.description': '运行在单个 catch-all Route Handler 中的 Web 标准路由器',
+    'side.express.description': '老牌 Node.js 路由器，使用 (req, res, next) 中间件',
+    'side.elysia.description': '以 Bun 为主的框架，带有 schema 校验和端到端类型',
+    'side.trpc.description': '用类型化的过程代替 REST 路由，通过类型化客户端调用',
+    'section.overview.title': '概览',
+    'section.overview.notes':
+      '在 Next.js 应用中构建 API 的两种方式：每个端点一个 Route Handler 文件，或者用一个 catch-all Route Handler 把所有请求交给 Hono。两者的部署方式相同。',
+    'section.hono.title': '什么是 Hono？',
+    'section.hono.notes':
+      'Hono 是一个基于 Web 标准 Request/Response 的小型路由器，因此可以原样运行在 Route Handler 中。它只在服务器上运行，页面不会多出任何 JavaScript。',
+    'section.benchmarks.title': '基准测试',
+    'section.benchmarks.notes':
+      '这里的所有数字都由本仓库的 pnpm bench 生成。需要说明：Next.js 一侧是对 App Router 匹配的模拟，请求不会离开进程。',
+    'section.comparison.title': '详细对比',
+    'section.comparison.notes': '逐个主题并排讲解。',
+    'section.catalog.title': '内置中间件',
+    'section.catalog.notes':
+      '这个列表在构建时从已安装的 hono 包生成，升级版本后会自动更新。带示例的中间件可以直接在页面中运行。',
+    'section.rpc.title': 'Hono RPC - 类型安全的 API 客户端',
+    'section.rpc.notes':
+      '服务器导出其路由链的类型，hc<AppRoutes> 将其变成带类型的客户端。无需代码生成，也无需手写响应类型。',
+    'section.migrate.title': '迁移助手',
+    'section.migrate.notes':
+      '把现有的 Route Handler 原样粘贴进来，得到一个注册相同处理函数的 Hono catch-all。重点展示每个文件里重复的鉴权检查如何变成一个中间件。',
+    'section.summary.title': '总结',
+    'section.summary.notes':
+      '只有少量端点时，Route Handlers 就够用了。一旦需要共享中间件、统一的错误格式或类型化客户端，就该选择 Hono。',
+
+    'topic.structure.label': '文件结构',
+    'topic.structure.title': '文件结构',
+    'topic.structure.nextjs.summary': '新增端点 = 在嵌套文件夹中新建文件',
+    'topic.structure.nextjs.1.title': 'Next.js Route Handlers',
+    'topic.structure.hono.summary': '新增端点 = 添加一行代码',
+    'topic.structure.hono.1.title': 'Hono Catch-All 处理器',
+    'topic.structure.mapping.users': '一侧的一个文件夹加 route.ts 文件，在另一侧只是一行 app.get()。',
+    'topic.structure.mapping.posts': '[id] 文件夹变成了 :id 路径参数。',
+    'topic.structure.mapping.auth': 'login/logout 的嵌套文件夹合并为两条注册。',
+    'topic.structure.mapping.entry':
+      'Next.js 会自动发现每个 route.ts；Hono 需要一个 catch-all 文件把请求交给应用。',
+    'topic.structure.step.1.title': '每个端点一个文件',
+    'topic.structure.step.1.text':
+      '使用 Route Handlers 时，文件夹路径就是 URL。六个端点意味着六个 route.ts 文件分散在嵌套的文件夹中。',
+    'topic.structure.step.2.title': '一个 catch-all 文件',
+    'topic.structure.step.2.text':
+      '可选的 catch-all 段 [[...route]] 把所有 /api 请求发送到同一个 route.ts，再由它交给 Hono。',
+    'topic.structure.step.3.title': '路由即代码行',
+    'topic.structure.step.3.text': '每个端点就是一条注册。新增端点只需改一行，而不是新建文件夹和文件。',
+    'topic.structure.step.4.title': '接入 Next.js',
+    'topic.structure.step.4.text':
+      'Hono 仍然作为 Route Handler 部署：导出的 GET 和 POST 通过 handle() 把请求委托给应用。',
+
+    'topic.routing.label': '路由注册',
+    'topic.routing.title': '路由注册',
+    'topic.routing.nextjs.summary': '基于文件，由文件夹结构隐式决定',
+    'topic.routing.nextjs.1.title': 'Next.js 基于文件的路由',
+    'topic.routing.hono.summary': '编程式，通过 app.get/post 等显式注册',
+    'topic.routing.hono.1.title': 'Hono 编程式路由',
+    'topic.routing.express.summary': '用 app.get/post 等编写 Router，挂载到前缀之下',
+    'topic.routing.express.1.title': 'Express（Router）',
+    'topic.routing.elysia.summary': '在实例上链式调用方法，以插件方式组合',
+    'topic.routing.elysia.1.title': 'Elysia（方法链）',
+    'topic.routing.trpc.summary': '嵌套路由器中的过程，由一个 catch-all 路由提供',
+    'topic.routing.trpc.1.title': 'tRPC（过程）',
+    'topic.routing.mapping.tree': '在 Next.js 中文件夹名就是路径段；在 Hono 中路径是注册时的字符串。',
+    'topic.routing.mapping.methods':
+      '导出的 GET/POST/PUT/DELETE 函数对应 app.get/post/put/delete。在 Hono 中这些导出只是转发给应用。',
+    'topic.routing.mapping.groups': 'Next.js 没有带共享中间件的路由分组；Hono 用 app.route() 组合子应用。',
+    'topic.routing.step.1.title': '隐式路由',
+    'topic.routing.step.1.text': 'Next.js 从文件夹路径推导出 URL。[id] 文件夹成为动态段。',
+    'topic.routing.step.2.title': '方法即导出',
+    'topic.routing.step.2.text': 'route.ts 文件通过导出同名函数来响应对应的方法。',
+    'topic.routing.step.3.title': '显式注册',
+    'topic.routing.step.3.text': 'Hono 把所有方法和路径列在一处，整个 API 从上到下一目了然。',
+    'topic.routing.step.4.title': '分组与子应用',
+    'topic.routing.step.4.text': '子应用共享中间件并挂载在某个前缀下。Route Handlers 没有对应的机制。',
+
+    'topic.auth.label': '认证中间件',
+    'topic.auth.title': '认证中间件',
+    'topic.auth.nextjs.summary': '在每个路由文件中导入并调用认证函数',
+    'topic.auth.nextjs.1.title': 'Next.js（逐个路由手动处理）',
+    'topic.auth.hono.summary': '作为中间件定义一次，应用于所有匹配的路由',
+    'topic.auth.hono.1.title': 'Hono（中间件链）',
+    'topic.auth.express.summary': '挂载在前缀上的一个中间件，通过 res.locals 传递数据',
+    'topic.auth.express.1.title': 'Express（requireAuth 中间件）',
+    'topic.auth.elysia.summary': 'scoped 的 resolve() 插件为使用它的路由添加带类型的 userId',
+    'topic.auth.elysia.1.title': 'Elysia（scoped resolve）',
+    'topic.auth.trpc.summary': '受保护的过程执行检查并扩展带类型的上下文',
+    'topic.auth.trpc.1.title': 'tRPC（受保护的过程）',
+    'topic.auth.mapping.check': '令牌检查在 Next.js 中是每个路由都要调用的辅助函数，在 Hono 中是只注册一次的中间件。',
+    'topic.auth.mapping.users': 'Next.js 处理器自己包裹 try/catch；Hono 处理器只从上下文中读取 userId。',
+    'topic.auth.mapping.posts': '第二个路由在 Next.js 中重复了整套认证模式，而在 Hono 中完全不用重复。',
+    'topic.auth.step.1.title': '共享的辅助函数',
+    'topic.auth.step.1.text':
+      'Next.js 的 Route Handlers 没有按路由的中间件，所以认证放在一个缺少令牌时抛出错误的辅助函数里。',
+    'topic.auth.step.2.title': '每个路由都要调用',
+    'topic.auth.step.2.text': '每个处理器调用该辅助函数，并自行把错误转换为 401。',
+    'topic.auth.step.3.title': '中间件只定义一次',
+    'topic.auth.step.3.text':
+      'Hono 为 /protected/* 只注册一次检查。它可以用 401 终止请求，也可以通过上下文把 userId 传下去。',
+    'topic.auth.step.4.title': '处理器保持专注',
+    'topic.auth.step.4.text': '受保护的路由只从上下文读取 userId，完全不包含认证代码。',
+
+    'topic.error.label': '错误处理',
+    'topic.error.title': '错误处理',
+    'topic.error.nextjs.summary': '每个路由各自 try/catch，格式容易不一致',
+    'topic.error.nextjs.1.title': 'Next.js（不一致）',
+    'topic.error.hono.summary': '全局错误处理器，响应格式一致',
+    'topic.error.hono.1.title': 'Hono（全局处理器）',
+    'topic.error.express.summary': '抛出的错误到达最后注册的那个四参数处理器',
+    'topic.error.express.1.title': 'Express（错误处理器）',
+    'topic.error.elysia.summary': 'onError() 捕获其后路由抛出的错误',
+    'topic.error.elysia.1.title': 'Elysia（onError）',
+    'topic.error.trpc.summary': 'TRPCError 的代码对应状态码；errorFormatter 统一整理所有错误',
+    'topic.error.trpc.1.title': 'tRPC（TRPCError）',
+    'topic.error.mapping.handler': '每个 Next.js 路由自己构造错误响应；Hono 在 app.onError 中统一构造。',
+    'topic.error.mapping.happy-path': 'Hono 处理器抛出 HTTPException，而不是就地构造错误响应。',
+    'topic.error.step.1.title': '按路由处理错误',
+    'topic.error.step.1.text': '每个 Route Handler 都用 try/catch 包裹逻辑，并构造自己的错误响应体。',
+    'topic.error.step.2.title': '格式逐渐分化',
+    'topic.error.step.2.text':
+      '第一个路由返回 { message }，第二个却返回 { error, details }。客户端现在必须同时处理两种格式。',
+    'topic.error.step.3.title': '一个全局处理器',
+    'topic.error.step.3.text': 'app.onError 能捕获任何路由抛出的错误，并在一处决定响应格式。',
+    'topic.error.step.4.title': '只抛出，不格式化',
+    'topic.error.step.4.text': '处理器抛出带状态码和消息的 HTTPException；全局处理器把它转换为响应。',
+
+    'topic.middleware.label': '中间件',
+    'topic.middleware.title': '中间件',
+    'topic.middleware.nextjs.summary': '为页面设计，不适合 API 层（官方文档）',
+    'topic.middleware.nextjs.1.title': 'Next.js 中间件',
+    'topic.middleware.hono.summary': '非常适合 API 认证、日志、CORS、校验',
+    'topic.middleware.hono.1.title': 'Hono 中间件',
+    'topic.middleware.mapping.definition': 'middleware.ts 在页面路由之前运行；Hono 中间件在 API 处理器内部运行。',
+    'topic.middleware.mapping.scope': 'Next.js 用 matcher 排除 API；Hono 用路径模式限定中间件的作用范围。',
+    'topic.middleware.step.1.title': '为页面而生',
+    'topic.middleware.step.1.text': 'middleware.ts 在路由之前运行，用于重定向、重写和页面级检查。',
+    'topic.middleware.step.2.title': '与 API 隔离',
+    'topic.middleware.step.2.text': '常见的 matcher 会排除 /api，所以 Route Handlers 完全没有中间件。',
+    'topic.middleware.step.3.title': 'API 内部的中间件',
+    'topic.middleware.step.3.text':
+      'Hono 中间件在 catch-all 处理器内部按路径运行，并可以通过上下文与路由共享数据。',
+
+    'topic.validation.label': '校验',
+    'topic.validation.title': '请求校验',
+    'topic.validation.nextjs.summary': '在每个处理函数中手动解析并检查请求体',
+    'topic.validation.nextjs.1.title': 'Next.js（手动解析）',
+    'topic.validation.hono.summary': 'zValidator 中间件在处理函数之前检查请求体',
+    'topic.validation.hono.1.title': 'Hono（zValidator）',
+    'topic.validation.express.summary': '在 express.json() 之后，于每个处理函数中用 zod 解析 req.body',
+    'topic.validation.express.1.title': 'Express（手动 zod）',
+    'topic.validation.elysia.summary': '路由上的 t.Object() schema 校验请求体并提供类型',
+    'topic.validation.elysia.1.title': 'Elysia（t.Object schema）',
+    'topic.validation.trpc.summary': '.input() 在每次调用过程时校验并提供类型',
+    'topic.validation.trpc.1.title': 'tRPC（.input）',
+    'topic.validation.mapping.schema': '两边都用同一个 zod schema 描述请求体。',
+    'topic.validation.mapping.parse': 'Next.js 自己读取 JSON、捕获格式错误的请求体并报告 schema 错误；zValidator 三件事都做了。',
+    'topic.validation.mapping.typed': 'result.data 和 c.req.valid() 都带有 schema 推断出的类型。',
+    'topic.validation.step.1.title': '手动解析',
+    'topic.validation.step.1.text': '请求体格式错误时 request.json() 会抛出异常，所以处理函数要先捕获它才能做检查。',
+    'topic.validation.step.2.title': '手动检查',
+    'topic.validation.step.2.text':
+      'safeParse() 不抛异常而是返回问题列表，400 的格式由处理函数决定。每个路由都要重复这些。',
+    'topic.validation.step.3.title': '链中的校验器',
+    'topic.validation.step.3.text': 'zValidator 在处理函数之前运行并自行返回 400，处理函数只会看到有效的输入。',
+
+    'topic.cors.label': 'CORS',
+    'topic.cors.title': '跨域请求',
+    'topic.cors.nextjs.summary': '每个路由文件里写响应头和 OPTIONS 处理函数，或写在 next.config 中',
+    'topic.cors.nextjs.1.title': 'Next.js（逐路由响应头）',
+    'topic.cors.hono.summary': '一个 cors() 中间件处理预检请求和响应',
+    'topic.cors.hono.1.title': 'Hono（cors 中间件）',
+    'topic.cors.trpc.summary': '交给 tRPC 所运行的服务器或适配器，由它们设置 CORS 响应头',
+    'topic.cors.mapping.policy': '同一个策略：在 Next.js 中是响应头对象，在 Hono 中是 cors() 的选项。',
+    'topic.cors.mapping.preflight': 'Next.js 需要导出 OPTIONS 来处理预检请求；cors() 在任何路由匹配之前就做出响应。',
+    'topic.cors.mapping.response': '每个 Next.js 响应都要带上这些响应头；Hono 的处理函数完全不涉及 CORS。',
+    'topic.cors.step.1.title': '以响应头表示的策略',
+    'topic.cors.step.1.text': 'Route Handlers 没有 CORS 选项，所以允许的源、方法和请求头只是一个普通对象。',
+    'topic.cors.step.2.title': '预检与响应',
+    'topic.cors.step.2.text': '文件导出 OPTIONS 处理预检请求，并给返回的每个响应加上响应头。运行它可以看到 204。',
+    'topic.cors.step.3.title': '一个中间件',
+    'topic.cors.step.3.text': 'cors() 自己响应预检请求，并给路由返回的内容加上响应头，一次作用于所有路由。',
+
+    'topic.streaming.label': '流式响应',
+    'topic.streaming.title': '流式响应与 Server-Sent Events',
+    'topic.streaming.nextjs.summary': '构建 ReadableStream 并自己组装事件格式',
+    'topic.streaming.nextjs.1.title': 'Next.js（ReadableStream）',
+    'topic.streaming.hono.summary': 'streamSSE() 设置响应头并组装事件',
+    'topic.streaming.hono.1.title': 'Hono（streamSSE）',
+    'topic.streaming.mapping.stream':
+      '在 Next.js 中是带有自己 controller 的 ReadableStream；在 Hono 中是一个接收 stream 对象的回调。',
+    'topic.streaming.mapping.events': 'Next.js 自己编码 event: 和 data: 行；writeSSE() 从对象完成同样的事。',
+    'topic.streaming.mapping.headers': 'event-stream 响应头在 Next.js 中手写，在 Hono 中由 streamSSE() 设置。',
+    'topic.streaming.step.1.title': '手写的流',
+    'topic.streaming.step.1.text': '处理函数构建 ReadableStream，把编码后的字节推进去，包括事件之间的空行。',
+    'topic.streaming.step.2.title': '正确的响应头',
+    'topic.streaming.step.2.text':
+      '没有 text/event-stream，浏览器不会把它当作 EventSource 流，所以每个这样的路由都要写这些响应头。',
+    'topic.streaming.step.3.title': 'streamSSE()',
+    'topic.streaming.step.3.text': 'Hono 设置响应头，从对象组装每个事件，并在回调返回时关闭流。',
+
+    'topic.testing.label': '测试',
+    'topic.testing.title': '测试处理函数',
+    'topic.testing.nextjs.summary': '用 NextRequest 和手工构造的 params 调用导出的函数',
+    'topic.testing.nextjs.1.title': 'Next.js（调用 GET）',
+    'topic.testing.hono.summary': 'app.request() 让请求经过整个应用',
+    'topic.testing.hono.1.title': 'Hono（app.request）',
+    'topic.testing.mapping.handler': '两边测试的是同一个处理函数。',
+    'topic.testing.mapping.request': 'Next.js 的测试要构造请求以及路由器本应传入的 params；Hono 的测试只需给出路径。',
+    'topic.testing.mapping.assert': '两边拿到的都是标准 Response，所以断言相同。',
+    'topic.testing.step.1.title': '测试一个函数',
+    'topic.testing.step.1.text': 'Route Handler 是一个导出的函数，所以测试直接导入并调用它。',
+    'topic.testing.step.2.title': '扮演路由器',
+    'topic.testing.step.2.text': '测试自己构造 NextRequest 和 params 的 Promise。中间件和路由匹配不在测试范围内。',
+    'topic.testing.step.3.title': '测试整个应用',
+    'topic.testing.step.3.text': 'app.request() 在进程内让请求经过路由、中间件和处理函数，与真实请求走的路径相同。',
+
+    'topic.openapi.label': 'OpenAPI',
+    'topic.openapi.title': 'OpenAPI 文档',
+    'topic.openapi.nextjs.summary': '单独编写规范，并让它与路由保持一致',
+    'topic.openapi.nextjs.1.title': 'Next.js（手写规范）',
+    'topic.openapi.hono.summary': '@hono/zod-openapi 从路由定义生成规范',
+    'topic.openapi.hono.1.title': 'Hono（@hono/zod-openapi）',
+    'topic.openapi.trpc.summary': '过程不是 REST 路径；客户端共享路由器的类型，而不是规范',
+    'topic.openapi.mapping.route': '路由本身：在 Next.js 中是一个文件夹和 GET 导出，在 Hono 中是一个 createRoute() 定义。',
+    'topic.openapi.mapping.handler': 'Hono 的处理函数会按定义校验 params 并检查响应。',
+    'topic.openapi.mapping.spec': 'Next.js 的规范是路由的第二份副本；app.doc() 从第一份推导出来。',
+    'topic.openapi.step.1.title': '路由与规范分离',
+    'topic.openapi.step.1.text': 'Next.js 没有可读取的路由元数据，所以规范要手写，并从单独的路由提供。',
+    'topic.openapi.step.2.title': '作为定义的路由',
+    'topic.openapi.step.2.text': 'createRoute() 用 zod schema 描述路径、params 和响应：规范需要的一切都在一处。',
+    'topic.openapi.step.3.title': '规范随之而来',
+    'topic.openapi.step.3.text':
+      'app.openapi() 根据定义校验处理函数并提供类型，app.doc() 提供由所有已注册路由生成的规范。',
+
+    'rpc.server.title': '服务器（导出类型）',
+    'rpc.client.title': '客户端（类型安全的调用）',
+
+    'playground.nextjs.1.title': 'Route Handler',
+    'playground.nextjs.2.title': '使用手写类型的客户端',
+    'playground.hono.1.title': '服务器',
+    'playground.hono.2.title': '客户端（hc<AppRoutes>）',
+
+    'migrate.example.title': '待转换的 Route Handler',
+
+    'decision.endpoints.question': 'API 会有多少个端点？',
+    'decision.endpoints.few.label': '几个（少于 10 个）',
+    'decision.endpoints.few.reason': 'app/api 下只有几个文件时一目了然，也不需要学习路由器。',
+    'decision.endpoints.some.label': '10 到 30 个',
+    'decision.endpoints.some.reason': '文件超过十几个后，能在一处看到所有路由就开始显出价值。',
+    'decision.endpoints.many.label': '超过 30 个',
+    'decision.endpoints.many.reason': '几十个路由文件难以总览；路由表把它们集中在一处，并可用 route() 分组。',
+    'decision.middleware.question': '处理函数之前需要运行什么？',
+    'decision.middleware.none.label': '没有共享逻辑',
+    'decision.middleware.none.reason': '没有共享逻辑时，每个 Route Handler 都可以独立存在。',
+    'decision.middleware.auth.label': '部分路由需要认证检查',
+    'decision.middleware.auth.reason': 'Route Handlers 需要在每个文件里重复认证检查；Hono 只需为路径模式注册一次。',
+    'decision.middleware.layers.label': '多层：日志、CORS、限流、认证',
+    'decision.middleware.layers.reason': '按确定顺序组合的中间件正是 Hono 的核心；middleware.ts 只能匹配路径。',
+    'decision.client.question': '前端需要类型化的 API 客户端吗？',
+    'decision.client.none.label': '不需要，Server Actions 和 fetch 就够了',
+    'decision.client.none.reason': '没有单独的客户端，也就没有需要共享的请求和响应类型。',
+    'decision.client.typed.label': '需要，类型来自服务器代码',
+    'decision.client.typed.reason': 'Hono RPC 从路由链推导出客户端，无需代码生成。',
+    'decision.runtime.question': 'API 需要运行在哪里？',
+    'decision.runtime.nextjs.label': '只在这个 Next.js 应用中',
+    'decision.runtime.nextjs.reason': '不离开 Next.js 的 API，只需要 Next.js 自己的约定。',
+    'decision.runtime.edge.label': '还要运行在 Cloudflare Workers、Deno 或 Bun 上',
+    'decision.runtime.edge.reason': 'Hono 只使用 Web 标准的 Request 和 Response，因此同一个应用可以在这些环境中运行。',
+    'decision.runtime.split.label': '以后可能拆成独立服务',
+    'decision.runtime.split.reason': 'Hono 应用可以从 catch-all 移到独立服务器，无需重写任何路由。',
+    'decision.team.question': '团队已经熟悉什么？',
+    'decision.team.nextjs.label': '熟悉 Next.js，但不熟悉 Hono',
+    'decision.team.nextjs.reason': '团队已经熟悉的文件约定没有引入成本。',
+    'decision.team.express.label': 'Express 或类似的路由器',
+    'decision.team.express.reason': 'app.get()、use() 和 route() 的写法与 Express 相同。',
+    'decision.team.both.label': '都熟悉',
+    'decision.team.both.reason': '无论选哪个都没有学习成本。',
+    'decision.errors.question': '错误响应需要统一到什么程度？',
+    'decision.errors.loose.label': '由每个端点自行决定',
+    'decision.errors.loose.reason': '有自己错误格式的端点，在处理函数里写 try/catch 就够了。',
+    'decision.errors.uniform.label': '所有地方使用同一格式',
+    'decision.errors.uniform.reason': 'app.onError() 让每个路由返回相同的错误体；Route Handlers 需要在每个文件里写 try/catch。',
+  },
+
+  comments: {
+    'Inside route.ts:': 'route.ts 内部：',
+    'Routing is implicit via file structure': '路由由文件结构隐式决定',
+    'Each folder = route segment': '每个文件夹 = 一个路由段',
+    'Each route.ts = endpoint handler': '每个 route.ts = 一个端点处理器',
+    'route.ts exports HTTP methods': 'route.ts 导出 HTTP 方法',
+    'No explicit route registration': '没有显式的路由注册',
+    'Routes determined by file location': '路由由文件位置决定',
+    'Explicit, programmatic routing': '显式的编程式路由',
+    'Route groups with shared middleware': '共享中间件的路由分组',
+    'Mount sub-apps': '挂载子应用',
+    'Full control over routing structure': '完全掌控路由结构',
+    'app/api/posts/route.ts - Must repeat auth logic': 'app/api/posts/route.ts - 必须重复认证逻辑',
+    '... repeated pattern': '... 重复的模式',
+    'Auth middleware - defined once': '认证中间件 - 只定义一次',
+    'Store in context': '存入上下文',
+    'All protected routes automatically inherit auth': '所有受保护的路由自动继承认证',
+    'Retrieve from context': '从上下文读取',
+    'No auth logic needed here': '这里不需要认证逻辑',
+    'app/api/posts/route.ts - Different error format': 'app/api/posts/route.ts - 不同的错误格式',
+    'Inconsistent error formats across routes': '各路由的错误格式不一致',
+    'Global error handler - catches ALL errors': '全局错误处理器 - 捕获所有错误',
+    'Throw anywhere - consistent format guaranteed': '随处抛出 - 保证格式一致',
+    'All errors follow the same format': '所有错误都遵循相同格式',
+    '⚠️ Next.js middleware is NOT designed for API layer': '⚠️ Next.js 中间件并非为 API 层设计',
+    'Official docs: "Do not recommend Middleware as sole': '官方文档：“不建议将 Middleware 作为',
+    'method of protecting routes"': '保护路由的唯一手段”',
+    'Designed for: redirects, rewrites, page-level auth': '适用于：重定向、重写、页面级认证',
+    'NOT for: API authentication, business logic': '不适用于：API 认证、业务逻辑',
+    '✅ Good: Page-level redirects': '✅ 合适：页面级重定向',
+    "Exclude API routes - middleware shouldn't touch APIs": '排除 API 路由 - 中间件不应触及 API',
+    '✅ Hono middleware runs WITHIN your API handler': '✅ Hono 中间件在 API 处理器“内部”运行',
+    'Perfect for: auth, logging, validation, CORS': '非常适合：认证、日志、校验、CORS',
+    'Verify token, set user in context': '验证令牌，把用户存入上下文',
+    'Protected routes automatically inherit auth': '受保护的路由自动继承认证',
+    'Export type for client': '为客户端导出类型',
+    'client.ts (in frontend or another project)': 'client.ts（位于前端或其他项目中）',
+    'Create type-safe client': '创建类型安全的客户端',
+    'Full TypeScript support': '完整的 TypeScript 支持',
+    'Type-safe POST with validation': '带校验的类型安全 POST',
+    'Auto-completion for all routes': '所有路由都有自动补全',
+    'Compile-time error for wrong params': '参数错误会在编译时报错',
+    'Try adding a field to postSchema in server.ts: the call above': '试着在 server.ts 的 postSchema 中添加字段：上面的调用',
+    'fails to compile until it sends the field too': '在同样发送该字段之前都无法通过编译',
+    'Hand-written copies of what the route accepts and returns': '手写的路由输入与返回类型副本',
+    'Nothing checks that the route still returns this shape': '没有任何东西检查路由是否仍返回这个结构',
+    'Typed from here on': '从这里开始有类型',
+    'Malformed JSON and schema errors both answer 400': 'JSON 格式错误和 schema 错误都返回 400',
+    'Typed from the schema': '类型来自 schema',
+    'Browsers ask first with a preflight request': '浏览器会先发送预检请求',
+    'Every other route file needs both again': '其他每个路由文件都要再写一遍',
+    'Answers preflights and adds the headers for every route': '为所有路由响应预检请求并添加响应头',
+    'Server-sent events are framed by hand': '手动组装 Server-Sent Events 格式',
+    'Sets the event-stream headers and frames each event': '设置 event-stream 响应头并组装每个事件',
+    'The test plays the router and passes params itself': '测试扮演路由器，自己传入 params',
+    'Routing, middleware and params, with no server running': '路由、中间件和 params 都会经过，无需启动服务器',
+    'app/api/openapi.json/route.ts - Kept in sync by hand': 'app/api/openapi.json/route.ts - 手动保持同步',
+    'Validated, typed and documented by the same definition': '由同一个定义完成校验、类型和文档',
+    'Generated from the routes registered above': '从上面注册的路由生成',
+    'Paths are relative to where the router is mounted': '路径相对于路由器的挂载位置',
+    'Routers are mounted under a prefix, like Hono sub-apps': '和 Hono 子应用一样，路由器挂载在前缀之下',
+    'Each method call registers a route and returns the instance': '每次方法调用注册一个路由并返回实例',
+    'Plugins are mounted with use() and keep their prefix': '插件通过 use() 挂载，并保留自己的前缀',
+    "The chain's type carries every route, for the Eden client": '链的类型包含所有路由，供 Eden 客户端使用',
+    'Procedures in nested routers instead of paths and methods': '用嵌套路由器中的过程代替路径和方法',
+    'One catch-all serves every procedure: GET /api/trpc/users.byId': '一个 catch-all 提供所有过程：GET /api/trpc/users.byId',
+    'Untyped, shared with later handlers': '没有类型，与后续处理函数共享',
+    'Adds userId to the context of every route that uses the plugin': '为使用该插件的每个路由在上下文中添加 userId',
+    'The fetch adapter builds the context from each request': 'fetch 适配器根据每个请求构建上下文',
+    'Every procedure built from this one runs the check first': '基于它构建的每个过程都会先执行检查',
+    'Express 5 passes rejected promises on to the error handler': 'Express 5 会把 reject 的 Promise 交给错误处理器',
+    'Four parameters make it an error handler; registered last': '四个参数表示错误处理器；最后注册',
+    'Covers the routes registered after it': '作用于在它之后注册的路由',
+    'Shapes every error response in one place': '在一处统一整理所有错误响应',
+    'Error codes map to statuses: NOT_FOUND answers 404': '错误代码对应状态码：NOT_FOUND 返回 404',
+    'Malformed JSON answers 400': '格式错误的 JSON 返回 400',
+    'req.body is any': 'req.body 是 any',
+    'The schema validates and types the body; failures answer 422': 'schema 校验请求体并提供类型；失败时返回 422',
+    'Input failing the schema is a BAD_REQUEST error, answered with 400': '不符合 schema 的输入是 BAD_REQUEST 错误，返回 400',
+  },
+}
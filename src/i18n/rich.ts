@@ -0,0 +1,17 @@
+import { createElement, Fragment, type ReactNode } from 'react'
+
+const TAG = /<(\w+)>(.*?)<\/\1>/g
+
+// Renders `<tag>text</tag>` spans of a message with the matching function, so
+// translations can move styled words around
+export function rich(message: string, tags: Record<string, (chunk: string) => ReactNode>): ReactNode[] {
+  const parts: ReactNode[] = []
+  let last = 0
+  for (const match of message.matchAll(TAG)) {
+    parts.push(message.slice(last, match.index))
+    parts.push(tags[match[1]]?.(match[2]) ?? match[2])
+    last = match.index + match[0].length
+  }
+  parts.push(message.slice(last))
+  return parts.map((part, index) => createElement(Fragment, { key: index }, part))
+}
@@ -0,0 +1,32 @@
+import { translateComments } from './comments'
+import type { Localizer } from './content'
+import { format } from './format'
+import { defaultLocale, type Locale } from './locales'
+import { en, type MessageKey } from './messages/en'
+import { ja } from './messages/ja'
+import { zh } from './messages/zh'
+import type { Catalog } from './types'
+
+export const catalogs: Record<Exclude<Locale, typeof defaultLocale>, Catalog> = { ja, zh }
+
+export interface Translator extends Localizer {
+  locale: Locale
+  t(key: MessageKey, params?: Record<string, string | number>): string
+}
+
+const translators = new Map<Locale, Translator>()
+
+export function getTranslator(locale: Locale): Translator {
+  let translator = translators.get(locale)
+  if (!translator) {
+    const catalog = locale === defaultLocale ? null : catalogs[locale]
+    translator = {
+      locale,
+      t: (key, params = {}) => format(catalog?.messages[key] ?? en[key], params),
+      text: (key, source) => catalog?.content[key] ?? source,
+      code: (code) => (catalog ? translateComments(code, catalog.comments) : code),
+    }
+    translators.set(locale, translator)
+  }
+  return translator
+}
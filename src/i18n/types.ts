@@ -0,0 +1,14 @@
+import type { MessageKey } from './messages/en'
+
+// Translations for one locale. Anything missing falls back to English, and
+// the build lists what is missing (plugins/i18n-check.ts).
+export interface Catalog {
+  // UI text and page prose, keyed like messages/en.ts
+  messages: Partial<Record<MessageKey, string>>
+  // Text from src/content (topics, sections, sides), keyed by where it lives,
+  // e.g. `topic.auth.step.1.title`; see localizeTopic
+  content: Partial<Record<string, string>>
+  // Comments inside code snippets, keyed by their English text, so snippets
+  // are written once and only their comments change
+  comments: Partial<Record<string, string>>
+}
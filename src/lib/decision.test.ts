@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { TIE_MARGIN, type DecisionQuestion } from '../content/decision'
+import { decisionProblems, formatAnswers, readAnswers, scoreAnswers } from './decision'
+import { parseHash } from './hashRoute'
+
+// One question per side, worth whatever the test needs
+function questions(nextjs: number, hono: number): DecisionQuestion[] {
+  return [
+    { id: 'a', question: 'A', options: [{ id: 'yes', label: 'Yes', weights: { nextjs }, reason: 'A' }] },
+    { id: 'b', question: 'B', options: [{ id: 'yes', label: 'Yes', weights: { hono }, reason: 'B' }] },
+  ]
+}
+
+describe('readAnswers', () => {
+  it('keeps known questions and options', () => {
+    expect(readAnswers({ endpoints: 'many', client: 'typed' })).toEqual({ endpoints: 'many', client: 'typed' })
+  })
+
+  it('drops unknown questions and options', () => {
+    expect(readAnswers({ endpoints: 'lots', client: 'typed', colour: 'blue' })).toEqual({ client: 'typed' })
+    expect(readAnswers({ endpoints: '' })).toEqual({})
+  })
+
+  it('reads a missing query as no answers', () => {
+    expect(readAnswers(undefined)).toEqual({})
+  })
+})
+
+describe('formatAnswers', () => {
+  it('links to the bare summary without answers', () => {
+    expect(formatAnswers({})).toBe('#summary')
+  })
+
+  it('writes answers in questionnaire order', () => {
+    expect(formatAnswers({ client: 'typed', endpoints: 'many' })).toBe('#summary?endpoints=many&client=typed')
+  })
+
+  it('round-trips through the hash', () => {
+    const answers = { endpoints: 'some', middleware: 'auth', client: 'none' }
+    expect(readAnswers(parseHash(formatAnswers(answers)).query)).toEqual(answers)
+  })
+})
+
+describe('scoreAnswers', () => {
+  it('adds up the weights of the chosen options', () => {
+    expect(scoreAnswers({ endpoints: 'many', middleware: 'none' }).totals).toEqual({ nextjs: 2, hono: 3 })
+  })
+
+  it(`calls a lead of ${TIE_MARGIN} or fewer points a tie`, () => {
+    const answers = { a: 'yes', b: 'yes' }
+    expect(scoreAnswers(answers, questions(2, 2 + TIE_MARGIN)).winner).toBe('either')
+    expect(scoreAnswers(answers, questions(2 + TIE_MARGIN, 2)).winner).toBe('either')
+    expect(scoreAnswers(answers, questions(2, 3 + TIE_MARGIN)).winner).toBe('hono')
+    expect(scoreAnswers(answers, questions(3 + TIE_MARGIN, 2)).winner).toBe('nextjs')
+  })
+
+  it('gives no answers no winner', () => {
+    expect(scoreAnswers({})).toEqual({ totals: { nextjs: 0, hono: 0 }, winner: 'either', reasons: [] })
+  })
+
+  it('lists the answered questions in questionnaire order', () => {
+    const { reasons } = scoreAnswers({ client: 'typed', endpoints: 'few', colour: 'blue' })
+    expect(reasons.map(({ question, option }) => `${question.id}=${option.id}`)).toEqual([
+      'endpoints=few',
+      'client=typed',
+    ])
+  })
+})
+
+describe('decisionProblems', () => {
+  it('finds none in the shipped questionnaire', () => {
+    expect(decisionProblems()).toEqual([])
+  })
+})
@@ -0,0 +1,88 @@
+import {
+  decisionQuestions,
+  decisionScenarios,
+  TIE_MARGIN,
+  type DecisionOption,
+  type DecisionQuestion,
+} from '../content/decision'
+import { sectionTexts } from '../content/sections'
+import { sideIds } from '../content/sides'
+import { isTopicId } from '../content/topics'
+import type { Side } from '../content/types'
+
+// Question id → option id; unanswered questions are left out
+export type Answers = Record<string, string>
+
+export interface Reason {
+  question: DecisionQuestion
+  option: DecisionOption
+}
+
+export interface Recommendation {
+  totals: Record<Side, number>
+  winner: Side | 'either'
+  // Answered questions in questionnaire order
+  reasons: Reason[]
+}
+
+// Pass the localized questions to get the reasons in the reader's language
+export function scoreAnswers(answers: Answers, questions = decisionQuestions): Recommendation {
+  const totals = Object.fromEntries(sideIds.map((side) => [side, 0])) as Record<Side, number>
+  const reasons: Reason[] = []
+  for (const question of questions) {
+    const option = question.options.find(({ id }) => id === answers[question.id])
+    if (!option) continue
+    sideIds.forEach((side) => (totals[side] += option.weights[side] ?? 0))
+    reasons.push({ question, option })
+  }
+  const [first, second] = [...sideIds].sort((a, b) => totals[b] - totals[a])
+  const winner = totals[first] - totals[second] <= TIE_MARGIN ? 'either' : first
+  return { totals, winner, reasons }
+}
+
+// Answers ride in the hash query, #summary?endpoints=many&client=typed, so a
+// link reproduces them. Unknown ids are dropped rather than scored as zero.
+export function readAnswers(query: Record<string, string> | undefined): Answers {
+  return Object.fromEntries(
+    decisionQuestions.flatMap((question) => {
+      const answer = query?.[question.id]
+      return question.options.some(({ id }) => id === answer) ? [[question.id, answer!]] : []
+    }),
+  )
+}
+
+export function formatAnswers(answers: Answers): string {
+  const query = new URLSearchParams(
+    decisionQuestions.flatMap((question) => (answers[question.id] ? [[question.id, answers[question.id]]] : [])),
+  ).toString()
+  return query ? `#summary?${query}` : '#summary'
+}
+
+// What the build checks: scenarios that no longer get their expected
+// recommendation, answers and links that point nowhere
+export function decisionProblems(): string[] {
+  const problems: string[] = []
+  const known = (target: string) => isTopicId(target) || sectionTexts.some(({ id }) => id === target)
+  for (const question of decisionQuestions) {
+    for (const option of question.options) {
+      for (const link of option.links ?? []) {
+        if (!known(link)) problems.push(`${question.id}.${option.id} links to unknown target '${link}'`)
+      }
+    }
+  }
+  for (const scenario of decisionScenarios) {
+    const answers = readAnswers(scenario.answers)
+    const invalid = Object.keys(scenario.answers).filter((id) => answers[id] === undefined)
+    if (invalid.length > 0) {
+      problems.push(`'${scenario.name}' answers unknown questions or options: ${invalid.join(', ')}`)
+      continue
+    }
+    const { totals, winner } = scoreAnswers(answers)
+    if (winner !== scenario.expected) {
+      problems.push(
+        `'${scenario.name}' expects ${scenario.expected} but scores ${winner} (${sideIds.map((side) => `${side} ${totals[side]}`).join(', ')})`,
+      )
+    }
+  }
+  return problems
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { formatLineHash, parseHash } from './hashRoute'
+
+describe('parseHash', () => {
+  it('reads a tab, a section or an empty hash as the target', () => {
+    expect(parseHash('#auth')).toEqual({ target: 'auth' })
+    expect(parseHash('')).toEqual({ target: '' })
+  })
+
+  it('reads a block and its line range, in either order', () => {
+    expect(parseHash('#error/hono/L12-L18')).toEqual({ target: 'error', block: 'error/hono', lines: [12, 18] })
+    expect(parseHash('#error/hono/L18-L12').lines).toEqual([12, 18])
+    expect(parseHash('#error/hono/L3').lines).toEqual([3, 3])
+  })
+
+  it('reads the query', () => {
+    expect(parseHash('#summary?client=typed&runtime=edge')).toEqual({
+      target: 'summary',
+      query: { client: 'typed', runtime: 'edge' },
+    })
+  })
+
+  it('decodes escaped paths', () => {
+    expect(parseHash('#auth%2Fhono').block).toBe('auth/hono')
+  })
+
+  it('keeps a malformed escape as written instead of throwing', () => {
+    expect(parseHash('#50%')).toEqual({ target: '50%' })
+    expect(parseHash('#auth%zz/hono/L2')).toEqual({ target: 'auth%zz', block: 'auth%zz/hono', lines: [2, 2] })
+  })
+})
+
+describe('formatLineHash', () => {
+  it('round-trips through parseHash', () => {
+    expect(parseHash(formatLineHash('auth/hono', [4, 9])).lines).toEqual([4, 9])
+    expect(formatLineHash('auth/hono', [4, 4])).toBe('#auth/hono/L4')
+  })
+})
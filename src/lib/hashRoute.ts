@@ -0,0 +1,57 @@
+// Page state lives in the URL hash so links survive the GitHub Pages base
+// path and need no server rewrites:
+//   #auth                  comparison tab
+//   #summary               section heading
+//   #error/hono/L12-L18    lines of a code block (block ids as in blockId())
+//   #summary?client=typed  answers to the questionnaire (lib/decision.ts)
+
+export interface HashRoute {
+  target: string
+  block?: string
+  lines?: [number, number]
+  query?: Record<string, string>
+}
+
+const LINES = /^L(\d+)(?:-L(\d+))?$/
+
+// A hand-typed or truncated link can hold a stray `%`; keep it as written
+// rather than throw during render
+function decodePath(path: string): string {
+  try {
+    return decodeURIComponent(path)
+  } catch {
+    return path
+  }
+}
+
+export function parseHash(hash: string): HashRoute {
+  const [path, search] = hash.replace(/^#/, '').split('?')
+  const parts = decodePath(path).split('/').filter(Boolean)
+  const route: HashRoute = { target: parts[0] ?? '' }
+  if (search) route.query = Object.fromEntries(new URLSearchParams(search))
+  if (parts.length >= 2) route.block = `${parts[0]}/${parts[1]}`
+
+  const match = parts.length >= 3 ? LINES.exec(parts[2]) : null
+  if (match) {
+    const start = Number(match[1])
+    const end = Number(match[2] ?? match[1])
+    route.lines = [Math.min(start, end), Math.max(start, end)]
+  }
+  return route
+}
+
+export function formatLineHash(block: string, [start, end]: [number, number]): string {
+  return start === end ? `#${block}/L${start}` : `#${block}/L${start}-L${end}`
+}
+
+// Assigning location.hash pushes a history entry; replace: true swaps the
+// current one instead and notifies listeners itself, since replaceState
+// fires no hashchange
+export function navigate(hash: string, { replace = false } = {}) {
+  if (!replace) {
+    location.hash = hash
+    return
+  }
+  history.replaceState(history.state, '', hash)
+  window.dispatchEvent(new HashChangeEvent('hashchange'))
+}
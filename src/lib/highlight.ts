@@ -0,0 +1,41 @@
+import { createHighlighterCore, type HighlighterCore, type ShikiTransformer } from 'shiki/core'
+import { createJavaScriptRegexEngine } from 'shiki/engine/javascript'
+import tsx from 'shiki/langs/tsx.mjs'
+import typescript from 'shiki/langs/typescript.mjs'
+import darkPlus from 'shiki/themes/dark-plus.mjs'
+import githubDarkDefault from 'shiki/themes/github-dark-default.mjs'
+import lightPlus from 'shiki/themes/light-plus.mjs'
+import solarizedLight from 'shiki/themes/solarized-light.mjs'
+import { shikiThemes, type themes, type ThemeId } from './themes'
+
+// The grammars snippets can be written in; shiki's full bundle would ship
+// every other language and theme as lazy chunks too
+export type CodeLanguage = 'typescript' | 'ts' | 'tsx'
+
+// One for each theme in lib/themes.ts
+const themeRegistrations = {
+  'dark-plus': darkPlus,
+  'light-plus': lightPlus,
+  'github-dark-default': githubDarkDefault,
+  'solarized-light': solarizedLight,
+} satisfies Record<(typeof themes)[ThemeId]['shiki'], unknown>
+
+let highlighter: Promise<HighlighterCore> | null = null
+
+// The JavaScript regex engine runs the TypeScript grammars without the
+// oniguruma WebAssembly download
+function loadHighlighter(): Promise<HighlighterCore> {
+  highlighter ??= createHighlighterCore({
+    themes: Object.values(themeRegistrations),
+    langs: [typescript, tsx],
+    engine: createJavaScriptRegexEngine(),
+  })
+  return highlighter
+}
+
+// Shared by the build (which highlights every snippet up front) and the client
+// (which only loads this module to re-highlight edited code). Every theme's
+// colors are emitted as CSS variables, so switching themes needs no re-run.
+export async function highlight(code: string, lang: string, transformers: ShikiTransformer[] = []): Promise<string> {
+  return (await loadHighlighter()).codeToHtml(code, { lang, themes: shikiThemes, defaultColor: false, transformers })
+}
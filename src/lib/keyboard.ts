@@ -0,0 +1,4 @@
+// Page-level shortcuts must not fire while the reader types into a field
+export function isTypingTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import type { SearchDocument } from '../content/search'
+import { fuzzyMatch, resultHash, search } from './search'
+
+describe('fuzzyMatch', () => {
+  it('ignores case and surrounding space', () => {
+    expect(fuzzyMatch('  Hono ', 'Why hono?')?.ranges).toEqual([[4, 8]])
+    expect(fuzzyMatch(' ', 'anything')).toBeNull()
+  })
+
+  it('ranks a whole match above its characters, and earlier word starts higher', () => {
+    const whole = fuzzyMatch('auth', 'auth middleware')!
+    const inside = fuzzyMatch('auth', 'oauthClient')!
+    const later = fuzzyMatch('auth', 'the shared auth')!
+    const scattered = fuzzyMatch('usrid', 'userId')!
+    expect(whole.score).toBeGreaterThan(later.score)
+    expect(later.score).toBeGreaterThan(inside.score)
+    expect(inside.score).toBeGreaterThan(scattered.score)
+  })
+
+  it('finds the characters in order when they fall in runs', () => {
+    expect(fuzzyMatch('usrid', 'const userId = 1')?.ranges).toEqual([
+      [6, 8],
+      [9, 12],
+    ])
+    expect(fuzzyMatch('dsu', 'userId')).toBeNull()
+  })
+
+  it('does not match a short query scattered over a long line', () => {
+    expect(fuzzyMatch('ace', 'a long line of code')).toBeNull()
+  })
+})
+
+describe('search', () => {
+  const documents: SearchDocument[] = [
+    { kind: 'code', hash: '#auth/hono', context: 'Hono', text: 'const app = new Hono()\n  app.use(auth)' },
+    { kind: 'summary', hash: '#auth', context: 'Auth', text: 'Middleware runs auth once' },
+    { kind: 'section', hash: '#auth', context: '', text: 'auth' },
+  ]
+
+  it('orders equal scores by kind and searches code line by line', () => {
+    const results = search(documents, 'auth')
+    expect(results.map(({ document }) => document.kind)).toEqual(['section', 'code', 'summary'])
+    expect(results[1]).toMatchObject({ text: 'app.use(auth)', line: 2 })
+  })
+
+  it('links code results to their line', () => {
+    const [code] = search(documents, 'new Hono')
+    expect(resultHash(code)).toBe('#auth/hono/L1')
+    expect(resultHash(search(documents, 'middleware')[0])).toBe('#auth')
+  })
+})
@@ -0,0 +1,87 @@
+import type { SearchDocument, SearchKind } from '../content/search'
+import { formatLineHash } from './hashRoute'
+
+// Start inclusive, end exclusive, in the text as shown
+export type MatchRange = [number, number]
+
+export interface Match {
+  score: number
+  ranges: MatchRange[]
+}
+
+export interface SearchResult extends Match {
+  document: SearchDocument
+  // The document's text, or the matching line of code
+  text: string
+  // 1-based, for code
+  line?: number
+}
+
+const RESULT_LIMIT = 50
+const KIND_ORDER: SearchKind[] = ['section', 'topic', 'summary', 'code']
+const WORD_START = /[^\p{L}\p{N}_]/u
+
+// The query's characters in order from `start`, merged into runs
+function subsequence(needle: string, haystack: string, start: number): MatchRange[] | null {
+  const ranges: MatchRange[] = []
+  let position = start
+  for (const char of needle) {
+    const found = haystack.indexOf(char, position)
+    if (found === -1) return null
+    const last = ranges.at(-1)
+    if (last && last[1] === found) last[1]++
+    else ranges.push([found, found + 1])
+    position = found + 1
+  }
+  return ranges
+}
+
+// Case-insensitive. The query as one piece scores highest, earlier and at
+// the start of a word better; otherwise its characters in order, as long as
+// they fall in runs of two on average, so `usrid` finds `userId` but a
+// long line does not match every short query
+export function fuzzyMatch(query: string, text: string): Match | null {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return null
+  const haystack = text.toLowerCase()
+
+  const at = haystack.indexOf(needle)
+  if (at !== -1) {
+    const wordStart = at === 0 || WORD_START.test(haystack[at - 1])
+    return { score: 1000 + (wordStart ? 100 : 0) - Math.min(at, 100), ranges: [[at, at + needle.length]] }
+  }
+
+  const chars = needle.replace(/\s+/g, '')
+  let best: Match | null = null
+  for (let start = haystack.indexOf(chars[0]); start !== -1; start = haystack.indexOf(chars[0], start + 1)) {
+    const ranges = subsequence(chars, haystack, start)
+    // Starting later cannot find what starting here did not
+    if (!ranges) break
+    if (ranges.length > Math.ceil(chars.length / 2)) continue
+    const span = ranges[ranges.length - 1][1] - ranges[0][0]
+    const score = 500 - ranges.length * 20 - span
+    if (!best || score > best.score) best = { score, ranges }
+  }
+  return best
+}
+
+export function search(documents: SearchDocument[], query: string): SearchResult[] {
+  const results = documents.flatMap((document): SearchResult[] => {
+    if (document.kind !== 'code') {
+      const match = fuzzyMatch(query, document.text)
+      return match ? [{ document, text: document.text, ...match }] : []
+    }
+    return document.text.split('\n').flatMap((source, index) => {
+      const text = source.trim()
+      const match = fuzzyMatch(query, text)
+      return match ? [{ document, text, line: index + 1, ...match }] : []
+    })
+  })
+  return results
+    .sort((a, b) => b.score - a.score || KIND_ORDER.indexOf(a.document.kind) - KIND_ORDER.indexOf(b.document.kind))
+    .slice(0, RESULT_LIMIT)
+}
+
+export function resultHash({ document, line }: SearchResult): string {
+  return line === undefined ? document.hash : formatLineHash(document.hash.slice(1), [line, line])
+}
@@ -0,0 +1,29 @@
+import type { BundledTheme } from 'shiki'
+
+// Each theme pairs a set of page tokens in index.css ([data-theme=id]) with
+// the shiki theme its code is colored by
+export const themes = {
+  dark: { label: 'Dark+', shiki: 'dark-plus', scheme: 'dark' },
+  light: { label: 'Light+', shiki: 'light-plus', scheme: 'light' },
+  'github-dark': { label: 'GitHub Dark', shiki: 'github-dark-default', scheme: 'dark' },
+  'solarized-light': { label: 'Solarized Light', shiki: 'solarized-light', scheme: 'light' },
+} as const satisfies Record<string, { label: string; shiki: BundledTheme; scheme: 'dark' | 'light' }>
+
+export type ThemeId = keyof typeof themes
+
+// 'system' follows prefers-color-scheme between Dark+ and Light+
+export type ThemePreference = ThemeId | 'system'
+
+export const THEME_STORAGE_KEY = 'theme'
+
+export const themeIds = Object.keys(themes) as ThemeId[]
+
+export const shikiThemes = Object.fromEntries(themeIds.map((id) => [id, themes[id].shiki])) as Record<
+  ThemeId,
+  BundledTheme
+>
+
+export function resolveTheme(preference: ThemePreference, prefersLight: boolean): ThemeId {
+  if (preference !== 'system' && preference in themes) return preference
+  return prefersLight ? 'light' : 'dark'
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { createZip } from './zip'
+
+// Reads the archive back through its central directory
+async function readZip(blob: Blob): Promise<{ path: string; code: string; crc: number }[]> {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  const view = new DataView(bytes.buffer)
+  const decoder = new TextDecoder()
+  const end = bytes.length - 22
+  expect(view.getUint32(end, true)).toBe(0x06054b50)
+  const count = view.getUint16(end + 10, true)
+  let at = view.getUint32(end + 16, true)
+  return Array.from({ length: count }, () => {
+    expect(view.getUint32(at, true)).toBe(0x02014b50)
+    const crc = view.getUint32(at + 16, true)
+    const size = view.getUint32(at + 24, true)
+    const nameLength = view.getUint16(at + 28, true)
+    const path = decoder.decode(bytes.subarray(at + 46, at + 46 + nameLength))
+    const local = view.getUint32(at + 42, true)
+    expect(view.getUint32(local, true)).toBe(0x04034b50)
+    const data = local + 30 + view.getUint16(local + 26, true)
+    at += 46 + nameLength
+    return { path, code: decoder.decode(bytes.subarray(data, data + size)), crc }
+  })
+}
+
+describe('createZip', () => {
+  const files = [
+    { path: 'app/api/posts/route.ts', code: 'export async function GET() {}\n' },
+    { path: 'app/api/posts/[id]/route.ts', code: '// 投稿\n' },
+  ]
+
+  it('stores every file under its path', async () => {
+    const entries = await readZip(createZip(files))
+    expect(entries.map(({ path, code }) => ({ path, code }))).toEqual(files)
+  })
+
+  it('writes the CRC-32 of each file', async () => {
+    const [entry] = await readZip(createZip([{ path: 'hello.txt', code: 'hello' }]))
+    expect(entry.crc).toBe(0x3610a686)
+  })
+
+  it('makes the same archive from the same files', async () => {
+    const [a, b] = await Promise.all([createZip(files).arrayBuffer(), createZip(files).arrayBuffer()])
+    expect(new Uint8Array(a)).toEqual(new Uint8Array(b))
+  })
+})
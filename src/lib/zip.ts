@@ -0,0 +1,74 @@
+// A zip archive of text files, stored without compression: the generated
+// route files are a few kilobytes, which is not worth a deflate library
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function header(size: number, fill: (view: DataView) => void): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(size)
+  fill(new DataView(bytes.buffer))
+  return bytes
+}
+
+// DOS date of 1980-01-01, so the same files always make the same archive
+const DOS_DATE = (1 << 5) | 1
+
+export function createZip(files: { path: string; code: string }[]): Blob {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array<ArrayBuffer>[] = []
+  const central: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+  for (const file of files) {
+    const name = encoder.encode(file.path)
+    const data = encoder.encode(file.code)
+    const crc = crc32(data)
+    // Shared by the local header and the central directory entry
+    const fields = (view: DataView, at: number) => {
+      view.setUint16(at, 20, true) // version needed
+      view.setUint16(at + 2, 0x0800, true) // UTF-8 names
+      view.setUint16(at + 4, 0, true) // stored
+      view.setUint16(at + 6, 0, true) // time
+      view.setUint16(at + 8, DOS_DATE, true)
+      view.setUint32(at + 10, crc, true)
+      view.setUint32(at + 14, data.length, true)
+      view.setUint32(at + 18, data.length, true)
+      view.setUint16(at + 22, name.length, true)
+    }
+    parts.push(
+      header(30, (view) => {
+        view.setUint32(0, 0x04034b50, true)
+        fields(view, 4)
+      }),
+      name,
+      data,
+    )
+    central.push(
+      header(46, (view) => {
+        view.setUint32(0, 0x02014b50, true)
+        view.setUint16(4, 20, true) // version made by
+        fields(view, 6)
+        view.setUint32(42, offset, true)
+      }),
+      name,
+    )
+    offset += 30 + name.length + data.length
+  }
+  const size = central.reduce((total, part) => total + part.length, 0)
+  const end = header(22, (view) => {
+    view.setUint32(0, 0x06054b50, true)
+    view.setUint16(8, files.length, true)
+    view.setUint16(10, files.length, true)
+    view.setUint32(12, size, true)
+    view.setUint32(16, offset, true)
+  })
+  return new Blob([...parts, ...central, end], { type: 'application/zip' })
+}
@@ -1,10 +1,43 @@
 import { StrictMode } from 'react'
-import { createRoot } from 'react-dom/client'
+import { createRoot, hydrateRoot } from 'react-dom/client'
+import { loadHighlights } from 'virtual:highlighted-snippets'
 import './index.css'
 import App from './App.tsx'
+import { I18nContext } from './i18n/context'
+import { defaultLocale, localeFromPath, localePath, savedLocale } from './i18n/locales'
+import { getTranslator } from './i18n/translator'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+const locale = localeFromPath(location.pathname)
+const saved = savedLocale()
+
+// The default path sends returning visitors to the locale they picked last
+if (locale === defaultLocale && saved && saved !== locale) {
+  location.replace(`${localePath(saved)}${location.hash}`)
+} else {
+  const root = document.getElementById('root')!
+  const app = (
+    <StrictMode>
+      <I18nContext value={getTranslator(locale)}>
+        <App />
+      </I18nContext>
+    </StrictMode>
+  )
+
+  // Production builds ship prerendered markup; the dev server serves an empty
+  // root. Hydration waits for the highlighted snippets the markup was built
+  // with. Without them the markup cannot match, so the page renders afresh
+  // and highlights its snippets in the browser instead.
+  loadHighlights(locale).then(
+    () => {
+      if (root.hasChildNodes()) {
+        hydrateRoot(root, app)
+      } else {
+        createRoot(root).render(app)
+      }
+    },
+    (error: unknown) => {
+      console.error('Highlighted snippets did not load:', error)
+      createRoot(root).render(app)
+    },
+  )
+}
@@ -0,0 +1,298 @@
+import ts from 'typescript'
+import type { SourceFile } from './types'
+
+// Reads the route table out of Hono source without running it: which apps
+// the files create, what they register in which order, and how route() and
+// basePath() put them together. The inverse of convertRoutes, and what the
+// File Structure tab draws its generated tree from.
+
+export interface AppliedMiddleware {
+  // Null for an inline function
+  name: string | null
+  // Absolute pattern it was registered with, e.g. /api/protected/*
+  pattern: string
+  // The variable of the app it was registered on
+  app: string
+  line: number
+}
+
+export interface TableRoute {
+  // GET, POST, ... or ALL
+  method: string
+  path: string
+  handler: string | null
+  // In the order they run
+  middleware: AppliedMiddleware[]
+  // Sub-apps the route was mounted through, outermost first
+  apps: string[]
+  file: string
+  line: number
+}
+
+// A route() call whose sub-app is not in the given files
+export interface UnresolvedMount {
+  name: string
+  path: string
+  file: string
+  line: number
+}
+
+export interface RouteTable {
+  routes: TableRoute[]
+  unresolved: UnresolvedMount[]
+}
+
+interface AppModel {
+  name: string
+  entries: AppEntry[]
+}
+
+// What an app view registers has its base path already applied
+type AppEntry = { file: string; line: number } & (
+  | { kind: 'route'; method: string; path: string; handler: string | null }
+  | { kind: 'use'; path: string; names: (string | null)[] }
+  | { kind: 'mount'; path: string; name: string; app: AppModel | null }
+)
+
+// An app as seen through basePath(): the same routes, under a prefix
+interface AppView {
+  app: AppModel
+  base: string
+}
+
+interface FileScope {
+  values: Map<string, AppView>
+  defaultExport: AppView | null
+  // Apps handed to handle() or exported, in order
+  served: AppView[]
+  created: AppView[]
+}
+
+const ROUTE_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'options', 'all']
+const EXTENSIONS = ['', '.ts', '.tsx', '.js', '/index.ts']
+
+export function joinPaths(...parts: string[]): string {
+  const joined = parts.reduce((path, part) => {
+    if (part === '' || part === '/') return path
+    return `${path.replace(/\/$/, '')}/${part.replace(/^\//, '')}`
+  }, '')
+  return joined || '/'
+}
+
+// Whether middleware registered for `pattern` runs for the route `path`;
+// /admin/* also covers /admin, as it does in Hono
+export function covers(pattern: string, path: string): boolean {
+  const source = pattern
+    .replace(/\/\*$/, '\0')
+    .split('/')
+    .map((segment) =>
+      segment === '*' ? '.*' : segment.startsWith(':') ? '[^/]+' : segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&'),
+    )
+    .join('/')
+    .replace('\0', '(?:/.*)?')
+  return new RegExp(`^${source}$`).test(path)
+}
+
+function unwrap(node: ts.Expression): ts.Expression {
+  while (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isNonNullExpression(node)) {
+    node = node.expression
+  }
+  return node
+}
+
+function stringValue(node: ts.Expression | undefined): string | null {
+  if (!node) return null
+  const inner = unwrap(node)
+  return ts.isStringLiteral(inner) || ts.isNoSubstitutionTemplateLiteral(inner) ? inner.text : null
+}
+
+// 'GET' or ['GET', 'POST']
+function stringValues(node: ts.Expression | undefined): string[] {
+  const single = stringValue(node)
+  if (single !== null) return [single]
+  const inner = node && unwrap(node)
+  return inner && ts.isArrayLiteralExpression(inner) ? inner.elements.flatMap((element) => stringValue(element) ?? []) : []
+}
+
+// How a handler or middleware reads in the table: its name, or logger()
+function describe(node: ts.Expression, source: ts.SourceFile): string | null {
+  const inner = unwrap(node)
+  if (ts.isIdentifier(inner) || ts.isPropertyAccessExpression(inner)) return inner.getText(source)
+  if (ts.isCallExpression(inner)) {
+    const callee = describe(inner.expression, source)
+    return callee && `${callee}()`
+  }
+  return null
+}
+
+function resolveFile(specifier: string, from: string, files: Map<string, SourceFile>): string | null {
+  if (!specifier.startsWith('.')) return null
+  const parts: string[] = []
+  for (const part of [...from.split('/').slice(0, -1), ...specifier.split('/')]) {
+    if (part === '..') parts.pop()
+    else if (part !== '.') parts.push(part)
+  }
+  const base = parts.join('/')
+  return EXTENSIONS.map((extension) => base + extension).find((path) => files.has(path)) ?? null
+}
+
+class Reader {
+  private scopes = new Map<string, FileScope>()
+  private files: Map<string, SourceFile>
+
+  constructor(files: SourceFile[]) {
+    this.files = new Map(files.map((file) => [file.path, file]))
+  }
+
+  read(path: string): FileScope {
+    const existing = this.scopes.get(path)
+    if (existing) return existing
+    const scope: FileScope = { values: new Map(), defaultExport: null, served: [], created: [] }
+    this.scopes.set(path, scope)
+    const file = this.files.get(path)!
+    const source = ts.createSourceFile(path, file.code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS)
+    const hono = new Set(['Hono'])
+
+    // Imports are hoisted, wherever they are written
+    for (const statement of source.statements) {
+      if (!ts.isImportDeclaration(statement) || !statement.importClause) continue
+      const specifier = (statement.moduleSpecifier as ts.StringLiteral).text
+      const bindings = statement.importClause.namedBindings
+      if (specifier === 'hono' && bindings && ts.isNamedImports(bindings)) {
+        for (const element of bindings.elements) {
+          if ((element.propertyName ?? element.name).text === 'Hono') hono.add(element.name.text)
+        }
+      }
+      const target = resolveFile(specifier, path, this.files)
+      if (!target) continue
+      const imported = this.read(target)
+      if (statement.importClause.name && imported.defaultExport) {
+        scope.values.set(statement.importClause.name.text, imported.defaultExport)
+      }
+      if (bindings && ts.isNamedImports(bindings)) {
+        for (const element of bindings.elements) {
+          const view = imported.values.get((element.propertyName ?? element.name).text)
+          if (view) scope.values.set(element.name.text, view)
+        }
+      }
+    }
+
+    const evaluate = (node: ts.Expression, name: string): AppView | null => {
+      const inner = unwrap(node)
+      if (ts.isNewExpression(inner) && ts.isIdentifier(inner.expression) && hono.has(inner.expression.text)) {
+        const view = { app: { name, entries: [] }, base: '' }
+        scope.created.push(view)
+        return view
+      }
+      if (ts.isIdentifier(inner)) return scope.values.get(inner.text) ?? null
+      if (!ts.isCallExpression(inner)) return null
+      if (ts.isIdentifier(inner.expression) && inner.expression.text === 'handle') {
+        const served = inner.arguments[0] && evaluate(inner.arguments[0], name)
+        if (served) scope.served.push(served)
+        return null
+      }
+      if (!ts.isPropertyAccessExpression(inner.expression)) return null
+      const target = evaluate(inner.expression.expression, name)
+      return target && register(target, inner.expression.name.text, inner)
+    }
+
+    // Applies one call on an app and returns what the call returns
+    const register = (view: AppView, method: string, call: ts.CallExpression): AppView => {
+      const args = call.arguments
+      const at = { file: path, line: source.getLineAndCharacterOfPosition(call.getStart(source)).line + 1 }
+      const handler = (rest: readonly ts.Expression[]) => (rest.length > 0 ? describe(rest[rest.length - 1], source) : null)
+      if (method === 'basePath') {
+        return { app: view.app, base: joinPaths(view.base, stringValue(args[0]) ?? '') }
+      }
+      if (ROUTE_METHODS.includes(method)) {
+        for (const routePath of stringValues(args[0])) {
+          view.app.entries.push({
+            ...at,
+            kind: 'route',
+            method: method.toUpperCase(),
+            path: joinPaths(view.base, routePath),
+            handler: handler(args.slice(1)),
+          })
+        }
+      } else if (method === 'on') {
+        for (const verb of stringValues(args[0])) {
+          for (const routePath of stringValues(args[1])) {
+            view.app.entries.push({
+              ...at,
+              kind: 'route',
+              method: verb.toUpperCase(),
+              path: joinPaths(view.base, routePath),
+              handler: handler(args.slice(2)),
+            })
+          }
+        }
+      } else if (method === 'use') {
+        const pattern = stringValue(args[0])
+        const names = args.slice(pattern === null ? 0 : 1).map((arg) => describe(arg, source))
+        view.app.entries.push({ ...at, kind: 'use', path: joinPaths(view.base, pattern ?? '*'), names })
+      } else if (method === 'route' && args[1]) {
+        const sub = evaluate(args[1], describe(args[1], source) ?? 'app')
+        view.app.entries.push({
+          ...at,
+          kind: 'mount',
+          path: joinPaths(view.base, stringValue(args[0]) ?? '/'),
+          name: describe(args[1], source) ?? 'app',
+          app: sub?.app ?? null,
+        })
+      }
+      return view
+    }
+
+    for (const statement of source.statements) {
+      if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (!declaration.initializer || !ts.isIdentifier(declaration.name)) continue
+          const view = evaluate(declaration.initializer, declaration.name.text)
+          if (view) scope.values.set(declaration.name.text, view)
+        }
+      } else if (ts.isExpressionStatement(statement)) {
+        evaluate(statement.expression, 'app')
+      } else if (ts.isExportAssignment(statement)) {
+        scope.defaultExport = evaluate(statement.expression, 'app')
+      }
+    }
+    return scope
+  }
+}
+
+function flatten(
+  app: AppModel,
+  prefix: string,
+  apps: string[],
+  inherited: AppliedMiddleware[],
+  table: RouteTable,
+  mounting: Set<AppModel>,
+) {
+  const active = [...inherited]
+  for (const entry of app.entries) {
+    const path = joinPaths(prefix, entry.path)
+    if (entry.kind === 'use') {
+      active.push(...entry.names.map((name) => ({ name, pattern: path, app: app.name, line: entry.line })))
+    } else if (entry.kind === 'route') {
+      const middleware = active.filter((applied) => covers(applied.pattern, path))
+      table.routes.push({ method: entry.method, path, handler: entry.handler, middleware, apps, file: entry.file, line: entry.line })
+    } else if (entry.app && !mounting.has(entry.app)) {
+      mounting.add(entry.app)
+      flatten(entry.app, path, [...apps, entry.name], active, table, mounting)
+      mounting.delete(entry.app)
+    } else {
+      table.unresolved.push({ name: entry.name, path, file: entry.file, line: entry.line })
+    }
+  }
+}
+
+// The route table of the app the entry file serves: the one it passes to
+// handle() or exports as default, or else the first it creates
+export function readRouteTable(files: SourceFile[], entry = files[0]?.path): RouteTable {
+  const table: RouteTable = { routes: [], unresolved: [] }
+  if (!entry) return table
+  const scope = new Reader(files).read(entry)
+  const root = scope.served[0] ?? scope.defaultExport ?? scope.created[0]
+  if (root) flatten(root.app, '', [], [], table, new Set([root.app]))
+  return table
+}
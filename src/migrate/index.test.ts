@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { convertRoutes } from '.'
+
+describe('convertRoutes', () => {
+  it('moves declared handlers into the catch-all', () => {
+    const result = convertRoutes([
+      {
+        path: 'app/api/users/[id]/route.ts',
+        code: "export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {\n  const { id } = await params\n  return Response.json({ id })\n}\n",
+      },
+    ])
+    expect(result.path).toBe('app/api/[[...route]]/route.ts')
+    expect(result.routes).toEqual([{ file: 'app/api/users/[id]/route.ts', method: 'GET', path: '/users/:id' }])
+    expect(result.code).toContain("app.get('/users/:id', async (c) => {")
+    expect(result.code).toContain('export const GET = handler')
+  })
+
+  it('imports handlers re-exported from another module', () => {
+    const result = convertRoutes([
+      { path: 'app/api/users/route.ts', code: "export { GET, POST as PUT } from './handlers'\n" },
+    ])
+    expect(result.routes.map((route) => route.method)).toEqual(['GET', 'PUT'])
+    expect(result.code).toContain("import { GET as getUsers, POST as putUsers } from '../users/handlers'")
+    expect(result.code).toContain("app.get('/users', (c) => getUsers(c.req.raw, { params: Promise.resolve(c.req.param()) }))")
+    expect(result.code).toContain("app.put('/users', (c) => putUsers(c.req.raw, { params: Promise.resolve(c.req.param()) }))")
+    expect(result.notes).toEqual([
+      { kind: 'reexported', file: 'app/api/users/route.ts', method: 'GET' },
+      { kind: 'reexported', file: 'app/api/users/route.ts', method: 'PUT' },
+    ])
+  })
+
+  it('calls local functions exported under a method name', () => {
+    const result = convertRoutes([
+      {
+        path: 'app/api/posts/route.ts',
+        code: 'function list() {\n  return Response.json([])\n}\n\nexport { list as GET }\n',
+      },
+    ])
+    expect(result.routes.map((route) => route.method)).toEqual(['GET'])
+    expect(result.code).toContain('function list() {')
+    expect(result.code).toContain("app.get('/posts', (c) => list(c.req.raw, { params: Promise.resolve(c.req.param()) }))")
+    expect(result.notes).toEqual([{ kind: 'reexported', file: 'app/api/posts/route.ts', method: 'GET' }])
+  })
+
+  it('reports other re-exports by their own names', () => {
+    const result = convertRoutes([
+      {
+        path: 'app/api/posts/route.ts',
+        code: "export async function GET() {\n  return Response.json([])\n}\n\nexport { schema } from './schema'\nexport * from './types'\n",
+      },
+    ])
+    expect(result.notes).toEqual([
+      { kind: 'unknownExport', file: 'app/api/posts/route.ts', name: 'schema' },
+      { kind: 'unknownExport', file: 'app/api/posts/route.ts', name: '*' },
+    ])
+  })
+})
@@ -0,0 +1,678 @@
+import ts from 'typescript'
+import { compareRoutes } from '../sandbox/segments'
+import { honoRoute, locateRoute, relocateImport, type HonoRoute, type RouteLocation } from './paths'
+import type { ConvertedRoute, MigrationNote, MigrationResult, SourceFile } from './types'
+
+// Turns App Router route files into one Hono catch-all at
+// app/api/[[...route]]/route.ts. Shared by the page's migration assistant and
+// the CLI (scripts/migrate.ts). Handlers keep their bodies: the request and
+// params they were given are bound from Hono's context, and only rewrites
+// that mean the same thing are made (Response.json → c.json, request.json()
+// → c.req.json()).
+
+export type { MigrationNote, MigrationResult, SourceFile } from './types'
+export { readRouteTable, type AppliedMiddleware, type RouteTable, type TableRoute } from './hono'
+export { fileTree, nextjsFiles, type RouteFileStub } from './nextjs'
+
+const METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS']
+// Route segment config, which the catch-all can export once for all routes
+const SEGMENT_CONFIG = new Set([
+  'dynamic',
+  'dynamicParams',
+  'revalidate',
+  'fetchCache',
+  'runtime',
+  'preferredRegion',
+  'maxDuration',
+])
+const BODY_READERS = new Set(['json', 'text', 'formData', 'arrayBuffer', 'blob'])
+const NEXT_REQUEST_ONLY = new Set(['nextUrl', 'cookies', 'geo', 'ip'])
+// Names the generated file declares itself
+const RESERVED = ['app', 'handler', 'Hono', 'createMiddleware']
+const CATCH_ALL = 'app/api/[[...route]]/route.ts'
+const FILE_HEADER = /^\/\/ ((?:[\w@.()[\]-]+\/)+[\w.()[\]-]+\.[jt]sx?)\b/
+
+type HandlerFunction = ts.FunctionDeclaration | ts.ArrowFunction | ts.FunctionExpression
+
+interface Handler {
+  method: string
+  statement: ts.Statement
+  // Null when the export is not a function literal, e.g. withAuth(handler)
+  fn: HandlerFunction | null
+  // Name the export is hoisted under when it is called as a whole
+  wrapped?: string
+  // Exported by name (export { GET } from './handlers', export { handler
+  // as GET }): the binding the catch-all calls instead of printing a statement
+  reexport?: string
+}
+
+interface RouteFile {
+  path: string
+  location: RouteLocation
+  route: HonoRoute
+  source: ts.SourceFile
+  handlers: Handler[]
+  imports: ts.ImportDeclaration[]
+  hoisted: ts.Statement[]
+  renames: Map<string, string>
+}
+
+// Tracks what a handler body still needs from its original parameters
+interface HandlerScope {
+  request: string | null
+  params: string | null
+  requestUsed: boolean
+  paramsUsed: boolean
+  nextRequest: boolean
+}
+
+interface Printer {
+  source: ts.SourceFile
+  renames: Map<string, string>
+  scope?: HandlerScope
+}
+
+// What the catch-all imports from one module, by local name
+interface ModuleImports {
+  sideEffect: boolean
+  defaultName?: string
+  namespace?: string
+  named: Map<string, string>
+  typeOnly: boolean
+}
+
+// A repeated `try { const x = await verifyAuth(request) ... } catch { ... }`
+interface AuthPattern {
+  callee: string
+  catchText: string
+  handlers: Handler[]
+  name: string
+  variable: string
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node)?.some((modifier) => modifier.kind === kind) ?? false)
+}
+
+function isReference(node: ts.Identifier): boolean {
+  const parent = node.parent
+  if (ts.isPropertyAccessExpression(parent)) return parent.expression === node
+  if (ts.isQualifiedName(parent)) return parent.left === node
+  if (ts.isBindingElement(parent)) return parent.propertyName !== node
+  if (ts.isImportSpecifier(parent) || ts.isExportSpecifier(parent)) return false
+  if (ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent)) return false
+  if (
+    ts.isPropertyAssignment(parent) ||
+    ts.isPropertyDeclaration(parent) ||
+    ts.isPropertySignature(parent) ||
+    ts.isMethodDeclaration(parent) ||
+    ts.isMethodSignature(parent) ||
+    ts.isGetAccessorDeclaration(parent) ||
+    ts.isSetAccessorDeclaration(parent) ||
+    ts.isEnumMember(parent) ||
+    ts.isJsxAttribute(parent)
+  ) {
+    return parent.name !== node
+  }
+  return true
+}
+
+function isRequest(node: ts.Node, scope: HandlerScope | undefined): boolean {
+  return !!scope?.request && ts.isIdentifier(node) && node.text === scope.request
+}
+
+// c.json(body, status) wants a literal status code; anything else keeps
+// Response.json, which a Hono handler may return just as well
+function jsonCall(node: ts.CallExpression, p: Printer): string | undefined {
+  const [body, init] = node.arguments
+  if (!body || node.arguments.length > 2) return undefined
+  if (!init) return `c.json(${print(body, p)})`
+  if (!ts.isObjectLiteralExpression(init)) return undefined
+  const values = new Map<string, ts.Expression>()
+  for (const property of init.properties) {
+    if (!ts.isPropertyAssignment(property) || !ts.isIdentifier(property.name)) return undefined
+    values.set(property.name.text, property.initializer)
+  }
+  const status = values.get('status')
+  const headers = values.get('headers')
+  if ([...values.keys()].some((name) => name !== 'status' && name !== 'headers')) return undefined
+  if (status && !ts.isNumericLiteral(status)) return undefined
+  const args = [print(body, p), status ? status.text : '200', ...(headers ? [print(headers, p)] : [])]
+  return `c.json(${(headers || status ? args : args.slice(0, 1)).join(', ')})`
+}
+
+function rewrite(node: ts.Node, p: Printer): string | undefined {
+  const { scope } = p
+  if (ts.isIdentifier(node)) {
+    if (!isReference(node)) return undefined
+    if (scope && node.text === scope.request) scope.requestUsed = true
+    if (scope && node.text === scope.params) scope.paramsUsed = true
+    return p.renames.get(node.text)
+  }
+  if (ts.isShorthandPropertyAssignment(node)) {
+    const renamed = p.renames.get(node.name.text)
+    if (scope && node.name.text === scope.request) scope.requestUsed = true
+    if (scope && node.name.text === scope.params) scope.paramsUsed = true
+    return renamed ? `${node.name.text}: ${renamed}` : undefined
+  }
+  if (!scope) return undefined
+  if (ts.isPropertyAccessExpression(node) && isRequest(node.expression, scope) && NEXT_REQUEST_ONLY.has(node.name.text)) {
+    scope.nextRequest = true
+    return undefined
+  }
+  if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+    const { expression: target, name } = node.expression
+    if (isRequest(target, scope) && BODY_READERS.has(name.text) && node.arguments.length === 0) {
+      return `c.req.${name.text}()`
+    }
+    if (ts.isIdentifier(target) && (target.text === 'Response' || target.text === 'NextResponse') && name.text === 'json') {
+      return jsonCall(node, p)
+    }
+  }
+  return undefined
+}
+
+// The node's source text with every rewrite below it applied
+function print(node: ts.Node, p: Printer): string {
+  const rewritten = rewrite(node, p)
+  if (rewritten !== undefined) return rewritten
+  const { text } = p.source
+  let out = ''
+  let pos = node.getStart(p.source)
+  node.forEachChild((child) => {
+    out += text.slice(pos, child.getStart(p.source)) + print(child, p)
+    pos = child.end
+  })
+  return out + text.slice(pos, node.end)
+}
+
+// Comments right above a statement, which move with it
+function leadingComments(node: ts.Node, source: ts.SourceFile): string {
+  const ranges = ts.getLeadingCommentRanges(source.text, node.getFullStart()) ?? []
+  return ranges.map((range) => `${source.text.slice(range.pos, range.end)}\n`).join('')
+}
+
+function printStatement(statement: ts.Statement, p: Printer): string {
+  return leadingComments(statement, p.source) + print(statement, p).replace(/^export\s+(?:default\s+)?/, '')
+}
+
+function declaredNames(statement: ts.Statement): string[] {
+  if (
+    (ts.isFunctionDeclaration(statement) ||
+      ts.isClassDeclaration(statement) ||
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement) ||
+      ts.isEnumDeclaration(statement)) &&
+    statement.name
+  ) {
+    return [statement.name.text]
+  }
+  if (!ts.isVariableStatement(statement)) return []
+  const names: string[] = []
+  const collect = (name: ts.BindingName) => {
+    if (ts.isIdentifier(name)) names.push(name.text)
+    else name.elements.forEach((element) => ts.isBindingElement(element) && collect(element.name))
+  }
+  statement.declarationList.declarations.forEach((declaration) => collect(declaration.name))
+  return names
+}
+
+function camel(words: string[]): string {
+  return words
+    .map((word, index) => (index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join('')
+}
+
+// The name a handler that is called as a whole gets in the catch-all
+function handlerName(method: string, route: HonoRoute): string {
+  const words = route.paths[route.paths.length - 1].split(/[^A-Za-z0-9]+/).filter(Boolean)
+  return camel([method.toLowerCase(), ...words])
+}
+
+// export { GET } from './handlers' becomes an import the catch-all calls
+function importHandler(name: string, local: string, module: ts.Expression): ts.ImportDeclaration {
+  const specifier = ts.factory.createImportSpecifier(false, ts.factory.createIdentifier(name), ts.factory.createIdentifier(local))
+  const clause = ts.factory.createImportClause(undefined, undefined, ts.factory.createNamedImports([specifier]))
+  return ts.factory.createImportDeclaration(undefined, clause, ts.factory.createStringLiteral((module as ts.StringLiteral).text))
+}
+
+function parseRouteFile(file: SourceFile, location: RouteLocation, route: HonoRoute, notes: MigrationNote[]): RouteFile | null {
+  const kind = /\.[jt]sx$/.test(file.path) ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+  const source = ts.createSourceFile(file.path, file.code, ts.ScriptTarget.Latest, true, kind)
+  const syntax = ts.transpileModule(file.code, { fileName: file.path, reportDiagnostics: true }).diagnostics ?? []
+  if (syntax.length > 0) {
+    notes.push({ kind: 'parseError', file: file.path, message: ts.flattenDiagnosticMessageText(syntax[0].messageText, ' ') })
+    return null
+  }
+  // Such as the catch-all an earlier run wrote
+  const imports = source.statements.filter(ts.isImportDeclaration)
+  if (imports.some((declaration) => /^hono(?:\/|$)/.test((declaration.moduleSpecifier as ts.StringLiteral).text))) {
+    notes.push({ kind: 'alreadyHono', file: file.path })
+    return null
+  }
+  const parsed: RouteFile = { path: file.path, location, route, source, handlers: [], imports, hoisted: [], renames: new Map() }
+
+  for (const statement of source.statements) {
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword)
+    if (ts.isImportDeclaration(statement)) {
+      continue
+    } else if (exported && ts.isFunctionDeclaration(statement) && statement.name && METHODS.includes(statement.name.text)) {
+      parsed.handlers.push({ method: statement.name.text, statement, fn: statement.body ? statement : null })
+    } else if (exported && ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        const name = ts.isIdentifier(declaration.name) ? declaration.name.text : ''
+        const init = declaration.initializer
+        if (METHODS.includes(name)) {
+          const fn = init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init)) ? init : null
+          parsed.handlers.push({ method: name, statement, fn })
+        } else if (!SEGMENT_CONFIG.has(name)) {
+          notes.push({ kind: 'unknownExport', file: file.path, name })
+        }
+      }
+      // Segment config is collected across files; helpers stay, unexported
+      const names = statement.declarationList.declarations.map((declaration) => declaration.name.getText(source))
+      if (names.every((name) => !METHODS.includes(name) && !SEGMENT_CONFIG.has(name))) parsed.hoisted.push(statement)
+    } else if (ts.isExportDeclaration(statement)) {
+      const clause = statement.exportClause
+      if (!clause || ts.isNamespaceExport(clause)) {
+        notes.push({ kind: 'unknownExport', file: file.path, name: clause ? clause.name.text : '*' })
+        continue
+      }
+      for (const element of clause.elements) {
+        const name = element.name.text
+        if (!METHODS.includes(name) || statement.isTypeOnly || element.isTypeOnly) {
+          notes.push({ kind: 'unknownExport', file: file.path, name })
+          continue
+        }
+        const imported = (element.propertyName ?? element.name).text
+        let local = imported
+        if (statement.moduleSpecifier) {
+          local = handlerName(name, route)
+          parsed.imports.push(importHandler(imported, local, statement.moduleSpecifier))
+        }
+        parsed.handlers.push({ method: name, statement, fn: null, reexport: local })
+        notes.push({ kind: 'reexported', file: file.path, method: name })
+      }
+    } else if (exported || ts.isExportAssignment(statement)) {
+      const names = declaredNames(statement)
+      for (const name of names.length > 0 ? names : ['default']) notes.push({ kind: 'unknownExport', file: file.path, name })
+      if (names.length > 0) parsed.hoisted.push(statement)
+    } else {
+      parsed.hoisted.push(statement)
+    }
+  }
+  // Handlers that cannot take over a Hono context get called as they are
+  for (const handler of parsed.handlers) {
+    const params = handler.fn?.parameters ?? []
+    if (handler.reexport) continue
+    if (handler.fn && params.length <= 2 && (params.length === 0 || ts.isIdentifier(params[0].name))) continue
+    handler.fn = null
+    notes.push({ kind: 'wrapped', file: file.path, method: handler.method })
+  }
+  if (parsed.handlers.length === 0) notes.push({ kind: 'noHandlers', file: file.path })
+  return parsed
+}
+
+function segmentConfig(files: RouteFile[], notes: MigrationNote[]): string[] {
+  const config = new Map<string, string>()
+  for (const file of files) {
+    for (const statement of file.source.statements) {
+      if (!ts.isVariableStatement(statement) || !hasModifier(statement, ts.SyntaxKind.ExportKeyword)) continue
+      for (const declaration of statement.declarationList.declarations) {
+        const name = declaration.name.getText(file.source)
+        const value = declaration.initializer?.getText(file.source)
+        if (!SEGMENT_CONFIG.has(name) || value === undefined) continue
+        const existing = config.get(name)
+        if (existing === undefined) config.set(name, value)
+        else if (existing !== value) notes.push({ kind: 'configConflict', file: file.path, name })
+      }
+    }
+  }
+  return [...config].map(([name, value]) => `export const ${name} = ${value}`)
+}
+
+// The import's module as the catch-all reaches it
+function importedModule(declaration: ts.ImportDeclaration, file: RouteFile): string {
+  return relocateImport((declaration.moduleSpecifier as ts.StringLiteral).text, file.location.file, CATCH_ALL)
+}
+
+// Gives every top-level name of the merged file one meaning: identical
+// declarations from several files are kept once, different ones that share
+// a name are renamed in the files that come later
+function resolveNames(files: RouteFile[], notes: MigrationNote[]): Set<ts.Statement> {
+  const taken = new Map<string, string>(RESERVED.map((name) => [name, `reserved:${name}`]))
+  const duplicates = new Set<ts.Statement>()
+  const claim = (file: RouteFile, name: string, signature: string) => {
+    const existing = taken.get(name)
+    if (existing === undefined) {
+      taken.set(name, signature)
+      return true
+    }
+    if (existing === signature) return false
+    let index = 2
+    while (taken.has(`${name}${index}`)) index++
+    file.renames.set(name, `${name}${index}`)
+    taken.set(`${name}${index}`, signature)
+    notes.push({ kind: 'renamed', file: file.path, from: name, to: `${name}${index}` })
+    return true
+  }
+  for (const file of files) {
+    for (const declaration of file.imports) {
+      const module = importedModule(declaration, file)
+      const clause = declaration.importClause
+      if (clause?.name) claim(file, clause.name.text, `import:${module}:default`)
+      const bindings = clause?.namedBindings
+      if (bindings && ts.isNamespaceImport(bindings)) claim(file, bindings.name.text, `import:${module}:*`)
+      if (bindings && ts.isNamedImports(bindings)) {
+        for (const element of bindings.elements) {
+          claim(file, element.name.text, `import:${module}:${(element.propertyName ?? element.name).text}`)
+        }
+      }
+    }
+    for (const statement of file.hoisted) {
+      const signature = `declare:${statement.getText(file.source)}`
+      const claimed = declaredNames(statement).map((name) => claim(file, name, signature))
+      if (claimed.length > 0 && claimed.every((fresh) => !fresh)) duplicates.add(statement)
+    }
+    for (const handler of file.handlers) {
+      if (handler.fn) continue
+      // Claimed as the import or declaration it names
+      if (handler.reexport) {
+        handler.wrapped = file.renames.get(handler.reexport) ?? handler.reexport
+        continue
+      }
+      const name = handlerName(handler.method, file.route)
+      claim(file, name, `handler:${file.path}:${handler.method}`)
+      handler.wrapped = file.renames.get(name) ?? name
+      file.renames.set(handler.method, handler.wrapped)
+    }
+  }
+  return duplicates
+}
+
+function mergeImports(files: RouteFile[], code: string): string[] {
+  const modules = new Map<string, ModuleImports>()
+  const used = (name: string) => new RegExp(`(?<![\\w$.])${name.replace(/\$/g, '\\$')}(?![\\w$])`).test(code)
+  for (const file of files) {
+    for (const declaration of file.imports) {
+      const module = importedModule(declaration, file)
+      const entry: ModuleImports = modules.get(module) ?? { sideEffect: false, named: new Map(), typeOnly: true }
+      modules.set(module, entry)
+      const clause = declaration.importClause
+      const local = (name: string) => file.renames.get(name) ?? name
+      if (!clause) entry.sideEffect = true
+      if (clause && !clause.isTypeOnly) entry.typeOnly = false
+      if (clause?.name && used(local(clause.name.text))) entry.defaultName = local(clause.name.text)
+      const bindings = clause?.namedBindings
+      if (bindings && ts.isNamespaceImport(bindings) && used(local(bindings.name.text))) {
+        entry.namespace = local(bindings.name.text)
+      }
+      if (bindings && ts.isNamedImports(bindings)) {
+        for (const element of bindings.elements) {
+          const name = local(element.name.text)
+          if (!used(name)) continue
+          const imported = (element.propertyName ?? element.name).text
+          const typeOnly = element.isTypeOnly || clause?.isTypeOnly ? 'type ' : ''
+          entry.named.set(name, typeOnly + (imported === name ? name : `${imported} as ${name}`))
+        }
+      }
+    }
+  }
+  return [...modules].flatMap(([module, entry]) => {
+    const specifiers = [...entry.named.values()]
+    // import type { A, B } rather than import { type A, type B }
+    const typesOnly = specifiers.every((specifier) => specifier.startsWith('type ')) && !entry.defaultName
+    const named = specifiers.length === 0 ? '' : `{ ${specifiers.map((name) => (typesOnly ? name.slice(5) : name)).join(', ')} }`
+    const type = entry.typeOnly ? 'type ' : ''
+    const from = ` from '${module}'`
+    const lines: string[] = []
+    if (entry.namespace) {
+      lines.push(`import ${type}${[entry.defaultName, `* as ${entry.namespace}`].filter(Boolean).join(', ')}${from}`)
+    } else if (entry.defaultName) {
+      lines.push(`import ${type}${[entry.defaultName, named].filter(Boolean).join(', ')}${from}`)
+    }
+    if (named && (entry.namespace || !entry.defaultName)) lines.push(`import ${typesOnly ? 'type ' : ''}${named}${from}`)
+    if (lines.length === 0 && entry.sideEffect) lines.push(`import '${module}'`)
+    return lines
+  })
+}
+
+// The handler's first statement awaits a helper on the request, and its
+// catch answers the failure; the same pair in several handlers is a
+// middleware waiting to happen
+function authCall(handler: Handler, source: ts.SourceFile) {
+  const body = handler.fn?.body
+  const request = handler.fn?.parameters[0]?.name
+  if (!body || !ts.isBlock(body) || body.statements.length !== 1 || !request || !ts.isIdentifier(request)) return null
+  const statement = body.statements[0]
+  if (!ts.isTryStatement(statement) || !statement.catchClause || statement.finallyBlock) return null
+  const first = statement.tryBlock.statements[0]
+  let call: ts.Expression | undefined
+  let binding: ts.BindingName | undefined
+  if (first && ts.isVariableStatement(first) && first.declarationList.declarations.length === 1) {
+    const [declaration] = first.declarationList.declarations
+    if (!declaration.type) [call, binding] = [declaration.initializer, declaration.name]
+  } else if (first && ts.isExpressionStatement(first)) {
+    call = first.expression
+  }
+  if (!call || !ts.isAwaitExpression(call) || !ts.isCallExpression(call.expression)) return null
+  const { expression: callee, arguments: args } = call.expression
+  if (!ts.isIdentifier(callee) || args.length !== 1 || !ts.isIdentifier(args[0]) || args[0].text !== request.text) return null
+  const catchText = statement.catchClause.getText(source)
+  if (new RegExp(`\\b${request.text}\\b`).test(catchText)) return null
+  return { callee: callee.text, statement, first, binding, catchClause: statement.catchClause }
+}
+
+function findAuthPatterns(files: RouteFile[]): Map<Handler, AuthPattern> {
+  const patterns = new Map<string, AuthPattern>()
+  for (const file of files) {
+    for (const handler of file.handlers) {
+      const call = authCall(handler, file.source)
+      if (!call) continue
+      const callee = file.renames.get(call.callee) ?? call.callee
+      const catchText = print(call.catchClause, { source: file.source, renames: file.renames, scope: emptyScope() })
+      const key = `${callee}\n${catchText.replace(/\s+/g, ' ')}`
+      const pattern = patterns.get(key) ?? {
+        callee,
+        catchText,
+        handlers: [],
+        name: `${callee}Middleware`,
+        // verifyAuth → c.get('auth')
+        variable: /^(?:verify|require|check|ensure|get|load|validate)([A-Z]\w*)$/
+          .exec(callee)?.[1]
+          .replace(/^./, (letter) => letter.toLowerCase()) ?? callee,
+      }
+      pattern.handlers.push(handler)
+      patterns.set(key, pattern)
+    }
+  }
+  const byHandler = new Map<Handler, AuthPattern>()
+  for (const pattern of patterns.values()) {
+    if (pattern.handlers.length < 2) continue
+    pattern.handlers.forEach((handler) => byHandler.set(handler, pattern))
+  }
+  return byHandler
+}
+
+function emptyScope(request: string | null = null, params: string | null = null): HandlerScope {
+  return { request, params, requestUsed: false, paramsUsed: false, nextRequest: false }
+}
+
+function middlewareCode(pattern: AuthPattern): string {
+  const env = `{ Variables: { ${pattern.variable}: Awaited<ReturnType<typeof ${pattern.callee}>> } }`
+  return [
+    `const ${pattern.name} = createMiddleware<${env}>(async (c, next) => {`,
+    '  try {',
+    `    c.set('${pattern.variable}', await ${pattern.callee}(c.req.raw))`,
+    `  } ${pattern.catchText}`,
+    '  await next()',
+    '})',
+  ].join('\n')
+}
+
+function paramsExpression(route: HonoRoute): string {
+  const { catchAll } = route
+  if (!catchAll) return 'c.req.param()'
+  // Next.js hands a catch-all over as an array of segments
+  return `{ ...c.req.param(), ${catchAll.name}: c.req.param('${catchAll.name}')${catchAll.optional ? '?' : ''}.split('/') }`
+}
+
+function dedent(text: string, amount: number): string {
+  return amount > 0 ? text.replace(new RegExp(`\\n {1,${amount}}`, 'g'), '\n') : text
+}
+
+function column(node: ts.Node, source: ts.SourceFile): number {
+  return source.getLineAndCharacterOfPosition(node.getStart(source)).character
+}
+
+// The body of a handler the middleware now guards: the try block without
+// its auth call, which becomes a read from the context
+function guardedBody(handler: Handler, pattern: AuthPattern, p: Printer): string {
+  const call = authCall(handler, p.source)!
+  const { text } = p.source
+  const statements = call.statement.tryBlock.statements
+  const indent = ' '.repeat(column(call.statement, p.source))
+  let rest = ''
+  let pos = call.first.end
+  for (const statement of statements.slice(1)) {
+    rest += text.slice(pos, statement.getStart(p.source)) + print(statement, p)
+    pos = statement.end
+  }
+  const extra = column(statements[0], p.source) - column(call.statement, p.source)
+  const binding = call.binding ? `\n${indent}const ${print(call.binding, p)} = c.get('${pattern.variable}')` : ''
+  return `{${binding}${dedent(rest, extra)}\n${' '.repeat(Math.max(0, column(call.statement, p.source) - 2))}}`
+}
+
+function registration(file: RouteFile, handler: Handler, pattern: AuthPattern | undefined, notes: MigrationNote[]): string {
+  const paths = file.route.paths.map((path) => `'${path}'`)
+  const target =
+    handler.method === 'HEAD' || paths.length > 1
+      ? `app.on('${handler.method}', ${paths.length > 1 ? `[${paths.join(', ')}]` : paths[0]}, `
+      : `app.${handler.method.toLowerCase()}(${paths[0]}, `
+  const comments = leadingComments(handler.statement, file.source)
+  if (!handler.fn) {
+    const params = `Promise.resolve(${paramsExpression(file.route)})`
+    return `${comments}${target}(c) => ${handler.wrapped}(c.req.raw, { params: ${params} }))`
+  }
+
+  const { fn } = handler
+  const [request, context] = fn.parameters
+  // { params } or a whole context object
+  const paramsBinding =
+    context && ts.isObjectBindingPattern(context.name)
+      ? context.name.elements.find((element) => (element.propertyName ?? element.name).getText(file.source) === 'params')?.name
+      : context?.name
+  const paramsName = paramsBinding?.getText(file.source) ?? null
+  const scope = emptyScope(request?.name.getText(file.source) ?? null, paramsName)
+  const p: Printer = { source: file.source, renames: file.renames, scope }
+  const async = hasModifier(fn, ts.SyntaxKind.AsyncKeyword) ? 'async ' : ''
+
+  let body = pattern ? guardedBody(handler, pattern, p) : print(fn.body!, p)
+  const bindings: string[] = []
+  if (scope.requestUsed) {
+    const nextRequest = request.type?.getText(file.source) === 'NextRequest'
+    bindings.push(`const ${scope.request} = c.req.raw${nextRequest ? ' as NextRequest' : ''}`)
+  }
+  if (scope.paramsUsed && context) {
+    const params = paramsExpression(file.route)
+    bindings.push(`const ${scope.params} = ${ts.isObjectBindingPattern(context.name) ? params : `{ params: ${params} }`}`)
+  }
+  if (scope.nextRequest) notes.push({ kind: 'nextRequest', file: file.path, method: handler.method })
+  if (!ts.isBlock(fn.body!) && bindings.length > 0) body = `{\n  return ${body}\n}`
+  if (bindings.length > 0) body = `{\n${bindings.map((line) => `  ${line}`).join('\n')}${body.slice(1)}`
+  const middleware = pattern ? `${pattern.name}, ` : ''
+  return `${comments}${target}${middleware}${async}(c) => ${body})`
+}
+
+// Several files pasted as one text, each after a `// path.ts` header line
+export function readSourceFiles(text: string): SourceFile[] {
+  const files: SourceFile[] = []
+  text.split('\n').forEach((line, index) => {
+    const header = FILE_HEADER.exec(line)
+    if (header) files.push({ path: header[1], code: '', line: index + 2 })
+    else if (files.length > 0) files[files.length - 1].code += `${line}\n`
+  })
+  return files
+}
+
+export function convertRoutes(sources: SourceFile[]): MigrationResult {
+  const notes: MigrationNote[] = []
+  const files: RouteFile[] = []
+  let root: string | null = null
+  for (const source of sources) {
+    const location = locateRoute(source.path)
+    if (!location) {
+      notes.push({ kind: 'notRoute', file: source.path })
+      continue
+    }
+    if (location.segments[0] !== 'api') {
+      notes.push({ kind: 'outsideApi', file: source.path })
+      continue
+    }
+    const route = honoRoute(location.segments.slice(1))
+    if (typeof route === 'string') {
+      notes.push({ kind: 'unsupportedSegment', file: source.path, segment: route })
+      continue
+    }
+    const parsed = parseRouteFile(source, location, route, notes)
+    if (parsed) files.push(parsed)
+    root ??= location.root
+  }
+  const path = `${root ?? ''}${CATCH_ALL}`
+
+  files.sort((a, b) => compareRoutes(a.location, b.location))
+  const duplicates = resolveNames(files, notes)
+  const patterns = findAuthPatterns(files)
+  const routes: ConvertedRoute[] = []
+  const registered = new Set<string>()
+  const blocks: string[] = []
+  for (const file of files) {
+    const handlers = [...file.handlers].sort((a, b) => METHODS.indexOf(a.method) - METHODS.indexOf(b.method))
+    const lines: string[] = []
+    for (const handler of handlers) {
+      const key = `${handler.method} ${file.route.paths.join(' ')}`
+      if (registered.has(key)) {
+        notes.push({ kind: 'duplicateRoute', file: file.path, method: handler.method, path: file.route.paths.at(-1)! })
+        continue
+      }
+      registered.add(key)
+      routes.push({ file: file.path, method: handler.method, path: file.route.paths.at(-1)! })
+      lines.push(registration(file, handler, patterns.get(handler), notes))
+    }
+    if (lines.length > 0) blocks.push(`// ${file.path}\n${lines.join('\n\n')}`)
+  }
+  const middleware = [...new Set(patterns.values())]
+  for (const pattern of middleware) notes.push({ kind: 'middleware', name: pattern.callee, count: pattern.handlers.length })
+  if (routes.length === 0) return { path, code: '', routes, notes }
+
+  const hoisted = files.flatMap((file) =>
+    file.hoisted
+      .filter((statement) => !duplicates.has(statement))
+      .map((statement) => printStatement(statement, { source: file.source, renames: file.renames })),
+  )
+  const wrapped = files.flatMap((file) =>
+    file.handlers
+      .filter((handler) => !handler.fn && !handler.reexport)
+      .map((handler) => printStatement(handler.statement, { source: file.source, renames: file.renames })),
+  )
+  const methods = METHODS.filter((method) => routes.some((route) => route.method === method))
+  const body = [
+    ...hoisted,
+    ...wrapped,
+    ...middleware.map(middlewareCode),
+    "const app = new Hono().basePath('/api')",
+    ...blocks,
+    [
+      'const handler = (request: Request) => app.fetch(request)',
+      '',
+      ...methods.map((method) => `export const ${method} = handler`),
+      ...segmentConfig(files, notes),
+    ].join('\n'),
+  ].join('\n\n')
+  const imports = [
+    "import { Hono } from 'hono'",
+    ...(middleware.length > 0 ? ["import { createMiddleware } from 'hono/factory'"] : []),
+    ...mergeImports(files, body),
+  ]
+  return { path, code: `// ${path}\n${imports.join('\n')}\n\n${body}\n`, routes, notes }
+}
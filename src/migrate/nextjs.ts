@@ -0,0 +1,124 @@
+import type { RouteTable, TableRoute } from './hono'
+import type { SourceFile } from './types'
+
+// The way back: a Hono route table as App Router route files, one folder per
+// path with a stub for each method that says what to port into it
+
+const ALL_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
+
+export interface RouteFileStub extends SourceFile {
+  // GET /api/users, ... as the file's methods answer them
+  endpoints: string[]
+}
+
+interface Folder {
+  segments: string[]
+  // Param name → type, for the params prop
+  params: Map<string, string>
+  routes: TableRoute[]
+}
+
+// /posts/:id → posts/[id], /files/* → files/[...rest], /:lang? → [[...lang]]
+function folderSegments(path: string): { segments: string[]; params: Map<string, string> } {
+  const params = new Map<string, string>()
+  const parts = path.split('/').filter(Boolean)
+  const segments = parts.map((part, index) => {
+    const last = index === parts.length - 1
+    const param = /^:(\w+)(\?)?(?:\{.*\})?$/.exec(part)
+    if (param?.[2] && last) {
+      params.set(param[1], 'string[] | undefined')
+      return `[[...${param[1]}]]`
+    }
+    if (param) {
+      params.set(param[1], 'string')
+      return `[${param[1]}]`
+    }
+    if (part === '*') {
+      params.set('rest', 'string[]')
+      return '[...rest]'
+    }
+    return part
+  })
+  return { segments, params }
+}
+
+function describeRoute(route: TableRoute): string[] {
+  const lines = [`// ${route.method} ${route.path}${route.handler ? ` → ${route.handler}` : ''}`]
+  if (route.apps.length > 0) lines.push(`// Mounted through ${route.apps.join(' → ')}`)
+  const middleware = route.middleware.map(({ name, app }) => `${name ?? 'inline middleware'} (${app})`)
+  if (middleware.length > 0) lines.push(`// Runs after ${middleware.join(', ')}`)
+  return lines
+}
+
+function routeFile(folder: Folder): RouteFileStub {
+  const path = ['app', ...folder.segments, 'route.ts'].join('/')
+  const context =
+    folder.params.size > 0
+      ? `, { params }: { params: Promise<{ ${[...folder.params].map(([name, type]) => `${name}: ${type}`).join('; ')} }> }`
+      : ''
+  const methods = new Map<string, TableRoute>()
+  for (const route of folder.routes) {
+    for (const method of route.method === 'ALL' ? ALL_METHODS : [route.method]) {
+      if (!methods.has(method)) methods.set(method, route)
+    }
+  }
+  const handlers = [...methods].map(([method, route]) =>
+    [
+      ...describeRoute(route),
+      `export async function ${method}(_request: Request${context}) {`,
+      "  return Response.json({ error: 'Not implemented' }, { status: 501 })",
+      '}',
+    ].join('\n'),
+  )
+  const endpoints = [...new Set(folder.routes.map((route) => `${route.method} ${route.path}`))]
+  return { path, code: `// ${path}\n${handlers.join('\n\n')}\n`, endpoints }
+}
+
+// One route.ts per distinct path, in the order the table registers them
+export function nextjsFiles(table: RouteTable): RouteFileStub[] {
+  const folders = new Map<string, Folder>()
+  for (const route of table.routes) {
+    const { segments, params } = folderSegments(route.path)
+    const key = segments.join('/')
+    const folder = folders.get(key) ?? { segments, params, routes: [] }
+    folder.routes.push(route)
+    folders.set(key, folder)
+  }
+  return [...folders.values()].map(routeFile)
+}
+
+interface TreeNode {
+  children: Map<string, TreeNode>
+  note?: string
+}
+
+// The files as an ASCII tree like the File Structure tab's, with a note
+// after each file
+export function fileTree(files: { path: string; note?: string }[]): string {
+  const root: TreeNode = { children: new Map() }
+  for (const file of files) {
+    let node = root
+    for (const part of file.path.split('/')) {
+      const child = node.children.get(part) ?? { children: new Map() }
+      node.children.set(part, child)
+      node = child
+    }
+    node.note = file.note
+  }
+  const lines: string[] = []
+  const walk = (node: TreeNode, indent: string) => {
+    const entries = [...node.children]
+    entries.forEach(([name, child], index) => {
+      const last = index === entries.length - 1
+      const label = child.children.size > 0 ? `${name}/` : name
+      const line = `${indent}${last ? '└── ' : '├── '}${label}`
+      lines.push(child.note ? `${line.padEnd(32)}← ${child.note}` : line)
+      walk(child, `${indent}${last ? '    ' : '│   '}`)
+    })
+  }
+  if (root.children.size === 0) return ''
+  const [[top, topNode]] = [...root.children]
+  lines.push(`${top}/`)
+  walk(topNode, '')
+  return lines.join('\n')
+}
@@ -0,0 +1,75 @@
+import { routeSegments } from '../sandbox/segments'
+
+const ROUTE_FILE = /^(.*?)(app\/(?:.*\/)?route\.[jt]sx?)$/
+const ROUTE_PATH = /(?:^|\/)app\/(?:.*\/)?route\.[jt]sx?$/
+const IGNORED = /(?:^|\/)(?:node_modules|\.next|\.git)\//
+
+export interface RouteLocation {
+  // Whatever sits above app/, such as `src/`
+  root: string
+  // From app/ on: app/api/posts/[id]/route.ts
+  file: string
+  segments: string[]
+}
+
+export interface HonoRoute {
+  // Several for an optional catch-all, which also matches its parent path
+  paths: string[]
+  catchAll: { name: string; optional: boolean } | null
+}
+
+// Which files of a project folder to convert: its route files, and nothing
+// from node_modules or build output
+export function isRouteFile(path: string): boolean {
+  return ROUTE_PATH.test(path) && !IGNORED.test(path)
+}
+
+export function locateRoute(path: string): RouteLocation | null {
+  const match = ROUTE_FILE.exec(path.replace(/\\/g, '/').replace(/^\.?\//, ''))
+  if (!match || (match[1] && !match[1].endsWith('/'))) return null
+  return { root: match[1], file: match[2], segments: routeSegments(match[2]) }
+}
+
+// Segments below app/api as a Hono path: [id] → :id, [...slug] → :slug{.+}.
+// Returns the segment Hono has no equivalent for (parallel and intercepting
+// routes) instead.
+export function honoRoute(segments: string[]): HonoRoute | string {
+  const parts: string[] = []
+  let catchAll: HonoRoute['catchAll'] = null
+  for (const segment of segments) {
+    if (segment.startsWith('@') || segment.startsWith('(.')) return segment
+    const rest = /^\[(\[)?\.\.\.(\w+)\]\]?$/.exec(segment)
+    const param = /^\[(\w+)\]$/.exec(segment)
+    if (rest) {
+      catchAll = { name: rest[2], optional: !!rest[1] }
+      parts.push(`:${rest[2]}{.+}`)
+    } else {
+      parts.push(param ? `:${param[1]}` : segment)
+    }
+  }
+  const path = `/${parts.join('/')}`
+  if (!catchAll?.optional) return { paths: [path], catchAll }
+  return { paths: [`/${parts.slice(0, -1).join('/')}`, path], catchAll }
+}
+
+function normalize(parts: string[]): string[] {
+  const result: string[] = []
+  for (const part of parts) {
+    if (part === '..' && result.length > 0 && result[result.length - 1] !== '..') result.pop()
+    else if (part !== '.' && part !== '') result.push(part)
+  }
+  return result
+}
+
+// A relative import of `from`, pointed at the same module from `to`;
+// aliases such as @/lib/auth and packages stay as they are
+export function relocateImport(specifier: string, from: string, to: string): string {
+  if (!specifier.startsWith('.')) return specifier
+  const target = normalize([...from.split('/').slice(0, -1), ...specifier.split('/')])
+  const base = normalize(to.split('/').slice(0, -1))
+  let shared = 0
+  while (shared < base.length && shared < target.length - 1 && base[shared] === target[shared]) shared++
+  const up = base.slice(shared).map(() => '..')
+  const relative = [...up, ...target.slice(shared)].join('/')
+  return up.length > 0 ? relative : `./${relative}`
+}
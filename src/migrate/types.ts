@@ -0,0 +1,42 @@
+// A file of the project being migrated, by its path from the project root
+// (or anything above app/, such as src/app/...)
+export interface SourceFile {
+  path: string
+  code: string
+  // 1-based line of the pasted text the code starts at, when it came from one
+  line?: number
+}
+
+export interface ConvertedRoute {
+  file: string
+  method: string
+  // Hono path, relative to the catch-all's basePath('/api')
+  path: string
+}
+
+// What the report says about one file; the page and the CLI word each kind
+// through the `migrate.note.<kind>` messages
+export type MigrationNote =
+  | { kind: 'notRoute'; file: string }
+  | { kind: 'outsideApi'; file: string }
+  | { kind: 'alreadyHono'; file: string }
+  | { kind: 'parseError'; file: string; message: string }
+  | { kind: 'noHandlers'; file: string }
+  | { kind: 'unsupportedSegment'; file: string; segment: string }
+  | { kind: 'duplicateRoute'; file: string; method: string; path: string }
+  | { kind: 'unknownExport'; file: string; name: string }
+  | { kind: 'configConflict'; file: string; name: string }
+  | { kind: 'renamed'; file: string; from: string; to: string }
+  | { kind: 'wrapped'; file: string; method: string }
+  | { kind: 'reexported'; file: string; method: string }
+  | { kind: 'nextRequest'; file: string; method: string }
+  | { kind: 'middleware'; name: string; count: number }
+
+export interface MigrationResult {
+  // Path of the generated catch-all, next to the routes it replaces
+  path: string
+  // Empty when nothing could be converted
+  code: string
+  routes: ConvertedRoute[]
+  notes: MigrationNote[]
+}
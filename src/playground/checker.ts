@@ -0,0 +1,52 @@
+import type { CursorInfo, FileDiagnostic, WorkerRequest, WorkerResponse } from './protocol'
+
+export interface TypeChecker {
+  // Replaces every file and returns each one's errors, keyed by path
+  check(files: Record<string, string>): Promise<Record<string, FileDiagnostic[]>>
+  cursor(file: string, text: string, offset: number): Promise<CursorInfo>
+  dispose(): void
+}
+
+interface Pending {
+  resolve: (response: WorkerResponse) => void
+  reject: (error: Error) => void
+}
+
+// Starts the worker, which loads TypeScript and the declarations it checks
+// against; nothing of either is in the page's own bundle
+export function createTypeChecker(): TypeChecker {
+  const worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' })
+  const pending = new Map<number, Pending>()
+  let nextId = 0
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    pending.get(event.data.id)?.resolve(event.data)
+    pending.delete(event.data.id)
+  }
+  worker.onerror = (event) => {
+    for (const { reject } of pending.values()) reject(new Error(event.message || 'TypeScript worker failed'))
+    pending.clear()
+  }
+
+  const send = (request: WorkerRequest) =>
+    new Promise<WorkerResponse>((resolve, reject) => {
+      pending.set(request.id, { resolve, reject })
+      worker.postMessage(request)
+    })
+
+  return {
+    async check(files) {
+      const response = await send({ id: nextId++, type: 'check', files })
+      return response.type === 'check' ? response.diagnostics : {}
+    },
+    async cursor(file, text, offset) {
+      const response = await send({ id: nextId++, type: 'cursor', file, text, offset })
+      return response.type === 'cursor' ? response.info : { type: null, completions: [], prefix: 0 }
+    },
+    dispose() {
+      worker.terminate()
+      for (const { reject } of pending.values()) reject(new Error('TypeScript worker stopped'))
+      pending.clear()
+    },
+  }
+}
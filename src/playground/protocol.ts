@@ -0,0 +1,27 @@
+// Messages between the page and the TypeScript worker. Every request carries
+// an id, which the worker echoes on its reply.
+
+export interface FileDiagnostic {
+  // 1-based
+  line: number
+  code: number
+  message: string
+}
+
+export interface CursorInfo {
+  // Type of the identifier that ends at the cursor, as the editor's hover shows it
+  type: string | null
+  // Members the cursor could complete to after a `.`, matching what is typed
+  completions: string[]
+  // Length of the partly typed name a completion replaces
+  prefix: number
+}
+
+export type WorkerRequest =
+  | { id: number; type: 'check'; files: Record<string, string> }
+  // Carries the file's latest text, which checks only see after a pause in typing
+  | { id: number; type: 'cursor'; file: string; text: string; offset: number }
+
+export type WorkerResponse =
+  | { id: number; type: 'check'; diagnostics: Record<string, FileDiagnostic[]> }
+  | { id: number; type: 'cursor'; info: CursorInfo }
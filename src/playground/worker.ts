@@ -0,0 +1,96 @@
+import ts from 'typescript'
+import declarations from 'virtual:playground-types'
+import type { CursorInfo, FileDiagnostic, WorkerRequest, WorkerResponse } from './protocol'
+
+// A TypeScript language service over an in-memory file system: the
+// playground's files, plus the libs and package declarations collected at
+// build time (plugins/playground-types.ts, whose options these match)
+
+const compilerOptions: ts.CompilerOptions = {
+  strict: true,
+  noEmit: true,
+  target: ts.ScriptTarget.ES2022,
+  lib: ['lib.es2023.d.ts', 'lib.webworker.d.ts', 'lib.webworker.iterable.d.ts'],
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  moduleDetection: ts.ModuleDetectionKind.Force,
+  types: [],
+}
+
+const MAX_COMPLETIONS = 12
+
+const files = new Map<string, { text: string; version: number }>()
+
+const readText = (name: string): string | undefined => files.get(name)?.text ?? declarations[name]
+
+const host: ts.LanguageServiceHost = {
+  getCompilationSettings: () => compilerOptions,
+  getScriptFileNames: () => [...files.keys()],
+  getScriptVersion: (name) => String(files.get(name)?.version ?? 0),
+  getScriptSnapshot: (name) => {
+    const text = readText(name)
+    return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text)
+  },
+  getCurrentDirectory: () => '/',
+  getDefaultLibFileName: () => '/lib.es2023.d.ts',
+  fileExists: (name) => readText(name) !== undefined,
+  readFile: readText,
+}
+
+const service = ts.createLanguageService(host, ts.createDocumentRegistry())
+
+function setFile(name: string, text: string) {
+  const current = files.get(name)
+  if (current?.text !== text) files.set(name, { text, version: (current?.version ?? 0) + 1 })
+}
+
+function update(next: Record<string, string>) {
+  for (const name of files.keys()) {
+    if (!(name in next)) files.delete(name)
+  }
+  for (const [name, text] of Object.entries(next)) setFile(name, text)
+}
+
+function diagnosticsOf(name: string): FileDiagnostic[] {
+  return [...service.getSyntacticDiagnostics(name), ...service.getSemanticDiagnostics(name)].map((diagnostic) => ({
+    line:
+      diagnostic.file && diagnostic.start !== undefined
+        ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start).line + 1
+        : 1,
+    code: diagnostic.code,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+  }))
+}
+
+function cursorInfo(name: string, offset: number): CursorInfo {
+  const text = readText(name) ?? ''
+  const prefix = /[\w$]*$/.exec(text.slice(0, offset))?.[0] ?? ''
+  const quickInfo = offset > 0 ? service.getQuickInfoAtPosition(name, offset - 1) : undefined
+  const completions = service.getCompletionsAtPosition(name, offset, {})
+  return {
+    type: quickInfo ? ts.displayPartsToString(quickInfo.displayParts) : null,
+    // Outside a member access TypeScript offers every global; not worth a list
+    completions: completions?.isMemberCompletion
+      ? completions.entries
+          .filter((entry) => entry.name.startsWith(prefix) && entry.name !== prefix)
+          .sort((a, b) => a.sortText.localeCompare(b.sortText) || a.name.localeCompare(b.name))
+          .slice(0, MAX_COMPLETIONS)
+          .map((entry) => entry.name)
+      : [],
+    prefix: prefix.length,
+  }
+}
+
+function handle(request: WorkerRequest): WorkerResponse {
+  if (request.type === 'check') {
+    update(request.files)
+    const diagnostics = Object.fromEntries([...files.keys()].map((name) => [name, diagnosticsOf(name)]))
+    return { id: request.id, type: 'check', diagnostics }
+  }
+  setFile(request.file, request.text)
+  return { id: request.id, type: 'cursor', info: cursorInfo(request.file, request.offset) }
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  self.postMessage(handle(event.data))
+}
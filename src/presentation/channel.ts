@@ -0,0 +1,27 @@
+// The presenter view and the speaker notes window share slide state over a
+// BroadcastChannel. A channel also delivers to other instances in the same
+// window, so messages carry the sender's id.
+
+export type PresentationMessage =
+  | { type: 'state'; index: number; startedAt: number }
+  | { type: 'go'; index: number }
+  | { type: 'hello' }
+
+const CHANNEL_NAME = 'hono-vs-nextjs-presentation'
+const senderId = crypto.randomUUID()
+
+export function postPresentationMessage(message: PresentationMessage) {
+  if (typeof BroadcastChannel === 'undefined') return
+  const channel = new BroadcastChannel(CHANNEL_NAME)
+  channel.postMessage({ from: senderId, message })
+  channel.close()
+}
+
+export function subscribePresentation(onMessage: (message: PresentationMessage) => void): () => void {
+  if (typeof BroadcastChannel === 'undefined') return () => {}
+  const channel = new BroadcastChannel(CHANNEL_NAME)
+  channel.onmessage = (event: MessageEvent<{ from: string; message: PresentationMessage }>) => {
+    if (event.data.from !== senderId) onMessage(event.data.message)
+  }
+  return () => channel.close()
+}
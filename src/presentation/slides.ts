@@ -0,0 +1,47 @@
+import { sideIds } from '../content/sides'
+import { topics } from '../content/topics'
+import type { Topic } from '../content/types'
+import { localizeSection, localizeTopic, sideLabel, type Localizer } from '../i18n/content'
+import type { HashRoute } from '../lib/hashRoute'
+import { sections, type PageSection } from '../sections'
+
+type SlideSource = { kind: 'section'; section: PageSection } | { kind: 'topic'; topic: Topic }
+
+export type Slide = { id: string; title: string; notes: string } & SlideSource
+
+// Every section is a slide, except the comparison, which gets one per topic
+const sources: SlideSource[] = sections.flatMap((section): SlideSource[] =>
+  section.id === 'comparison'
+    ? topics.map((topic) => ({ kind: 'topic', topic }))
+    : [{ kind: 'section', section }],
+)
+
+export const slideCount = sources.length
+
+function topicNotes(topic: Topic, l: Localizer): string {
+  const summaries = sideIds.map((side) => `${sideLabel(side, l)}: ${topic.sides[side].summary}`)
+  const steps = (topic.steps ?? []).map((step) => `${step.title}: ${step.text}`)
+  return [...summaries, ...steps].join('\n\n')
+}
+
+export function localizeSlides(l: Localizer): Slide[] {
+  return sources.map((source): Slide => {
+    if (source.kind === 'section') {
+      const section = localizeSection(source.section, l)
+      return { kind: 'section', id: section.id, title: section.title, notes: section.notes, section }
+    }
+    const topic = localizeTopic(source.topic, l)
+    return { kind: 'topic', id: topic.id, title: topic.title, notes: topicNotes(topic, l), topic }
+  })
+}
+
+// #present/3 and #notes/3 address slides 1-based
+export function slideIndex(route: HashRoute): number {
+  const index = Number(route.block?.split('/')[1] ?? 1) - 1
+  return Number.isInteger(index) ? Math.min(Math.max(index, 0), slideCount - 1) : 0
+}
+
+export function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
@@ -0,0 +1,194 @@
+import { middleware, version } from 'virtual:hono-package'
+import { benchmarks, SITE_TABLE, TILE_BUNDLE } from '../content/benchmarks'
+import { sectionTexts } from '../content/sections'
+import { isFramework, sideIds } from '../content/sides'
+import { getTopic, isTopicId, topics, type TopicId } from '../content/topics'
+import type { Framework, Side, Snippet } from '../content/types'
+import { localizeMigration, localizeRpc, localizeSection, localizeTopic, sideLabel } from '../i18n/content'
+import type { Translator } from '../i18n/translator'
+import { formatBytes, formatCount, formatMs } from '../lib/format'
+
+// The page as a document, for the Markdown export and the print view. Text
+// may hold the `<tag>text</tag>` spans of rich() messages; each output
+// decides how to show them.
+export type ReportBlock =
+  | { kind: 'heading'; level: 1 | 2 | 3 | 4; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'list'; items: string[] }
+  | { kind: 'table'; header: string[]; rows: string[][] }
+  | { kind: 'code'; snippet: Snippet }
+
+export interface ReportOptions {
+  topics: TopicId[]
+  // Columns of each comparison, as picked on the page
+  frameworks: Framework[]
+}
+
+// The name the title bar gives the page
+export const REPORT_FILE = 'hono-vs-nextjs-route-handler.md'
+
+const ITEMS = [1, 2, 3, 4] as const
+const METHODOLOGY = [1, 2, 3, 4, 5] as const
+
+function sectionBlocks(id: string, i18n: Translator, options: ReportOptions): ReportBlock[] {
+  const { t } = i18n
+  const bySide = (result: Record<Side, number>, format: (value: number) => string) =>
+    (['hono', 'nextjs'] as const).map((side) => format(result[side]))
+  const sides = [sideLabel('hono', i18n), sideLabel('nextjs', i18n)]
+
+  switch (id) {
+    case 'overview':
+      return [
+        { kind: 'paragraph', text: t('overview.intro') },
+        { kind: 'heading', level: 3, text: t('overview.nextjs.title') },
+        { kind: 'paragraph', text: t('overview.nextjs.text') },
+        { kind: 'heading', level: 3, text: t('overview.hono.title') },
+        { kind: 'paragraph', text: t('overview.hono.text') },
+      ]
+    case 'hono': {
+      const bundle = benchmarks.bundles.find((result) => result.entry === TILE_BUNDLE)
+      const ops = benchmarks.throughput.find((result) => result.table === SITE_TABLE)
+      return [
+        { kind: 'paragraph', text: t('hono.intro') },
+        {
+          kind: 'list',
+          items: [
+            `${t('hono.stat.bundle')}: ${bundle ? formatBytes(bundle.bytes) : '–'}`,
+            `${t('hono.stat.ops')}: ${ops ? formatCount(ops.hono) : '–'}`,
+            `${t('hono.stat.middleware')}: ${middleware.length}`,
+            `${t('hono.stat.version')}: v${version}`,
+          ],
+        },
+        { kind: 'paragraph', text: t('hono.serverOnly') },
+      ]
+    }
+    case 'benchmarks': {
+      const { environment, config } = benchmarks
+      const table = (result: { table: string; routes: number }) => t('bench.table', { name: result.table, count: result.routes })
+      return [
+        { kind: 'paragraph', text: t('bench.intro') },
+        { kind: 'heading', level: 3, text: t('bench.throughput') },
+        {
+          kind: 'table',
+          header: ['', ...sides],
+          rows: benchmarks.throughput.map((result) => [table(result), ...bySide(result, (value) => `${formatCount(value)}/s`)]),
+        },
+        { kind: 'heading', level: 3, text: t('bench.coldStart') },
+        {
+          kind: 'table',
+          header: ['', ...sides],
+          rows: benchmarks.coldStart.map((result) => [table(result), ...bySide(result, formatMs)]),
+        },
+        { kind: 'heading', level: 3, text: t('bench.bundle') },
+        {
+          kind: 'table',
+          header: ['', t('bench.minified'), 'gzip'],
+          rows: benchmarks.bundles.map((result) => [result.entry, formatBytes(result.bytes), formatBytes(result.gzip)]),
+        },
+        { kind: 'heading', level: 3, text: t('bench.methodology') },
+        {
+          kind: 'list',
+          items: METHODOLOGY.map((item) =>
+            t(`bench.methodology.${item}`, {
+              sizes: config.syntheticSizes.join(', '),
+              samples: config.samples,
+              sampleMs: config.sampleMs,
+              runs: config.coldStartRuns,
+            }),
+          ),
+        },
+        {
+          kind: 'paragraph',
+          text: t('bench.environment', {
+            date: benchmarks.generatedAt.slice(0, 10),
+            node: environment.node,
+            cpu: environment.cpu,
+            platform: environment.platform,
+            hono: environment.hono,
+          }),
+        },
+      ]
+    }
+    case 'comparison':
+      return options.topics.flatMap((topicId) => topicBlocks(topicId, i18n, options.frameworks))
+    case 'catalog':
+      return [
+        { kind: 'paragraph', text: t('catalog.intro', { count: middleware.length, version }) },
+        {
+          kind: 'list',
+          items: middleware.map((entry) =>
+            entry.description ? `<code>${entry.importPath}</code>: ${entry.description}` : `<code>${entry.importPath}</code>`,
+          ),
+        },
+      ]
+    case 'rpc': {
+      const { server, client } = localizeRpc(i18n)
+      return [
+        { kind: 'paragraph', text: t('rpc.intro') },
+        { kind: 'code', snippet: server },
+        { kind: 'code', snippet: client },
+      ]
+    }
+    case 'migrate':
+      return [
+        { kind: 'paragraph', text: t('migrate.intro') },
+        { kind: 'code', snippet: localizeMigration(i18n) },
+      ]
+    case 'summary':
+      return (['nextjs', 'hono'] as const).flatMap((side): ReportBlock[] => [
+        { kind: 'heading', level: 3, text: t(`summary.${side}.title`) },
+        { kind: 'list', items: ITEMS.map((item) => t(`summary.${side}.${item}`)) },
+      ])
+    default:
+      return []
+  }
+}
+
+function topicBlocks(topicId: TopicId, i18n: Translator, frameworks: Framework[]): ReportBlock[] {
+  const topic = localizeTopic(getTopic(topicId), i18n)
+  const shown = frameworks.filter((framework) => topic.sides[framework])
+  const missing = frameworks.filter((framework) => !topic.sides[framework])
+  return [
+    { kind: 'heading', level: 3, text: topic.title },
+    { kind: 'list', items: shown.map((framework) => `<b>${sideLabel(framework, i18n)}</b>: ${topic.sides[framework]!.summary}`) },
+    ...shown.flatMap((framework) => (topic.sides[framework]?.blocks ?? []).map((snippet): ReportBlock => ({ kind: 'code', snippet }))),
+    ...missing.map((framework): ReportBlock => ({
+      kind: 'paragraph',
+      text: i18n.t('comparison.notWritten', { framework: sideLabel(framework, i18n) }),
+    })),
+    // Mapping notes compare the two sides' code, so they need both
+    ...(topic.mappings?.length && sideIds.every((side) => frameworks.includes(side))
+      ? [
+          { kind: 'heading', level: 4, text: i18n.t('report.mappings') } satisfies ReportBlock,
+          { kind: 'list', items: topic.mappings.map((mapping) => mapping.note) } satisfies ReportBlock,
+        ]
+      : []),
+  ]
+}
+
+export function buildReport(i18n: Translator, options: ReportOptions): ReportBlock[] {
+  return [
+    { kind: 'heading', level: 1, text: i18n.t('page.title') },
+    ...sectionTexts.flatMap((source): ReportBlock[] => {
+      const section = localizeSection(source, i18n)
+      if (section.id === 'comparison' && options.topics.length === 0) return []
+      return [{ kind: 'heading', level: 2, text: section.title }, ...sectionBlocks(section.id, i18n, options)]
+    }),
+  ]
+}
+
+// #print?topics=auth,error&frameworks=nextjs,hono opens the print view;
+// anything unknown or missing falls back to the whole comparison
+export function readReportOptions(query: Record<string, string> = {}): ReportOptions {
+  const list = (value: string | undefined) => value?.split(',').filter(Boolean)
+  const chosen = list(query.topics)?.filter(isTopicId)
+  const frameworks = list(query.frameworks)?.filter(isFramework)
+  return {
+    topics: chosen ?? topics.map((topic) => topic.id),
+    frameworks: frameworks && frameworks.length > 0 ? frameworks : sideIds,
+  }
+}
+
+export function formatReportHash({ topics, frameworks }: ReportOptions): string {
+  return `#print?${new URLSearchParams({ topics: topics.join(','), frameworks: frameworks.join(',') })}`
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { reportMarkdown } from './markdown'
+
+describe('reportMarkdown', () => {
+  it('writes headings, paragraphs and lists with rich() spans as Markdown', () => {
+    expect(
+      reportMarkdown([
+        { kind: 'heading', level: 2, text: 'Why <code>app.route()</code>' },
+        { kind: 'paragraph', text: '<b>One</b> place, <em>every</em> route, <link>docs</link>' },
+        { kind: 'list', items: ['a', 'b'] },
+      ]),
+    ).toBe('## Why `app.route()`\n\n**One** place, *every* route, docs\n\n- a\n- b\n')
+  })
+
+  it('escapes pipes in table cells', () => {
+    expect(reportMarkdown([{ kind: 'table', header: ['Type', 'Size'], rows: [['string | null', '1 kB']] }])).toBe(
+      '| Type | Size |\n| --- | --- |\n| string \\| null | 1 kB |\n',
+    )
+  })
+
+  it('fences code with more backticks than it holds', () => {
+    const snippet = { code: 'const md = `\n```ts\n```\n`', lang: 'ts' as const, title: 'readme.ts' }
+    expect(reportMarkdown([{ kind: 'code', snippet }])).toBe(`**readme.ts**\n\n\`\`\`\`ts\n${snippet.code}\n\`\`\`\`\n`)
+    const plain = { ...snippet, code: 'const a = 1' }
+    expect(reportMarkdown([{ kind: 'code', snippet: plain }])).toBe('**readme.ts**\n\n```ts\nconst a = 1\n```\n')
+  })
+})
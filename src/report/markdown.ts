@@ -0,0 +1,48 @@
+import type { ReportBlock } from './document'
+
+const TAG = /<(\w+)>(.*?)<\/\1>/g
+
+// rich() spans as Markdown; tags without an equivalent keep only their text
+function inline(text: string): string {
+  return text.replace(TAG, (_, tag: string, chunk: string) => {
+    if (tag === 'code') return `\`${chunk}\``
+    if (tag === 'b') return `**${chunk}**`
+    if (tag === 'em') return `*${chunk}*`
+    return chunk
+  })
+}
+
+// One backtick more than the longest run inside, so code holding fences
+// (or template literals) cannot close the block early
+function fence(code: string): string {
+  const longest = Math.max(0, ...[...code.matchAll(/`+/g)].map((match) => match[0].length))
+  return '`'.repeat(Math.max(3, longest + 1))
+}
+
+const cell = (text: string) => inline(text).replace(/\|/g, '\\|')
+
+function render(block: ReportBlock): string {
+  switch (block.kind) {
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${inline(block.text)}`
+    case 'paragraph':
+      return inline(block.text)
+    case 'list':
+      return block.items.map((item) => `- ${inline(item)}`).join('\n')
+    case 'table':
+      return [
+        `| ${block.header.map(cell).join(' | ')} |`,
+        `| ${block.header.map(() => '---').join(' | ')} |`,
+        ...block.rows.map((row) => `| ${row.map(cell).join(' | ')} |`),
+      ].join('\n')
+    case 'code': {
+      const { code, lang, title } = block.snippet
+      const marks = fence(code)
+      return `**${title}**\n\n${marks}${lang}\n${code}\n${marks}`
+    }
+  }
+}
+
+export function reportMarkdown(blocks: ReportBlock[]): string {
+  return `${blocks.map(render).join('\n\n')}\n`
+}
@@ -0,0 +1,39 @@
+import { transform } from 'sucrase'
+
+export interface EvaluateOptions {
+  modules: Record<string, unknown>
+  globals: Record<string, unknown>
+  locals: string[]
+}
+
+export interface Evaluated {
+  exports: Record<string, unknown>
+  locals: Record<string, unknown>
+}
+
+// Strips types, rewrites imports to require() and runs the snippet as an async
+// function body. Fakes are parameters of an outer scope, so a snippet that
+// declares its own helper simply shadows the fake.
+export async function evaluateSnippet(code: string, { modules, globals, locals }: EvaluateOptions): Promise<Evaluated> {
+  const js = transform(code, { transforms: ['typescript', 'imports'] }).code
+  const capture = locals.map((name) => `${name}: typeof ${name} === 'undefined' ? undefined : ${name}`).join(', ')
+
+  const require = (specifier: string) => {
+    if (!(specifier in modules)) {
+      throw new Error(`Module not available in sandbox: '${specifier}'`)
+    }
+    return modules[specifier]
+  }
+  const exports: Record<string, unknown> = {}
+  const globalNames = Object.keys(globals)
+
+  const run = new Function(
+    'require',
+    'exports',
+    ...globalNames,
+    `return (async function () {\n${js}\nreturn { ${capture} }\n})()`,
+  ) as (...args: unknown[]) => Promise<Record<string, unknown>>
+
+  const captured = await run(require, exports, ...globalNames.map((name) => globals[name]))
+  return { exports, locals: captured }
+}
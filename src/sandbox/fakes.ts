@@ -0,0 +1,70 @@
+import { Hono, type Context, type Next } from 'hono'
+import { handle } from 'hono/vercel'
+
+// In-page stand-ins for the placeholders the snippets call but never define.
+// Each runnable snippet picks one set by id.
+
+interface FakeSet {
+  globals: Record<string, unknown>
+  modules?: Record<string, unknown>
+}
+
+const users: Record<string, { id: string; name: string }> = {
+  '1': { id: '1', name: 'Ada Lovelace' },
+  '2': { id: '2', name: 'Grace Hopper' },
+}
+
+const helpers: FakeSet = {
+  globals: {
+    getUser: async (id: string) => users[id] ?? null,
+    fetchUsers: async () => Object.values(users),
+    fetchPosts: async () => [{ id: '1', title: 'Hello Hono' }],
+    verifyToken: (token: string) => `user-${token.replace(/^Bearer\s+/i, '')}`,
+  },
+}
+
+// Same helpers with the data layer down, to surface each route's error format
+const failingDb: FakeSet = {
+  globals: {
+    ...helpers.globals,
+    fetchUsers: async () => {
+      throw new Error('Database connection lost')
+    },
+    fetchPosts: async () => {
+      throw new Error('Database connection lost')
+    },
+  },
+}
+
+const blogApp = new Hono()
+blogApp.get('/', (c) => c.json({ posts: [{ slug: 'hello-hono', title: 'Hello Hono' }] }))
+blogApp.get('/:slug', (c) => c.json({ slug: c.req.param('slug'), title: 'Hello Hono' }))
+
+const handlers: FakeSet = {
+  globals: {
+    handle,
+    listUsers: (c: Context) => c.json({ users: Object.values(users) }),
+    getUser: (c: Context) => {
+      const user = users[c.req.param('id') ?? '']
+      return user ? c.json({ user }) : c.json({ error: 'Not found' }, 404)
+    },
+    createUser: async (c: Context) => c.json({ created: true, user: await c.req.json() }, 201),
+    updateUser: async (c: Context) => c.json({ updated: c.req.param('id'), user: await c.req.json() }),
+    deleteUser: (c: Context) => c.json({ deleted: c.req.param('id') }),
+    authMiddleware: async (c: Context, next: Next) => {
+      if (!c.req.header('authorization')) {
+        return c.json({ error: 'Unauthorized' }, 401)
+      }
+      await next()
+    },
+    getProfile: (c: Context) => c.json({ profile: users['1'] }),
+    updateProfile: async (c: Context) => c.json({ profile: { ...users['1'], ...(await c.req.json<object>()) } }),
+  },
+  modules: {
+    './blog': { blogApp },
+  },
+}
+
+export const fakeSets = { helpers, failingDb, handlers }
+
+export type FakeSetId = keyof typeof fakeSets
@@ -0,0 +1,61 @@
+import * as zodOpenApi from '@hono/zod-openapi'
+import * as zodValidator from '@hono/zod-validator'
+import * as hono from 'hono'
+import * as honoBasicAuth from 'hono/basic-auth'
+import * as honoBearerAuth from 'hono/bearer-auth'
+import * as honoBodyLimit from 'hono/body-limit'
+import * as honoClient from 'hono/client'
+import * as honoCors from 'hono/cors'
+import * as honoEtag from 'hono/etag'
+import * as honoHttpException from 'hono/http-exception'
+import * as honoPrettyJson from 'hono/pretty-json'
+import * as honoRequestId from 'hono/request-id'
+import * as honoSecureHeaders from 'hono/secure-headers'
+import * as honoStreaming from 'hono/streaming'
+import * as honoTiming from 'hono/timing'
+import * as honoTrailingSlash from 'hono/trailing-slash'
+import * as honoVercel from 'hono/vercel'
+import * as zod from 'zod'
+import { evaluateSnippet } from './evaluate'
+import { fakeSets } from './fakes'
+import { sendRequest } from './request'
+import type { RequestDraft, ResponseView, RunConfig } from './types'
+
+const modules: Record<string, unknown> = {
+  hono,
+  'hono/client': honoClient,
+  'hono/http-exception': honoHttpException,
+  'hono/streaming': honoStreaming,
+  'hono/vercel': honoVercel,
+  // Middleware with a runnable example in the catalog (src/content/catalog.ts)
+  'hono/basic-auth': honoBasicAuth,
+  'hono/bearer-auth': honoBearerAuth,
+  'hono/body-limit': honoBodyLimit,
+  'hono/cors': honoCors,
+  'hono/etag': honoEtag,
+  'hono/pretty-json': honoPrettyJson,
+  'hono/request-id': honoRequestId,
+  'hono/secure-headers': honoSecureHeaders,
+  'hono/timing': honoTiming,
+  'hono/trailing-slash': honoTrailingSlash,
+  zod,
+  '@hono/zod-validator': zodValidator,
+  '@hono/zod-openapi': zodOpenApi,
+}
+
+export async function runHonoSnippet(code: string, run: RunConfig, draft: RequestDraft): Promise<ResponseView> {
+  const fakes = fakeSets[run.fakes ?? 'helpers']
+  const { exports, locals } = await evaluateSnippet(code, {
+    modules: { ...modules, ...fakes.modules },
+    globals: fakes.globals,
+    locals: ['app'],
+  })
+
+  // basePath() returns a HonoBase clone, so check the shape rather than the class
+  const app = (locals.app ?? exports.default) as hono.Hono | undefined
+  if (typeof app?.fetch !== 'function') {
+    throw new Error('Snippet does not define a Hono `app`')
+  }
+  const mounted = run.mount ? new hono.Hono().route(run.mount, app) : app
+  return sendRequest((request) => mounted.fetch(request), draft)
+}
@@ -0,0 +1,12 @@
+import { runHonoSnippet } from './hono'
+import { runNextjsSnippet } from './nextjs'
+import type { RequestDraft, ResponseView, RunConfig } from './types'
+
+const runners = {
+  hono: runHonoSnippet,
+  nextjs: runNextjsSnippet,
+}
+
+export function runSnippet(code: string, run: RunConfig, draft: RequestDraft): Promise<ResponseView> {
+  return runners[run.runtime](code, run, draft)
+}
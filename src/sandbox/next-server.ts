@@ -0,0 +1,24 @@
+// Just enough of 'next/server' for the snippets: the real package needs the
+// Next.js server runtime and cannot load in the browser.
+
+export class NextRequest extends Request {
+  get nextUrl(): URL {
+    return new URL(this.url)
+  }
+}
+
+export class NextResponse extends Response {
+  static json(data: unknown, init?: ResponseInit): NextResponse {
+    const headers = new Headers(init?.headers)
+    headers.set('content-type', 'application/json')
+    return new NextResponse(JSON.stringify(data), { ...init, headers })
+  }
+
+  static redirect(url: string | URL, status = 307): NextResponse {
+    return new NextResponse(null, { status, headers: { location: String(url) } })
+  }
+
+  static next(): NextResponse {
+    return new NextResponse(null, { headers: { 'x-middleware-next': '1' } })
+  }
+}
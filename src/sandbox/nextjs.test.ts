@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { createDispatcher, matchRoute } from './nextjs'
+
+describe('matchRoute', () => {
+  it('matches static and dynamic segments', () => {
+    expect(matchRoute(['api', 'posts'], ['api', 'posts'])).toEqual({})
+    expect(matchRoute(['api', 'posts', '[id]'], ['api', 'posts', '42'])).toEqual({ id: '42' })
+    expect(matchRoute(['api', 'posts', '[id]'], ['api', 'posts'])).toBeNull()
+    expect(matchRoute(['api', 'posts'], ['api', 'posts', '42'])).toBeNull()
+  })
+
+  it('collects the rest of the path into a catch-all', () => {
+    expect(matchRoute(['api', 'docs', '[...slug]'], ['api', 'docs', 'a', 'b'])).toEqual({ slug: ['a', 'b'] })
+    expect(matchRoute(['api', 'docs', '[...slug]'], ['api', 'docs'])).toBeNull()
+  })
+
+  it('lets an optional catch-all match its parent path', () => {
+    expect(matchRoute(['api', '[[...route]]'], ['api'])).toEqual({})
+    expect(matchRoute(['api', '[[...route]]'], ['api', 'users'])).toEqual({ route: ['users'] })
+  })
+})
+
+describe('createDispatcher', () => {
+  const dispatch = createDispatcher([
+    { file: 'app/api/users/route.ts', exports: { GET: () => Response.json(['list']) } },
+    {
+      file: 'app/api/users/[id]/route.ts',
+      exports: {
+        GET: async (_request: Request, { params }: { params: Promise<{ id: string }> }) => Response.json(await params),
+      },
+    },
+  ])
+
+  it('passes decoded params to the handler', async () => {
+    const response = await dispatch(new Request('http://localhost/api/users/a%20b'))
+    expect(await response.json()).toEqual({ id: 'a b' })
+    expect(response.headers.get('x-nextjs-route')).toBe('app/api/users/[id]/route.ts')
+  })
+
+  it('prefers a static route over a dynamic one', async () => {
+    expect(await (await dispatch(new Request('http://localhost/api/users'))).json()).toEqual(['list'])
+  })
+
+  it('answers a malformed escape with 400 instead of throwing', async () => {
+    expect((await dispatch(new Request('http://localhost/api/users/%zz'))).status).toBe(400)
+  })
+
+  it('answers unknown paths with 404 and unexported methods with 405', async () => {
+    expect((await dispatch(new Request('http://localhost/api/posts'))).status).toBe(404)
+    const response = await dispatch(new Request('http://localhost/api/users', { method: 'DELETE' }))
+    expect(response.status).toBe(405)
+    expect(response.headers.get('allow')).toBe('GET')
+  })
+})
@@ -0,0 +1,194 @@
+import * as zod from 'zod'
+import { evaluateSnippet } from './evaluate'
+import { fakeSets } from './fakes'
+import * as nextServer from './next-server'
+import { sendRequest } from './request'
+import { compareRoutes, routeSegments } from './segments'
+import type { RequestDraft, ResponseView, RunConfig } from './types'
+
+// A small emulation of the App Router's file-based dispatch: each virtual
+// app/**/route.ts becomes a route whose exported GET/POST/... functions are
+// called with the request and its params, the way Next.js does it.
+
+export interface VirtualFile {
+  path: string
+  code: string
+  // 1-based line of the snippet the file's code starts at
+  line: number
+}
+
+type Params = Record<string, string | string[]>
+
+export interface RouteModule {
+  // e.g. app/api/posts/[id]/route.ts
+  file: string
+  exports: Record<string, unknown>
+}
+
+interface CompiledRoute extends RouteModule {
+  segments: string[]
+}
+
+interface DispatchOptions {
+  // x-nextjs-route / x-nextjs-params / x-sandbox-error, for the sandbox UI
+  debugHeaders?: boolean
+}
+
+const HTTP_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS']
+
+const FILE_HEADER = /^\/\/ ((?:[\w@.()[\]-]+\/)+[\w.()[\]-]+\.tsx?)\b/
+const TREE_LINE = /[├└│]|^[\w.-]+\/\s*$/
+const ROUTE_FILE = /^app\/(?:.*\/)?route\.tsx?$/
+
+// Reads an ASCII tree such as nextjsFileTree into the file paths it declares
+export function parseFileTree(text: string): string[] {
+  const stack: string[] = []
+  const files: string[] = []
+  for (const line of text.split('\n')) {
+    if (!TREE_LINE.test(line)) continue
+    const match = /^([│├└─\s]*)(\S+)/.exec(line)
+    if (!match) continue
+    const name = match[2]
+    stack.length = Math.round(match[1].length / 4)
+    if (name.endsWith('/')) {
+      stack.push(name.slice(0, -1))
+    } else {
+      files.push([...stack, name].join('/'))
+    }
+  }
+  return files
+}
+
+// Snippets show several files in one block, each introduced by a `// path.ts`
+// comment. A snippet with an ASCII tree instead declares its route files in
+// the tree, and everything outside the tree is the code of each of them.
+export function readVirtualFiles(code: string): VirtualFile[] {
+  const files: VirtualFile[] = []
+  let current: VirtualFile | null = null
+  code.split('\n').forEach((line, index) => {
+    const header = FILE_HEADER.exec(line)
+    if (header) {
+      current = { path: header[1], code: '', line: index + 1 }
+      files.push(current)
+    }
+    if (current) current.code += `${line}\n`
+  })
+  if (files.length > 0) return files
+
+  // Blank out the tree rather than drop it, so lines keep their numbers
+  const shared = code
+    .split('\n')
+    .map((line) => (TREE_LINE.test(line) ? '' : line))
+    .join('\n')
+  return parseFileTree(code)
+    .filter((path) => ROUTE_FILE.test(path))
+    .map((path) => ({ path, code: shared, line: 1 }))
+}
+
+// The path's segments, decoded; null when one has a malformed escape such as
+// %zz, which Next.js answers with 400 before it looks for a route
+function decodeParts(pathname: string): string[] | null {
+  try {
+    return pathname.split('/').filter(Boolean).map(decodeURIComponent)
+  } catch {
+    return null
+  }
+}
+
+// parts come decoded from decodeParts
+export function matchRoute(segments: string[], parts: string[]): Params | null {
+  const params: Params = {}
+  for (let i = 0; i < segments.length; i++) {
+    const catchAll = /^\[(\[)?\.\.\.(\w+)\]\]?$/.exec(segments[i])
+    if (catchAll) {
+      const rest = parts.slice(i)
+      if (!catchAll[1] && rest.length === 0) return null
+      if (rest.length > 0) params[catchAll[2]] = rest
+      return params
+    }
+    if (i >= parts.length) return null
+    const dynamic = /^\[(\w+)\]$/.exec(segments[i])
+    if (dynamic) {
+      params[dynamic[1]] = parts[i]
+    } else if (segments[i] !== parts[i]) {
+      return null
+    }
+  }
+  return segments.length === parts.length ? params : null
+}
+
+function withDebugHeaders(response: Response, headers: Record<string, string>): Response {
+  const copy = new Response(response.body, response)
+  for (const [name, value] of Object.entries(headers)) {
+    copy.headers.set(name, value.replace(/[^\x20-\x7e]/g, '?'))
+  }
+  return copy
+}
+
+async function dispatch(routes: CompiledRoute[], request: Request, debugHeaders: boolean): Promise<Response> {
+  const parts = decodeParts(new URL(request.url).pathname)
+  if (!parts) return new Response('Bad Request', { status: 400 })
+  for (const route of routes) {
+    const params = matchRoute(route.segments, parts)
+    if (!params) continue
+
+    const withHeaders = debugHeaders ? withDebugHeaders : (response: Response) => response
+    const debug: Record<string, string> = debugHeaders ? { 'x-nextjs-route': route.file, 'x-nextjs-params': JSON.stringify(params) } : {}
+    const handler = route.exports[request.method]
+    if (typeof handler !== 'function') {
+      const allow = HTTP_METHODS.filter((method) => typeof route.exports[method] === 'function').join(', ')
+      return withHeaders(new Response(null, { status: 405, headers: { allow } }), debug)
+    }
+
+    let response: unknown
+    try {
+      response = await handler(new nextServer.NextRequest(request), { params: Promise.resolve(params) })
+    } catch (err) {
+      // Next.js answers an uncaught error with an empty 500
+      const message = err instanceof Error ? err.message : String(err)
+      return withHeaders(new Response(null, { status: 500 }), { ...debug, 'x-sandbox-error': message })
+    }
+    if (!(response instanceof Response)) {
+      return withHeaders(new Response(null, { status: 500 }), {
+        ...debug,
+        'x-sandbox-error': 'No response is returned from route handler',
+      })
+    }
+    return withHeaders(response, debug)
+  }
+  return new Response('404: This page could not be found.', { status: 404 })
+}
+
+// Dispatches requests over route modules in App Router order; also used by
+// the benchmarks (scripts/bench) as the Next.js side
+export function createDispatcher(
+  modules: RouteModule[],
+  { debugHeaders = true }: DispatchOptions = {},
+): (request: Request) => Promise<Response> {
+  const routes = modules.map((module) => ({ ...module, segments: routeSegments(module.file) })).sort(compareRoutes)
+  return (request) => dispatch(routes, request, debugHeaders)
+}
+
+export async function runNextjsSnippet(code: string, run: RunConfig, draft: RequestDraft): Promise<ResponseView> {
+  const fakes = fakeSets[run.fakes ?? 'helpers']
+  const files = readVirtualFiles(code)
+  const modules: Record<string, unknown> = { 'next/server': nextServer, zod, ...fakes.modules }
+  const globals: Record<string, unknown> = { ...fakes.globals }
+
+  for (const file of files.filter((file) => !ROUTE_FILE.test(file.path))) {
+    const { exports } = await evaluateSnippet(file.code, { modules, globals, locals: [] })
+    modules[`@/${file.path.replace(/\.tsx?$/, '')}`] = exports
+    // Snippets elide repeated imports, so later files can use these unimported
+    Object.assign(globals, exports)
+  }
+
+  const routes: RouteModule[] = []
+  for (const file of files.filter((file) => ROUTE_FILE.test(file.path))) {
+    const { exports } = await evaluateSnippet(file.code, { modules, globals, locals: [] })
+    routes.push({ file: file.path, exports })
+  }
+  if (routes.length === 0) {
+    throw new Error('Snippet does not declare any app/**/route.ts files')
+  }
+  return sendRequest(createDispatcher(routes), draft)
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { buildRequest, draftToForm, formToDraft, sendRequest } from './request'
+import type { RequestDraft } from './types'
+
+const draft: RequestDraft = {
+  method: 'POST',
+  path: '/api/posts?draft=1',
+  headers: { authorization: 'Bearer token', 'x-trace': 'a:b' },
+  body: '{"title":"Hello"}',
+}
+
+describe('request form', () => {
+  it('round-trips headers through their `name: value` lines', () => {
+    expect(draftToForm(draft).headers).toBe('authorization: Bearer token\nx-trace: a:b')
+    expect(formToDraft(draftToForm(draft))).toEqual(draft)
+  })
+
+  it('skips header lines without a name', () => {
+    const form = { ...draftToForm(draft), headers: 'accept: text/plain\n\n: orphan\nno colon\n  x-a :  1  ' }
+    expect(formToDraft(form).headers).toEqual({ accept: 'text/plain', 'x-a': '1' })
+  })
+})
+
+describe('buildRequest', () => {
+  it('sends a body as JSON unless told otherwise', async () => {
+    const request = buildRequest(draft)
+    expect(request.url).toBe('http://localhost:3000/api/posts?draft=1')
+    expect(request.headers.get('content-type')).toBe('application/json')
+    expect(await request.text()).toBe('{"title":"Hello"}')
+    const text = buildRequest({ ...draft, headers: { 'content-type': 'text/plain' } })
+    expect(text.headers.get('content-type')).toBe('text/plain')
+  })
+
+  it('drops the body of GET and HEAD', () => {
+    for (const method of ['get', 'HEAD']) {
+      const request = buildRequest({ ...draft, method })
+      expect(request.method).toBe(method.toUpperCase())
+      expect(request.body).toBeNull()
+      expect(request.headers.has('content-type')).toBe(false)
+    }
+  })
+})
+
+describe('sendRequest', () => {
+  it('pretty-prints JSON bodies and keeps repeated headers', async () => {
+    const response = await sendRequest(() => {
+      const headers = new Headers({ 'content-type': 'application/json' })
+      headers.append('set-cookie', 'a=1')
+      headers.append('set-cookie', 'b=2')
+      return new Response('{"ok":true}', { status: 201, headers })
+    }, draft)
+    expect(response.status).toBe(201)
+    expect(response.body).toBe('{\n  "ok": true\n}')
+    expect(response.headers.filter(([name]) => name === 'set-cookie')).toEqual([
+      ['set-cookie', 'a=1'],
+      ['set-cookie', 'b=2'],
+    ])
+  })
+
+  it('shows malformed JSON as it came', async () => {
+    const response = await sendRequest(
+      () => new Response('{oops', { headers: { 'content-type': 'application/json' } }),
+      draft,
+    )
+    expect(response.body).toBe('{oops')
+  })
+})
@@ -0,0 +1,57 @@
+import type { RequestDraft, RequestForm, ResponseView } from './types'
+
+type Fetcher = (request: Request) => Response | Promise<Response>
+
+const SANDBOX_ORIGIN = 'http://localhost:3000'
+
+export function draftToForm(draft: RequestDraft): RequestForm {
+  const headers = Object.entries(draft.headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n')
+  return { ...draft, headers }
+}
+
+export function formToDraft(form: RequestForm): RequestDraft {
+  const headers: Record<string, string> = {}
+  for (const line of form.headers.split('\n')) {
+    const index = line.indexOf(':')
+    if (index > 0) headers[line.slice(0, index).trim()] = line.slice(index + 1).trim()
+  }
+  return { ...form, headers }
+}
+
+export function buildRequest(draft: RequestDraft): Request {
+  const method = draft.method.toUpperCase()
+  const hasBody = method !== 'GET' && method !== 'HEAD' && draft.body.trim() !== ''
+  const headers = new Headers(draft.headers)
+  if (hasBody && !headers.has('content-type')) {
+    headers.set('content-type', 'application/json')
+  }
+  return new Request(new URL(draft.path, SANDBOX_ORIGIN), {
+    method,
+    headers,
+    body: hasBody ? draft.body : undefined,
+  })
+}
+
+export async function sendRequest(fetcher: Fetcher, draft: RequestDraft): Promise<ResponseView> {
+  const started = performance.now()
+  const response = await fetcher(buildRequest(draft))
+  const text = await response.text()
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: [...response.headers.entries()],
+    body: formatBody(text, response.headers.get('content-type')),
+    durationMs: performance.now() - started,
+  }
+}
+
+function formatBody(text: string, contentType: string | null): string {
+  if (!contentType?.includes('json')) return text
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2)
+  } catch {
+    return text
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { compareRoutes, routeSegments } from './segments'
+
+describe('routeSegments', () => {
+  it('drops app/, the file name and route groups', () => {
+    expect(routeSegments('app/api/(admin)/posts/[id]/route.ts')).toEqual(['api', 'posts', '[id]'])
+  })
+})
+
+describe('compareRoutes', () => {
+  const order = (...files: string[]) =>
+    files
+      .map((file) => ({ file, segments: routeSegments(file) }))
+      .sort(compareRoutes)
+      .map(({ file }) => file)
+
+  it('tries static segments, then params, then catch-alls', () => {
+    expect(
+      order(
+        'app/api/[[...route]]/route.ts',
+        'app/api/[...slug]/route.ts',
+        'app/api/[id]/route.ts',
+        'app/api/posts/route.ts',
+      ),
+    ).toEqual(['app/api/posts/route.ts', 'app/api/[id]/route.ts', 'app/api/[...slug]/route.ts', 'app/api/[[...route]]/route.ts'])
+  })
+
+  it('tries the shorter route first when one extends the other', () => {
+    expect(order('app/api/posts/[id]/route.ts', 'app/api/posts/route.ts')).toEqual([
+      'app/api/posts/route.ts',
+      'app/api/posts/[id]/route.ts',
+    ])
+  })
+})
@@ -0,0 +1,29 @@
+// App Router path segments and the order Next.js tries routes in. Shared by
+// the sandbox's dispatcher and the migration assistant (src/migrate), which
+// registers Hono routes in the same order.
+
+// app/api/(admin)/posts/[id]/route.ts → ['api', 'posts', '[id]']
+export function routeSegments(file: string): string[] {
+  return file
+    .split('/')
+    .slice(1, -1)
+    .filter((segment) => !/^\(.*\)$/.test(segment))
+}
+
+function segmentRank(segment: string): number {
+  if (segment.startsWith('[[...')) return 3
+  if (segment.startsWith('[...')) return 2
+  if (segment.startsWith('[')) return 1
+  return 0
+}
+
+// Static segments win over [param], which wins over [...catchAll]
+export function compareRoutes(a: { segments: string[] }, b: { segments: string[] }): number {
+  for (let i = 0; i < Math.max(a.segments.length, b.segments.length); i++) {
+    if (a.segments[i] === undefined) return -1
+    if (b.segments[i] === undefined) return 1
+    const diff = segmentRank(a.segments[i]) - segmentRank(b.segments[i])
+    if (diff !== 0) return diff
+  }
+  return 0
+}
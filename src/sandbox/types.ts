@@ -0,0 +1,35 @@
+import type { FakeSetId } from './fakes'
+
+export type Runtime = 'hono' | 'nextjs'
+
+export interface RequestDraft {
+  method: string
+  path: string
+  headers: Record<string, string>
+  body: string
+}
+
+// Editable form of a RequestDraft, with headers as `name: value` lines
+export interface RequestForm {
+  method: string
+  path: string
+  headers: string
+  body: string
+}
+
+export interface RunConfig {
+  runtime: Runtime
+  request: RequestDraft
+  fakes?: FakeSetId
+  // Hono only: mount the snippet's app under this prefix, as a catch-all in
+  // app/api/[[...route]] would, so paths line up with the Next.js side
+  mount?: string
+}
+
+export interface ResponseView {
+  status: number
+  statusText: string
+  headers: [string, string][]
+  body: string
+  durationMs: number
+}
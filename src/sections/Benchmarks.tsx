@@ -0,0 +1,80 @@
+import { BarChart, type BarGroup } from '../components/BarChart'
+import { benchmarks } from '../content/benchmarks'
+import type { Side } from '../content/types'
+import { useI18n } from '../hooks/useI18n'
+import { sideLabel } from '../i18n/content'
+import { rich } from '../i18n/rich'
+import { formatBytes, formatCount, formatMs } from '../lib/format'
+
+const METHODOLOGY = [1, 2, 3, 4, 5] as const
+
+const sideColors: Record<Side, string> = { nextjs: 'bg-keyword', hono: 'bg-type' }
+
+export function Benchmarks() {
+  const i18n = useI18n()
+  const { t } = i18n
+  const { environment, config } = benchmarks
+
+  const bySide = (result: Record<Side, number>, format: (value: number) => string) =>
+    (['hono', 'nextjs'] as const).map((side) => ({
+      label: sideLabel(side, i18n),
+      value: result[side],
+      display: format(result[side]),
+      color: sideColors[side],
+    }))
+
+  const throughput: BarGroup[] = benchmarks.throughput.map((result) => ({
+    label: t('bench.table', { name: result.table, count: result.routes }),
+    bars: bySide(result, (value) => `${formatCount(value)}/s`),
+  }))
+  const coldStart: BarGroup[] = benchmarks.coldStart.map((result) => ({
+    label: t('bench.table', { name: result.table, count: result.routes }),
+    bars: bySide(result, formatMs),
+  }))
+  const bundles: BarGroup[] = benchmarks.bundles.map((result) => ({
+    label: result.entry,
+    bars: [
+      { label: t('bench.minified'), value: result.bytes, display: formatBytes(result.bytes), color: 'bg-type' },
+      { label: 'gzip', value: result.gzip, display: formatBytes(result.gzip), color: 'bg-type/60' },
+    ],
+  }))
+  const code = (chunk: string) => <code className="text-string">{chunk}</code>
+
+  return (
+    <>
+      <p className="text-fg leading-relaxed mb-4">{rich(t('bench.intro'), { code })}</p>
+      <div className="grid lg:grid-cols-2 gap-4 mb-4">
+        <BarChart title={t('bench.throughput')} groups={throughput} />
+        <BarChart title={t('bench.coldStart')} groups={coldStart} />
+        <BarChart title={t('bench.bundle')} groups={bundles} />
+        <div className="rounded-lg p-4 bg-panel border border-edge text-xs">
+          <h3 className="text-fg font-mono mb-2">{t('bench.methodology')}</h3>
+          <ul className="space-y-2 text-muted leading-relaxed list-disc pl-4">
+            {METHODOLOGY.map((item) => (
+              <li key={item}>
+                {rich(
+                  t(`bench.methodology.${item}`, {
+                    sizes: config.syntheticSizes.join(', '),
+                    samples: config.samples,
+                    sampleMs: config.sampleMs,
+                    runs: config.coldStartRuns,
+                  }),
+                  { code },
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+      <p className="text-faint text-xs">
+        {t('bench.environment', {
+          date: benchmarks.generatedAt.slice(0, 10),
+          node: environment.node,
+          cpu: environment.cpu,
+          platform: environment.platform,
+          hono: environment.hono,
+        })}
+      </p>
+    </>
+  )
+}
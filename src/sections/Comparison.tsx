@@ -0,0 +1,93 @@
+import { useEffect, useRef, useState, type KeyboardEvent } from 'react'
+import { FrameworkPicker } from '../components/FrameworkPicker'
+import { TopicComparison } from '../components/TopicComparison'
+import { frameworkIds, isFramework, MAX_COLUMNS } from '../content/sides'
+import { getTopic, isTopicId, topics, type TopicId } from '../content/topics'
+import { useHashRoute } from '../hooks/useHashRoute'
+import { useI18n } from '../hooks/useI18n'
+import { usePickedFrameworks } from '../hooks/usePickedFrameworks'
+import { localizeTopic } from '../i18n/content'
+import { navigate } from '../lib/hashRoute'
+
+export function Comparison() {
+  const route = useHashRoute()
+  const i18n = useI18n()
+  const [activeTab, setActiveTab] = useState<TopicId>('structure')
+  const [picked, setColumns] = usePickedFrameworks()
+  // A link into a framework that is not picked (a search result, say) shows
+  // its column too, in place of the last one when the row is full
+  const linked = route.block?.split('/')[1]?.replace(/-\d+$/, '')
+  const columns =
+    isTopicId(route.target) && isFramework(linked) && !picked.includes(linked)
+      ? frameworkIds.filter((id) => id === linked || picked.slice(0, MAX_COLUMNS - 1).includes(id))
+      : picked
+
+  // Tabs follow the hash (so back/forward work); section links leave the tab as is
+  const hashTab = isTopicId(route.target) ? route.target : route.target === '' ? 'structure' : activeTab
+  if (hashTab !== activeTab) setActiveTab(hashTab)
+
+  // On narrow screens the tabs are one scrolling row; keep the active one in
+  // view when the hash picks a tab further along
+  const tabBar = useRef<HTMLDivElement>(null)
+  useEffect(() => {
+    const bar = tabBar.current
+    const tab = bar?.querySelector<HTMLElement>('[aria-selected="true"]')
+    if (bar && tab && bar.scrollWidth > bar.clientWidth) {
+      bar.scrollLeft = tab.offsetLeft - (bar.clientWidth - tab.offsetWidth) / 2
+    }
+  }, [activeTab])
+
+  // WAI-ARIA tabs: arrows move between tabs and select them, Home and End
+  // jump to the ends; only the selected tab is in the Tab order
+  const onTabKeyDown = (event: KeyboardEvent<HTMLButtonElement>) => {
+    const index = topics.findIndex((topic) => topic.id === activeTab)
+    const moves: Record<string, number> = {
+      ArrowRight: (index + 1) % topics.length,
+      ArrowLeft: (index - 1 + topics.length) % topics.length,
+      Home: 0,
+      End: topics.length - 1,
+    }
+    if (!(event.key in moves)) return
+    event.preventDefault()
+    const next = topics[moves[event.key]].id
+    navigate(`#${next}`, { replace: true })
+    tabBar.current?.querySelector<HTMLElement>(`#tab-${next}`)?.focus()
+  }
+
+  return (
+    <>
+      <FrameworkPicker value={columns} onChange={setColumns} />
+      <div
+        ref={tabBar}
+        role="tablist"
+        aria-label={i18n.t('comparison.tabs')}
+        className="relative flex gap-2 mb-2 overflow-x-auto pb-1 sm:flex-wrap sm:overflow-visible sm:pb-0"
+      >
+        {topics.map((tab) => (
+          <button
+            key={tab.id}
+            id={`tab-${tab.id}`}
+            role="tab"
+            onClick={() => navigate(`#${tab.id}`)}
+            onKeyDown={onTabKeyDown}
+            aria-selected={activeTab === tab.id}
+            aria-controls="comparison-panel"
+            tabIndex={activeTab === tab.id ? 0 : -1}
+            className={`shrink-0 whitespace-nowrap px-3 py-1.5 rounded-md text-xs font-mono transition-colors cursor-pointer ${
+              activeTab === tab.id
+                ? 'bg-type text-editor'
+                : 'bg-panel text-muted hover:text-fg border border-edge'
+            }`}
+          >
+            {localizeTopic(tab, i18n).label}
+          </button>
+        ))}
+      </div>
+      <p className="text-faint text-xs mb-4">{i18n.t('comparison.hint')}</p>
+
+      <div id="comparison-panel" role="tabpanel" aria-labelledby={`tab-${activeTab}`}>
+        <TopicComparison key={activeTab} topic={localizeTopic(getTopic(activeTab), i18n)} columns={columns} />
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,69 @@
+import { useState } from 'react'
+import { middleware, version } from 'virtual:hono-package'
+import { fieldClass } from '../components/RequestFields'
+import { SnippetBlock } from '../components/SnippetBlock'
+import { catalogBlockId, middlewareExamples } from '../content/catalog'
+import { useHashRoute } from '../hooks/useHashRoute'
+import { useI18n } from '../hooks/useI18n'
+import { navigate } from '../lib/hashRoute'
+
+// Descriptions are the first line of each middleware's doc comment in the
+// installed package, so they stay in English
+export function MiddlewareCatalog() {
+  const { t } = useI18n()
+  const route = useHashRoute()
+  const [query, setQuery] = useState('')
+  const open = middleware.find(({ name }) => route.block === catalogBlockId(name) && middlewareExamples[name])
+  const needle = query.trim().toLowerCase()
+  const shown = middleware.filter((entry) =>
+    [entry.name, entry.exportName, entry.description].some((text) => text.toLowerCase().includes(needle)),
+  )
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <p className="text-fg leading-relaxed">{t('catalog.intro', { count: middleware.length, version })}</p>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('catalog.filter')}
+          aria-label={t('catalog.filter')}
+          className={fieldClass}
+        />
+      </div>
+      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {shown.map((entry) => (
+          <div key={entry.name} className="rounded-lg p-3 bg-panel border border-edge text-xs flex flex-col gap-1">
+            <code className="font-mono text-fg">
+              <span className="text-keyword">import</span> {`{ ${entry.exportName} }`}{' '}
+              <span className="text-keyword">from</span> <span className="text-string">'{entry.importPath}'</span>
+            </code>
+            <p className="text-muted flex-1">{entry.description}</p>
+            <div className="flex gap-3">
+              {entry.docs && (
+                <a href={entry.docs} target="_blank" rel="noreferrer" className="text-function hover:underline">
+                  {t('catalog.docs')}
+                </a>
+              )}
+              {middlewareExamples[entry.name] && (
+                <button
+                  onClick={() => navigate(open === entry ? '#catalog' : `#${catalogBlockId(entry.name)}`, { replace: true })}
+                  className="text-type hover:underline cursor-pointer"
+                >
+                  {open === entry ? t('catalog.hideExample') : t('catalog.example')}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      {shown.length === 0 && <p className="text-muted text-sm">{t('catalog.empty', { query })}</p>}
+      {open && (
+        <div className="mt-4">
+          <SnippetBlock id={catalogBlockId(open.name)} snippet={middlewareExamples[open.name]} />
+        </div>
+      )}
+    </>
+  )
+}
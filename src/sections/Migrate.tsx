@@ -0,0 +1,121 @@
+import { useState, type ChangeEvent } from 'react'
+import { CodeBlock } from '../components/CodeBlock'
+import { useI18n } from '../hooks/useI18n'
+import { localizeMigration } from '../i18n/content'
+import { rich } from '../i18n/rich'
+import type { MigrationResult } from '../migrate'
+import { isRouteFile } from '../migrate/paths'
+
+const buttonClass = 'px-3 py-1 rounded text-xs font-mono cursor-pointer text-type border border-type/40 hover:bg-type/10'
+
+type Conversion =
+  | { status: 'idle' | 'converting' }
+  | { status: 'done'; result: MigrationResult }
+  | { status: 'failed'; message: string }
+
+export function Migrate() {
+  const i18n = useI18n()
+  const { t } = i18n
+  const example = localizeMigration(i18n)
+  // Null until the reader pastes or uploads their own routes
+  const [input, setInput] = useState<string | null>(null)
+  const code = input ?? example.code
+  const [conversion, setConversion] = useState<Conversion>({ status: 'idle' })
+
+  // The converter brings the TypeScript compiler, so it loads on first use
+  const convert = async () => {
+    setConversion({ status: 'converting' })
+    try {
+      const { convertRoutes, readSourceFiles } = await import('../migrate')
+      setConversion({ status: 'done', result: convertRoutes(readSourceFiles(code)) })
+    } catch (error) {
+      setConversion({ status: 'failed', message: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const upload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = [...(event.target.files ?? [])].filter((file) => isRouteFile(file.webkitRelativePath))
+    event.target.value = ''
+    if (files.length === 0) return
+    const texts = await Promise.all(files.map(async (file) => `// ${file.webkitRelativePath}\n${await file.text()}`))
+    setInput(texts.join('\n\n'))
+    setConversion({ status: 'idle' })
+  }
+
+  const result = conversion.status === 'done' ? conversion.result : null
+
+  return (
+    <>
+      <p className="text-fg leading-relaxed mb-4">
+        {rich(t('migrate.intro'), { code: (chunk) => <code className="text-string">{chunk}</code> })}
+      </p>
+      <CodeBlock
+        code={code}
+        lang={example.lang}
+        title={input === null ? example.title : t('migrate.yourRoutes')}
+        onCodeChange={setInput}
+        actions={
+          input !== null && (
+            <button onClick={() => setInput(null)} className="text-xs font-mono text-type hover:underline cursor-pointer">
+              {t('snippet.reset')}
+            </button>
+          )
+        }
+      />
+      <div className="flex flex-wrap items-center gap-3 mt-3">
+        <button onClick={convert} disabled={conversion.status === 'converting'} className={buttonClass}>
+          {conversion.status === 'converting' ? t('migrate.converting') : t('migrate.convert')}
+        </button>
+        <label className={buttonClass}>
+          {t('migrate.upload')}
+          {/* Not in React's input types; lets the picker take a whole folder */}
+          <input type="file" multiple onChange={upload} className="sr-only" {...{ webkitdirectory: '' }} />
+        </label>
+        {conversion.status === 'failed' && (
+          <span className="text-error text-xs font-mono">{t('migrate.failed', { message: conversion.message })}</span>
+        )}
+      </div>
+      {result && (
+        <div className="grid lg:grid-cols-[2fr_1fr] gap-4 mt-4">
+          {result.code ? (
+            <CodeBlock code={result.code} lang="typescript" title={result.path} />
+          ) : (
+            <p className="text-muted text-sm">{t('migrate.empty')}</p>
+          )}
+          <div className="flex flex-col gap-4 text-xs min-w-0">
+            {result.routes.length > 0 && (
+              <div className="rounded-lg p-3 bg-panel border border-edge overflow-x-auto">
+                <h3 className="text-type font-medium mb-2">{t('migrate.routes', { count: result.routes.length })}</h3>
+                <table className="w-full font-mono">
+                  <tbody>
+                    {result.routes.map((route) => (
+                      <tr key={`${route.method} ${route.path}`} title={route.file}>
+                        <td className="pr-3 text-keyword">{route.method}</td>
+                        <td className="text-fg">{route.path}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <div className="rounded-lg p-3 bg-panel border border-edge">
+              <h3 className="text-keyword font-medium mb-2">{t('migrate.report')}</h3>
+              {result.notes.length === 0 ? (
+                <p className="text-muted">{t('migrate.clean')}</p>
+              ) : (
+                <ul className="space-y-1.5 text-muted">
+                  {result.notes.map((note, index) => (
+                    <li key={index} className="flex gap-2">
+                      <span className="text-type">•</span>
+                      <span className="min-w-0 break-words">{t(`migrate.note.${note.kind}`, { ...note })}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
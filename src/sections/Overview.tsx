@@ -0,0 +1,25 @@
+import { useI18n } from '../hooks/useI18n'
+import { rich } from '../i18n/rich'
+
+export function Overview() {
+  const { t } = useI18n()
+  return (
+    <>
+      <p className="text-fg leading-relaxed mb-4">
+        {rich(t('overview.intro'), { em: (chunk) => <span className="text-string">{chunk}</span> })}
+      </p>
+      <div className="grid md:grid-cols-2 gap-4 text-sm">
+        <div className="rounded-lg p-4 bg-panel border border-edge">
+          <div className="text-keyword font-medium mb-2">{t('overview.nextjs.title')}</div>
+          <p className="text-muted">{t('overview.nextjs.text')}</p>
+        </div>
+        <div className="rounded-lg p-4 bg-panel border border-edge">
+          <div className="text-type font-medium mb-2">{t('overview.hono.title')}</div>
+          <p className="text-muted">
+            {rich(t('overview.hono.text'), { code: (chunk) => <code className="text-string">{chunk}</code> })}
+          </p>
+        </div>
+      </div>
+    </>
+  )
+}
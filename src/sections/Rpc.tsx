@@ -0,0 +1,29 @@
+import { useState } from 'react'
+import { RpcPlayground } from '../components/RpcPlayground'
+import { SnippetBlock } from '../components/SnippetBlock'
+import { useI18n } from '../hooks/useI18n'
+import { localizeRpc } from '../i18n/content'
+
+export function Rpc() {
+  const i18n = useI18n()
+  const { server, client } = localizeRpc(i18n)
+  // The playground downloads TypeScript, so it waits to be asked for
+  const [playground, setPlayground] = useState(false)
+  return (
+    <>
+      <p className="text-fg leading-relaxed mb-4">{i18n.t('rpc.intro')}</p>
+      <div className="grid lg:grid-cols-2 gap-4">
+        <SnippetBlock id="rpc/server" snippet={server} />
+        <SnippetBlock id="rpc/client" snippet={client} />
+      </div>
+      <button
+        onClick={() => setPlayground(!playground)}
+        aria-expanded={playground}
+        className="mt-4 px-3 py-1 rounded text-xs font-mono cursor-pointer text-type border border-type/40 hover:bg-type/10"
+      >
+        {playground ? i18n.t('playground.close') : i18n.t('playground.open')}
+      </button>
+      {playground && <RpcPlayground />}
+    </>
+  )
+}
@@ -0,0 +1,37 @@
+import { Questionnaire } from '../components/Questionnaire'
+import { useI18n } from '../hooks/useI18n'
+
+const ITEMS = [1, 2, 3, 4] as const
+
+export function Summary() {
+  const { t } = useI18n()
+  return (
+    <>
+      <div className="grid md:grid-cols-2 gap-6 text-sm">
+        <div className="rounded-lg p-4 bg-panel border border-edge">
+          <h3 className="text-keyword font-medium mb-3">{t('summary.nextjs.title')}</h3>
+          <ul className="space-y-2 text-muted">
+            {ITEMS.map((item) => (
+              <li key={item} className="flex gap-2">
+                <span className="text-type">•</span>
+                {t(`summary.nextjs.${item}`)}
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div className="rounded-lg p-4 bg-panel border border-edge">
+          <h3 className="text-type font-medium mb-3">{t('summary.hono.title')}</h3>
+          <ul className="space-y-2 text-muted">
+            {ITEMS.map((item) => (
+              <li key={item} className="flex gap-2">
+                <span className="text-type">•</span>
+                {t(`summary.hono.${item}`)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+      <Questionnaire />
+    </>
+  )
+}
@@ -0,0 +1,47 @@
+import { middleware, version } from 'virtual:hono-package'
+import { benchmarks, SITE_TABLE, TILE_BUNDLE } from '../content/benchmarks'
+import { useI18n } from '../hooks/useI18n'
+import { rich } from '../i18n/rich'
+import { formatBytes, formatCount } from '../lib/format'
+
+export function WhatIsHono() {
+  const { t } = useI18n()
+  const bundle = benchmarks.bundles.find((result) => result.entry === TILE_BUNDLE)
+  const ops = benchmarks.throughput.find((result) => result.table === SITE_TABLE)
+
+  return (
+    <>
+      <p className="text-fg leading-relaxed mb-4">
+        {rich(t('hono.intro'), { hono: (chunk) => <span className="text-type">{chunk}</span> })}
+      </p>
+      <div className="grid grid-cols-4 gap-3 text-center text-sm">
+        <div className="rounded-lg p-3 bg-panel border border-edge">
+          <div className="text-type font-bold text-lg">{bundle ? formatBytes(bundle.bytes) : '–'}</div>
+          <div className="text-muted text-xs">{t('hono.stat.bundle')}</div>
+        </div>
+        <div className="rounded-lg p-3 bg-panel border border-edge">
+          <div className="text-type font-bold text-lg">{ops ? formatCount(ops.hono) : '–'}</div>
+          <div className="text-muted text-xs">{t('hono.stat.ops')}</div>
+        </div>
+        <div className="rounded-lg p-3 bg-panel border border-edge">
+          <div className="text-type font-bold text-lg">{middleware.length}</div>
+          <div className="text-muted text-xs">{t('hono.stat.middleware')}</div>
+        </div>
+        <div className="rounded-lg p-3 bg-panel border border-edge">
+          <div className="text-type font-bold text-lg">v{version.split('.').slice(0, 2).join('.')}</div>
+          <div className="text-muted text-xs">{t('hono.stat.version')}</div>
+        </div>
+      </div>
+      <p className="text-faint text-xs mt-2">{t('hono.serverOnly')}</p>
+      <p className="text-faint text-xs mt-1">
+        {rich(t('hono.measured'), {
+          link: (chunk) => (
+            <a href="#benchmarks" className="underline hover:text-fg">
+              {chunk}
+            </a>
+          ),
+        })}
+      </p>
+    </>
+  )
+}
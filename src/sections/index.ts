@@ -0,0 +1,27 @@
+import type { ComponentType } from 'react'
+import { sectionTexts, type SectionId, type SectionText } from '../content/sections'
+import { Benchmarks } from './Benchmarks'
+import { Comparison } from './Comparison'
+import { MiddlewareCatalog } from './MiddlewareCatalog'
+import { Migrate } from './Migrate'
+import { Overview } from './Overview'
+import { Rpc } from './Rpc'
+import { Summary } from './Summary'
+import { WhatIsHono } from './WhatIsHono'
+
+export interface PageSection extends SectionText {
+  Content: ComponentType
+}
+
+const components: Record<SectionId, ComponentType> = {
+  overview: Overview,
+  hono: WhatIsHono,
+  benchmarks: Benchmarks,
+  comparison: Comparison,
+  catalog: MiddlewareCatalog,
+  rpc: Rpc,
+  migrate: Migrate,
+  summary: Summary,
+}
+
+export const sections: PageSection[] = sectionTexts.map((text) => ({ ...text, Content: components[text.id] }))
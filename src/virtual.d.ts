@@ -0,0 +1,40 @@
+declare module 'virtual:highlighted-snippets' {
+  // Fetches the build-time markup of one locale's snippets
+  export function loadHighlights(locale: string): Promise<void>
+  // Build-time shiki markup for a snippet, if the build saw this exact code;
+  // the twoslash variant exists for snippets marked twoslash
+  export function prerenderedHtml(code: string, lang: string, variant?: 'twoslash'): string | undefined
+}
+
+declare module 'virtual:hono-package' {
+  export interface MiddlewareInfo {
+    // Entry point name, as in hono/<name>
+    name: string
+    importPath: string
+    exportName: string
+    // First line of the middleware's doc comment; empty when it has none
+    description: string
+    docs: string | null
+  }
+  // Read from the installed hono package at build time
+  export const version: string
+  export const middleware: MiddlewareInfo[]
+}
+
+declare module 'virtual:playground-types' {
+  // Declaration files for the RPC playground's worker, by path in its
+  // in-memory file system (/lib.*.d.ts, /node_modules/...)
+  const declarations: Record<string, string>
+  export default declarations
+}
+
+declare module 'virtual:search-index' {
+  export interface SearchDocument {
+    kind: 'section' | 'topic' | 'summary' | 'code'
+    hash: string
+    context: string
+    text: string
+  }
+  // Fetches one locale's index, built from src/content/search.ts
+  export function loadSearchIndex(locale: string): Promise<SearchDocument[]>
+}
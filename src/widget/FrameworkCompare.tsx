@@ -0,0 +1,49 @@
+import { SnippetBlock } from '../components/SnippetBlock'
+import { TopicComparison } from '../components/TopicComparison'
+import { getTopic, isTopicId } from '../content/topics'
+import type { Framework } from '../content/types'
+import { useI18n } from '../hooks/useI18n'
+import { usePrefersLight } from '../hooks/useTheme'
+import { localizeRpc, localizeTopic } from '../i18n/content'
+import { locales } from '../i18n/locales'
+import { resolveTheme, type ThemePreference } from '../lib/themes'
+
+interface FrameworkCompareProps {
+  // A comparison tab's id, or 'rpc' for the RPC server and client pair
+  topic: string
+  columns: Framework[]
+  theme: ThemePreference
+}
+
+function RpcPair() {
+  const { server, client } = localizeRpc(useI18n())
+  return (
+    <div className="grid lg:grid-cols-2 gap-4">
+      <SnippetBlock id="rpc/server" snippet={server} linkLines={false} />
+      <SnippetBlock id="rpc/client" snippet={client} linkLines={false} />
+    </div>
+  )
+}
+
+// What <framework-compare> renders inside its shadow root. The theme sits on
+// this wrapper, since the host page's <html data-theme> cannot reach in, and
+// line links are off: the hash belongs to the host page.
+export function FrameworkCompare({ topic, columns, theme }: FrameworkCompareProps) {
+  const i18n = useI18n()
+
+  return (
+    <div
+      data-theme={resolveTheme(theme, usePrefersLight())}
+      lang={locales[i18n.locale].lang}
+      className="rounded-xl border border-edge bg-editor text-fg p-4 font-sans"
+    >
+      {topic === 'rpc' ? (
+        <RpcPair />
+      ) : isTopicId(topic) ? (
+        <TopicComparison topic={localizeTopic(getTopic(topic), i18n)} columns={columns} linkLines={false} />
+      ) : (
+        <p className="text-error text-sm font-mono">{i18n.t('widget.unknownTopic', { topic })}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+import { StrictMode } from 'react'
+import { createRoot, type Root } from 'react-dom/client'
+import { loadHighlights } from 'virtual:highlighted-snippets'
+import { isFramework, MAX_COLUMNS, MIN_COLUMNS, sideIds } from '../content/sides'
+import type { Framework } from '../content/types'
+import { I18nContext } from '../i18n/context'
+import { defaultLocale, isLocale, type Locale } from '../i18n/locales'
+import { getTranslator } from '../i18n/translator'
+import type { ThemePreference } from '../lib/themes'
+import { FrameworkCompare } from './FrameworkCompare'
+import css from './widget.css?inline'
+
+// One comparison for other pages to embed, built by vite.widget.config.ts:
+//
+//   <script type="module" src=".../widget/<version>/framework-compare.js"></script>
+//   <framework-compare topic="auth" sides="hono,express" theme="light" locale="ja"></framework-compare>
+//
+// topic is a tab id or "rpc"; sides, theme and locale are optional and
+// default to Next.js and Hono, the reader's system theme and English.
+const ELEMENT = 'framework-compare'
+
+// Tailwind declares its internal variables with @property, and browsers
+// ignore @property inside shadow roots; declared on the document they
+// apply in every shadow tree
+const PROPERTY_RULE = /@property\s[^{]+\{[^}]*\}/g
+
+let sheet: CSSStyleSheet | null = null
+
+function shadowStyles(): CSSStyleSheet {
+  if (!sheet) {
+    sheet = new CSSStyleSheet()
+    sheet.replaceSync(css)
+    const properties = document.createElement('style')
+    properties.dataset.frameworkCompare = ''
+    properties.textContent = css.match(PROPERTY_RULE)?.join('\n') ?? ''
+    document.head.append(properties)
+  }
+  return sheet
+}
+
+// Unknown ids are dropped; too few left falls back to the two sides
+function readColumns(value: string | null): Framework[] {
+  const picked = [...new Set(value?.split(',').map((id) => id.trim()))].filter(isFramework)
+  return picked.length >= MIN_COLUMNS ? picked.slice(0, MAX_COLUMNS) : sideIds
+}
+
+class FrameworkCompareElement extends HTMLElement {
+  static observedAttributes = ['topic', 'sides', 'theme', 'locale']
+
+  #root: Root | null = null
+
+  connectedCallback() {
+    const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open' })
+    shadow.adoptedStyleSheets = [shadowStyles()]
+    this.#root ??= createRoot(shadow)
+    this.#render()
+  }
+
+  disconnectedCallback() {
+    this.#root?.unmount()
+    this.#root = null
+  }
+
+  attributeChangedCallback() {
+    this.#render()
+  }
+
+  #locale(): Locale {
+    const locale = this.getAttribute('locale')
+    return isLocale(locale) ? locale : defaultLocale
+  }
+
+  #render() {
+    const root = this.#root
+    if (!root) return
+    const locale = this.#locale()
+    // Same as the page: snippets render from the build's markup, so wait for
+    // it (or render without it, highlighting in the browser, if it fails to
+    // load); a locale switched meanwhile renders once its own table is in
+    const render = () => {
+      if (this.#root !== root || this.#locale() !== locale) return
+      root.render(
+        <StrictMode>
+          <I18nContext value={getTranslator(locale)}>
+            <FrameworkCompare
+              topic={this.getAttribute('topic') ?? ''}
+              columns={readColumns(this.getAttribute('sides'))}
+              // resolveTheme treats anything it does not know as 'system'
+              theme={(this.getAttribute('theme') ?? 'system') as ThemePreference}
+            />
+          </I18nContext>
+        </StrictMode>,
+      )
+    }
+    loadHighlights(locale).then(render, (error: unknown) => {
+      console.error('Highlighted snippets did not load:', error)
+      render()
+    })
+  }
+}
+
+if (!customElements.get(ELEMENT)) customElements.define(ELEMENT, FrameworkCompareElement)
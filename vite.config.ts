@@ -1,6 +1,15 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
+import { bundleReport } from './plugins/bundle-report'
+import { decisionCheck } from './plugins/decision-check'
+import { highlightSnippets } from './plugins/highlight-snippets'
+import { honoPackage } from './plugins/hono-package'
+import { i18nCheck } from './plugins/i18n-check'
+import { playgroundTypes } from './plugins/playground-types'
+import { prerender } from './plugins/prerender'
+import { searchIndex } from './plugins/search-index'
+import { snippetTypes } from './plugins/snippet-types'
 
 export default defineConfig({
   base: '/hono-vs-nextjs/',
@@ -11,5 +20,18 @@ export default defineConfig({
       },
     }),
     tailwindcss(),
+    highlightSnippets(),
+    honoPackage(),
+    playgroundTypes(),
+    searchIndex(),
+    i18nCheck(),
+    snippetTypes(),
+    decisionCheck(),
+    prerender(),
+    bundleReport(),
   ],
+  worker: {
+    format: 'es',
+    plugins: () => [playgroundTypes()],
+  },
 })
@@ -0,0 +1,47 @@
+import { execFileSync } from 'node:child_process'
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+import tailwindcss from '@tailwindcss/vite'
+import { highlightSnippets } from './plugins/highlight-snippets'
+import { honoPackage } from './plugins/hono-package'
+
+// The <framework-compare> element (src/widget) as a library for other pages
+// to embed. Built after the site into dist/widget/<version>/, so the Pages
+// deploy publishes it alongside; pages pin the version they were written for.
+
+// Releases are tagged widget-v<version>. Commits after a tag get describe's
+// -<commits>-g<hash> suffix and untagged history 0.0.0-g<hash>, so no two
+// commits write the same directory.
+function widgetVersion(): string {
+  const described = execFileSync('git', ['describe', '--tags', '--match', 'widget-v*', '--always'], {
+    encoding: 'utf8',
+  }).trim()
+  return described.startsWith('widget-v') ? described.slice('widget-v'.length) : `0.0.0-g${described}`
+}
+
+export default defineConfig({
+  plugins: [
+    react({
+      babel: {
+        plugins: [['babel-plugin-react-compiler']],
+      },
+    }),
+    tailwindcss(),
+    highlightSnippets(),
+    honoPackage(),
+  ],
+  // Library builds leave process.env alone, and React reads it
+  define: {
+    'process.env.NODE_ENV': JSON.stringify('production'),
+  },
+  // public/ holds the site's assets
+  publicDir: false,
+  build: {
+    outDir: `dist/widget/${widgetVersion()}`,
+    lib: {
+      entry: 'src/widget/main.tsx',
+      formats: ['es'],
+      fileName: 'framework-compare',
+    },
+  },
+})
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests run on plain modules; the site's build plugins stay out of them
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
+})